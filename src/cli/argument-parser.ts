@@ -1,7 +1,68 @@
-import type { Config, ValidationError, Result } from "../core/interfaces.ts";
+import type {
+  Config,
+  ValidationError,
+  Result,
+  AlertTier,
+  PacingMode,
+  ModelThreshold,
+  TokenQuota,
+  TokenQuotaType,
+  BillingPeriod,
+  BlockLimits,
+  BurnRateLimit,
+  AnomalyDetection,
+  WeeklyLimits,
+  NotificationCadence,
+  QuietHours,
+  QuietWindow,
+  NotifierType,
+  WebhookMethod,
+  EmailSettings,
+  PushSettings,
+  ScriptHook,
+  DigestSchedule
+} from "../core/interfaces.ts";
 import { ResultUtils } from "../utils/result.ts";
+import { AlertTierEvaluator } from "../core/alert-tiers.ts";
+import { TokenAmount } from "../utils/token-amount.ts";
+import { TimeZone } from "../utils/time-zone.ts";
+import { ConfigFileLoader, type ConfigFileContent } from "./config-file-loader.ts";
+
+// 値を伴うオプション（閾値の位置引数と誤認しないようにスキップする）
+const VALUE_OPTIONS = [
+  '--interval', '--config', '--tiers', '--pacing', '--model-threshold', '--token-quota', '--period', '--timezone',
+  '--block-cost-limit', '--block-token-limit', '--burn-rate-limit', '--burn-rate-cooldown',
+  '--anomaly-days', '--anomaly-threshold', '--week-start', '--weekly-cost-limit', '--weekly-token-limit',
+  '--cadence', '--quiet-hours', '--digest', '--summary', '--slack-channel', '--notifier', '--desktop-report',
+  '--script', '--script-timeout'
+];
+const DEFAULT_BURN_RATE_COOLDOWN_MINUTES = 60;
+const DEFAULT_ANOMALY_LOOKBACK_DAYS = 30;
+const DEFAULT_ANOMALY_THRESHOLD = 3.5;
+const ALERT_SEVERITIES = ['info', 'warning', 'critical'];
+const PACING_MODES = ['calendar', 'workdays'];
+const TOKEN_QUOTA_TYPES = ['input', 'output', 'total'];
+const PERIOD_TYPES = ['calendar', 'cycle', 'weekly', 'rolling'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DEFAULT_WEEK_START_DAY = 1;
+const CADENCE_TYPES = ['once-per-period', 'daily', 'interval', 'escalating', 'cost-growth'];
+const DEFAULT_ESCALATION_HOURS = [1, 4, 24];
+const DIGEST_KINDS = ['daily', 'weekly'];
+const NOTIFIER_TYPES: readonly NotifierType[] = ['slack', 'discord', 'teams', 'webhook', 'email', 'desktop', 'ntfy', 'gotify', 'script'];
+// セルフホストされることのある送信先のみ平文のhttp:を許可する
+const PLAIN_HTTP_NOTIFIERS: readonly NotifierType[] = ['webhook', 'ntfy', 'gotify'];
+const WEBHOOK_METHODS: readonly WebhookMethod[] = ['POST', 'PUT', 'PATCH'];
+const DEFAULT_SCRIPT_TIMEOUT_SECONDS = 30;
+const SMTPS_PORT = 465;
+const SMTP_SUBMISSION_PORT = 587;
+// "alerts@example.com" または "表示名 <alerts@example.com>"（宛先はカンマで区切るため表示名にカンマは使えない）
+const EMAIL_ADDRESS_PATTERN = /^(?:[^\s@<>,]+@[^\s@<>,]+|[^<>,]*<[^\s@<>,]+@[^\s@<>,]+>)$/;
+const DEFAULT_DIGEST_MINUTE = 9 * 60;
+const WEEK_START_ERROR = 'Week start day must be a weekday name (e.g., monday) or a number from 0 (Sunday) to 6 (Saturday)';
 
 export class ArgumentParser {
+  constructor(private configFileLoader: ConfigFileLoader = new ConfigFileLoader()) {}
+
   parse(): Result<Config> {
     try {
       const args = process.argv.slice(2);
@@ -11,10 +72,28 @@ export class ArgumentParser {
         return ResultUtils.failure(new Error("HELP_REQUESTED"));
       }
 
+      // 設定ファイル読み込み（CLI引数が優先）
+      let fileConfig: ConfigFileContent = {};
+      const configPath = this.getOptionValue(args, '--config') ?? process.env.CCWATCH_CONFIG;
+      if (configPath) {
+        const fileResult = this.configFileLoader.load(configPath);
+        if (ResultUtils.isFailure(fileResult)) {
+          return ResultUtils.failure(fileResult.error);
+        }
+        fileConfig = fileResult.data;
+      }
+
+      const summaryMonth = this.getOptionValue(args, '--summary');
+
       // 闾値を見つける（フラグでない最初の引数、または負の数値）
       let threshold: number | undefined;
       let thresholdArg: string | undefined;
-      for (const arg of args) {
+      for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        if (VALUE_OPTIONS.includes(arg)) {
+          i++;
+          continue;
+        }
         if (!arg.startsWith('-') || /^-?\d+(\.\d+)?$/.test(arg)) {
           thresholdArg = arg;
           const parsed = parseFloat(arg);
@@ -26,41 +105,377 @@ export class ArgumentParser {
       }
 
       if (thresholdArg === undefined) {
-        return ResultUtils.failure(new Error("Threshold argument is required"));
+        // 月次サマリーの表示では閾値を使わないため省略できる
+        if (fileConfig.threshold === undefined && summaryMonth === undefined) {
+          return ResultUtils.failure(new Error("Threshold argument is required"));
+        }
+        threshold = fileConfig.threshold;
       }
       
-      if (threshold === undefined) {
+      if (threshold === undefined && thresholdArg !== undefined) {
         return ResultUtils.failure(new Error("Threshold must be a valid number"));
       }
 
-      const daemon = args.includes('--daemon');
-      let interval = 3600; // デフォルト1時間
+      const daemon = args.includes('--daemon') || fileConfig.daemon === true;
+      let interval = fileConfig.interval ?? 3600; // デフォルト1時間
 
       const intervalIndex = args.findIndex(arg => arg === '--interval');
       if (intervalIndex !== -1 && intervalIndex + 1 < args.length) {
         interval = parseInt(args[intervalIndex + 1]!, 10);
       }
 
-      const slackWebhookUrl = process.env.CCWATCH_SLACK_WEBHOOK_URL;
+      const tiersArg = this.getOptionValue(args, '--tiers');
+      const alertTiers = tiersArg !== undefined
+        ? this.parseTierList(tiersArg)
+        : fileConfig.alertTiers;
+
+      const forecast = args.includes('--forecast') || fileConfig.forecast === true;
+      const notifyRecovery = args.includes('--notify-recovery') || fileConfig.notifyRecovery === true;
+      const notifyPeriodReset = args.includes('--notify-period-reset') || fileConfig.notifyPeriodReset === true;
+      const monthlySummary = args.includes('--monthly-summary') || fileConfig.monthlySummary === true;
+      const pacing = (this.getOptionValue(args, '--pacing') ?? fileConfig.pacing) as PacingMode | undefined;
+      const modelThresholdArgs = this.getOptionValues(args, '--model-threshold');
+      const modelThresholds = modelThresholdArgs.length > 0
+        ? modelThresholdArgs.map(value => this.parseModelThreshold(value))
+        : fileConfig.modelThresholds;
+
+      const tokenQuotaArgs = this.getOptionValues(args, '--token-quota');
+      const tokenQuotas = tokenQuotaArgs.length > 0
+        ? tokenQuotaArgs.map(value => this.parseTokenQuota(value))
+        : fileConfig.tokenQuotas;
+
+      const weekStartArg = this.getOptionValue(args, '--week-start') ?? fileConfig.weekly?.startDay;
+      const weekStartDay = weekStartArg !== undefined ? this.parseWeekday(weekStartArg) : DEFAULT_WEEK_START_DAY;
+
+      const periodArg = this.getOptionValue(args, '--period') ?? fileConfig.period;
+      const period = periodArg !== undefined ? this.parsePeriod(periodArg, weekStartDay) : undefined;
+
+      const cadenceArg = this.getOptionValue(args, '--cadence') ?? fileConfig.cadence;
+      const cadence = cadenceArg !== undefined ? this.parseCadence(cadenceArg) : undefined;
+
+      const quietHours = this.parseQuietHours(args, fileConfig.quietHours);
+
+      const digestArgs = this.getOptionValues(args, '--digest');
+      const digestValues = digestArgs.length > 0 ? digestArgs : fileConfig.digests;
+      const digests = digestValues?.map(value => this.parseDigest(value, weekStartDay));
+
+      const timezone = this.getOptionValue(args, '--timezone') ?? fileConfig.timezone;
+      const blocks = this.parseBlockLimits(args, fileConfig.blocks);
+      const burnRate = this.parseBurnRate(args, fileConfig.burnRate);
+      const anomaly = this.parseAnomalyDetection(args, fileConfig.anomaly);
+      const weekly = this.parseWeeklyLimits(args, weekStartDay, fileConfig.weekly);
+
+      const webhookUrl = process.env.CCWATCH_WEBHOOK_URL ?? process.env.CCWATCH_SLACK_WEBHOOK_URL
+        ?? fileConfig.webhook?.url ?? fileConfig.push?.url;
+      const script = this.parseScriptHook(args, fileConfig.script);
+      // 設定ファイルにwebhookのリクエスト・emailの送信設定、または実行するコマンドがある場合はそれぞれの形式で送信する
+      const notifierArg = this.getOptionValue(args, '--notifier') ?? fileConfig.notifier
+        ?? (fileConfig.webhook && 'webhook') ?? (fileConfig.email && 'email') ?? (script && 'script');
+      const notifier = (notifierArg ?? (webhookUrl ? this.detectNotifier(webhookUrl) : undefined)) as NotifierType | undefined;
+      const webhook = fileConfig.webhook && {
+        method: fileConfig.webhook.method?.toUpperCase() as WebhookMethod | undefined,
+        headers: fileConfig.webhook.headers,
+        body: fileConfig.webhook.body
+      };
+      const email = this.parseEmailSettings(fileConfig.email);
+      const push = notifier === 'ntfy' || notifier === 'gotify' ? {
+        token: process.env.CCWATCH_PUSH_TOKEN ?? fileConfig.push?.token,
+        click: fileConfig.push?.click,
+        tags: fileConfig.push?.tags
+      } : undefined;
+      const desktopReport = this.getOptionValue(args, '--desktop-report') ?? fileConfig.desktopReport;
+      const slackBotToken = process.env.CCWATCH_SLACK_BOT_TOKEN;
+      const slackChannel = this.getOptionValue(args, '--slack-channel') ?? fileConfig.slackChannel;
 
       // バリデーション
-      const validationErrors = this.validate({ threshold, daemon, interval, slackWebhookUrl });
+      const validationErrors = this.validate({
+        threshold, daemon, interval, webhookUrl, notifier, webhook, email, push, script, desktopReport, slackBotToken, slackChannel, alertTiers, pacing, modelThresholds, tokenQuotas, period, timezone, blocks, burnRate, anomaly, weekly, cadence, quietHours, digests, summaryMonth
+      });
       if (validationErrors.length > 0) {
         const errorMessages = validationErrors.map(e => e.message).join(', ');
         return ResultUtils.failure(new Error(errorMessages));
       }
 
       return ResultUtils.success({
-        threshold,
+        threshold: threshold ?? 0,
         daemon,
         interval,
-        slackWebhookUrl
+        webhookUrl,
+        notifier,
+        webhook,
+        email,
+        push,
+        script,
+        desktopReport,
+        slackBotToken,
+        slackChannel,
+        alertTiers,
+        forecast,
+        pacing,
+        modelThresholds,
+        tokenQuotas,
+        period,
+        timezone,
+        blocks,
+        burnRate,
+        anomaly,
+        weekly,
+        notifyRecovery,
+        notifyPeriodReset,
+        cadence,
+        quietHours,
+        digests,
+        monthlySummary,
+        summaryMonth
       });
     } catch (error) {
       return ResultUtils.failure(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
+  private getOptionValue(args: string[], option: string): string | undefined {
+    const index = args.findIndex(arg => arg === option);
+    if (index !== -1 && index + 1 < args.length) {
+      return args[index + 1];
+    }
+    return undefined;
+  }
+
+  // 繰り返し指定可能なオプションの値をすべて取得
+  private getOptionValues(args: string[], option: string): string[] {
+    const values: string[] = [];
+    args.forEach((arg, index) => {
+      if (arg === option && index + 1 < args.length) {
+        values.push(args[index + 1]!);
+      }
+    });
+    return values;
+  }
+
+  // "opus=20" 形式のモデル別閾値指定
+  private parseModelThreshold(value: string): ModelThreshold {
+    const separator = value.lastIndexOf('=');
+    if (separator === -1) {
+      return { model: value.trim(), threshold: NaN };
+    }
+    return {
+      model: value.substring(0, separator).trim(),
+      threshold: Number(value.substring(separator + 1).trim().replace(/^\$/, ''))
+    };
+  }
+
+  // "total=2M tokens" 形式のトークン上限指定
+  private parseTokenQuota(value: string): TokenQuota {
+    const [type = "", limit = ""] = value.split('=', 2);
+    return {
+      type: type.trim() as TokenQuotaType,
+      limit: TokenAmount.parse(limit) ?? NaN
+    };
+  }
+
+  // --blocksのみの場合は上限なしでアクティブブロックを報告する
+  private parseBlockLimits(args: string[], fileLimits?: BlockLimits): BlockLimits | undefined {
+    const costArg = this.getOptionValue(args, '--block-cost-limit');
+    const tokenArg = this.getOptionValue(args, '--block-token-limit');
+    if (!args.includes('--blocks') && costArg === undefined && tokenArg === undefined) {
+      return fileLimits;
+    }
+
+    const costLimit = costArg !== undefined ? Number(costArg.replace(/^\$/, '')) : fileLimits?.costLimit;
+    const tokenLimit = tokenArg !== undefined ? TokenAmount.parse(tokenArg) ?? NaN : fileLimits?.tokenLimit;
+    return {
+      ...(costLimit !== undefined && { costLimit }),
+      ...(tokenLimit !== undefined && { tokenLimit })
+    };
+  }
+
+  private parseBurnRate(
+    args: string[],
+    fileBurnRate?: ConfigFileContent['burnRate']
+  ): BurnRateLimit | undefined {
+    const limitArg = this.getOptionValue(args, '--burn-rate-limit');
+    const cooldownArg = this.getOptionValue(args, '--burn-rate-cooldown');
+
+    const costPerHour = limitArg !== undefined ? Number(limitArg.replace(/^\$/, '')) : fileBurnRate?.costPerHour;
+    if (costPerHour === undefined) {
+      return undefined;
+    }
+
+    const cooldownMinutes = cooldownArg !== undefined
+      ? Number(cooldownArg)
+      : fileBurnRate?.cooldownMinutes ?? DEFAULT_BURN_RATE_COOLDOWN_MINUTES;
+    return { costPerHour, cooldownMinutes };
+  }
+
+  // --anomaly-days/--anomaly-thresholdの指定のみでも有効にする
+  private parseAnomalyDetection(
+    args: string[],
+    fileAnomaly?: ConfigFileContent['anomaly']
+  ): AnomalyDetection | undefined {
+    const daysArg = this.getOptionValue(args, '--anomaly-days');
+    const thresholdArg = this.getOptionValue(args, '--anomaly-threshold');
+    if (!args.includes('--anomaly') && daysArg === undefined && thresholdArg === undefined && !fileAnomaly) {
+      return undefined;
+    }
+
+    return {
+      lookbackDays: daysArg !== undefined
+        ? Number(daysArg)
+        : fileAnomaly?.lookbackDays ?? DEFAULT_ANOMALY_LOOKBACK_DAYS,
+      threshold: thresholdArg !== undefined
+        ? Number(thresholdArg)
+        : fileAnomaly?.threshold ?? DEFAULT_ANOMALY_THRESHOLD
+    };
+  }
+
+  // --weekly-cost-limit/--weekly-token-limitのいずれかで有効にする
+  private parseWeeklyLimits(
+    args: string[],
+    startDay: number,
+    fileWeekly?: ConfigFileContent['weekly']
+  ): WeeklyLimits | undefined {
+    const costArg = this.getOptionValue(args, '--weekly-cost-limit');
+    const tokenArg = this.getOptionValue(args, '--weekly-token-limit');
+    if (costArg === undefined && tokenArg === undefined && !fileWeekly) {
+      return undefined;
+    }
+
+    const costLimit = costArg !== undefined ? Number(costArg.replace(/^\$/, '')) : fileWeekly?.costLimit;
+    const tokenLimit = tokenArg !== undefined ? TokenAmount.parse(tokenArg) ?? NaN : fileWeekly?.tokenLimit;
+    return {
+      startDay,
+      ...(costLimit !== undefined && { costLimit }),
+      ...(tokenLimit !== undefined && { tokenLimit }),
+      ...(fileWeekly?.timezone !== undefined && { timezone: fileWeekly.timezone })
+    };
+  }
+
+  // CLIで時間帯を指定した場合は設定ファイルの時間帯を置き換える
+  private parseQuietHours(args: string[], fileQuietHours?: ConfigFileContent['quietHours']): QuietHours | undefined {
+    const windowArgs = this.getOptionValues(args, '--quiet-hours');
+    const windows = windowArgs.length > 0 ? windowArgs : fileQuietHours?.windows;
+    if (!windows) {
+      return undefined;
+    }
+
+    return {
+      windows: windows.map(value => this.parseQuietWindow(value)),
+      allowCritical: args.includes('--quiet-allow-critical') || fileQuietHours?.allowCritical === true,
+      ...(fileQuietHours?.timezone !== undefined && { timezone: fileQuietHours.timezone })
+    };
+  }
+
+  // "22:00-07:00"（毎日）、"mon-fri=22:00-07:00"、"sat,sun=00:00-24:00" 形式の時間帯
+  private parseQuietWindow(value: string): QuietWindow {
+    const separator = value.indexOf('=');
+    const daySpec = separator === -1 ? "" : value.substring(0, separator);
+    const [start = "", end = ""] = value.substring(separator + 1).split('-', 2);
+
+    return {
+      days: daySpec === "" ? [0, 1, 2, 3, 4, 5, 6] : this.parseWeekdays(daySpec),
+      startMinute: this.parseClockTime(start),
+      endMinute: this.parseClockTime(end)
+    };
+  }
+
+  // "daily@09:00"、"weekly:monday@18:00" 形式（時刻省略時は9:00、曜日省略時は週の開始曜日）
+  private parseDigest(value: string, weekStartDay: number): DigestSchedule {
+    const [spec = "", time] = value.trim().split('@', 2);
+    const [kind = "", day] = spec.split(':', 2);
+    const minute = time === undefined ? DEFAULT_DIGEST_MINUTE : this.parseClockTime(time);
+
+    if (kind === 'weekly') {
+      return { kind, minute, day: day === undefined ? weekStartDay : this.parseWeekday(day) };
+    }
+    return { kind: kind as "daily", minute };
+  }
+
+  // "mon-fri,sun" 形式。範囲は週をまたいでもよい（"fri-mon"）
+  private parseWeekdays(value: string): number[] {
+    return value.split(',').flatMap(item => {
+      const [from = "", to] = item.split('-', 2);
+      const start = this.parseWeekday(from);
+      if (to === undefined) {
+        return [start];
+      }
+      const end = this.parseWeekday(to);
+      if (!Number.isInteger(start) || !Number.isInteger(end)) {
+        return [NaN];
+      }
+      return Array.from({ length: ((end - start + 7) % 7) + 1 }, (_, i) => (start + i) % 7);
+    });
+  }
+
+  // "HH:mm" を0:00からの分に変換（24:00まで）
+  private parseClockTime(value: string): number {
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) {
+      return NaN;
+    }
+    const minutes = Number(match[1]) * 60 + Number(match[2]);
+    return Number(match[2]) < 60 && minutes <= 1440 ? minutes : NaN;
+  }
+
+  // 曜日名（"monday"、"mon"）または数値（0: 日曜 〜 6: 土曜）
+  private parseWeekday(value: string | number): number {
+    if (typeof value === 'number') {
+      return value;
+    }
+    const name = value.trim().toLowerCase();
+    const index = WEEKDAYS.findIndex(day => name.length >= 3 && day.startsWith(name));
+    if (index !== -1) {
+      return index;
+    }
+    return name === "" ? NaN : Number(name);
+  }
+
+  // "calendar"、"cycle:25"（25日開始）、"weekly:monday"（月曜開始）、"rolling:7"（直近7日間）形式の期間指定
+  private parsePeriod(value: string, weekStartDay: number): BillingPeriod {
+    const [type = "", amount = ""] = value.trim().split(':', 2);
+    switch (type) {
+      case 'cycle':
+        return { type, startDay: amount === "" ? NaN : Number(amount) };
+      case 'weekly':
+        return { type, startDay: amount === "" ? weekStartDay : this.parseWeekday(amount) };
+      case 'rolling':
+        return { type, days: amount === "" ? NaN : Number(amount) };
+      default:
+        return { type: type as "calendar" };
+    }
+  }
+
+  // "daily"、"interval:6"（6時間ごと）、"escalating:1,4,24"、"cost-growth:10"（$10増加ごと）形式の再通知ポリシー
+  private parseCadence(value: string): NotificationCadence {
+    const [type = "", amount = ""] = value.trim().split(':', 2);
+    switch (type) {
+      case 'interval':
+        return { type, hours: this.parseHours(amount) };
+      case 'escalating':
+        return {
+          type,
+          hours: amount === "" ? DEFAULT_ESCALATION_HOURS : amount.split(',').map(hours => this.parseHours(hours))
+        };
+      case 'cost-growth':
+        return { type, amount: amount === "" ? NaN : Number(amount.replace(/^\$/, '')) };
+      default:
+        return { type: type as "daily" };
+    }
+  }
+
+  // "6" または "6h"
+  private parseHours(value: string): number {
+    const hours = value.trim().replace(/h$/i, '');
+    return hours === "" ? NaN : Number(hours);
+  }
+
+  // "50,80,100,120" 形式のティア指定。severityは割合から決定する
+  private parseTierList(value: string): AlertTier[] {
+    return value.split(',').map(item => {
+      const percent = Number(item.trim().replace(/%$/, ''));
+      return { percent, severity: AlertTierEvaluator.defaultSeverity(percent) };
+    });
+  }
+
   private validate(config: Partial<Config>): ValidationError[] {
     const errors: ValidationError[] = [];
 
@@ -76,15 +491,434 @@ export class ArgumentParser {
       if (intervalError) errors.push(intervalError);
     }
 
-    // Slack URL検証
-    if (config.slackWebhookUrl) {
-      const urlError = this.validateSlackWebhookUrl(config.slackWebhookUrl);
+    // Webhook URL・送信先サービスの検証
+    if (config.webhookUrl) {
+      const urlError = this.validateWebhookUrl(config.webhookUrl, config.notifier);
       if (urlError) errors.push(urlError);
     }
+    if (config.notifier !== undefined && !NOTIFIER_TYPES.includes(config.notifier)) {
+      errors.push({
+        field: 'notifier',
+        value: config.notifier,
+        message: `Notifier must be one of: ${NOTIFIER_TYPES.join(', ')}`
+      });
+    }
+    if (config.webhook?.method !== undefined && !WEBHOOK_METHODS.includes(config.webhook.method)) {
+      errors.push({
+        field: 'webhook.method',
+        value: config.webhook.method,
+        message: `Webhook method must be one of: ${WEBHOOK_METHODS.join(', ')}`
+      });
+    }
+
+    // メール通知の検証
+    if (config.notifier === 'email' && !config.email) {
+      errors.push({
+        field: 'email',
+        value: undefined,
+        message: 'Email notifier requires the "email" settings in the config file'
+      });
+    }
+    if (config.email) {
+      errors.push(...this.validateEmail(config.email));
+    }
+
+    // プッシュ通知の検証
+    if (config.notifier === 'ntfy' || config.notifier === 'gotify') {
+      errors.push(...this.validatePush(config.notifier, config.webhookUrl, config.push));
+    }
+
+    // スクリプト通知の検証
+    if (config.notifier === 'script' && !config.script) {
+      errors.push({
+        field: 'script',
+        value: undefined,
+        message: 'Script notifier requires a command (use --script or "script.command" in the config file)'
+      });
+    }
+    if (config.script && (!isFinite(config.script.timeout) || config.script.timeout <= 0)) {
+      errors.push({
+        field: 'script.timeout',
+        value: config.script.timeout,
+        message: 'Script timeout must be a positive number of seconds'
+      });
+    }
+
+    if (config.desktopReport !== undefined && config.notifier !== 'desktop') {
+      errors.push({
+        field: 'desktopReport',
+        value: config.desktopReport,
+        message: '--desktop-report requires --notifier desktop'
+      });
+    }
+
+    // Slack Web API（ボットトークン）の検証
+    errors.push(...this.validateSlackBot(config.slackBotToken, config.slackChannel));
+
+    // アラートティア検証
+    if (config.alertTiers) {
+      errors.push(...this.validateAlertTiers(config.alertTiers));
+    }
+
+    // モデル別閾値検証
+    if (config.modelThresholds) {
+      errors.push(...this.validateModelThresholds(config.modelThresholds));
+    }
+
+    // トークン上限検証
+    if (config.tokenQuotas) {
+      errors.push(...this.validateTokenQuotas(config.tokenQuotas));
+    }
+
+    // 集計期間検証
+    if (config.period) {
+      const periodError = this.validatePeriod(config.period);
+      if (periodError) errors.push(periodError);
+    }
+
+    // 5時間ブロック上限検証
+    if (config.blocks) {
+      errors.push(...this.validateBlockLimits(config.blocks));
+    }
+
+    // 消費ペース上限検証
+    if (config.burnRate) {
+      errors.push(...this.validateBurnRate(config.burnRate));
+    }
+
+    // 異常検知設定検証
+    if (config.anomaly) {
+      errors.push(...this.validateAnomalyDetection(config.anomaly));
+    }
+
+    // 再通知ポリシー検証
+    if (config.cadence) {
+      const cadenceError = this.validateCadence(config.cadence);
+      if (cadenceError) errors.push(cadenceError);
+    }
+
+    // 静かな時間帯検証
+    if (config.quietHours) {
+      errors.push(...this.validateQuietHours(config.quietHours));
+    }
+
+    // 定期レポート検証
+    if (config.digests) {
+      errors.push(...this.validateDigests(config.digests));
+    }
+
+    if (config.summaryMonth !== undefined && !/^\d{4}-(0[1-9]|1[0-2])$/.test(config.summaryMonth)) {
+      errors.push({
+        field: 'summaryMonth',
+        value: config.summaryMonth,
+        message: 'Summary month must be in the form YYYY-MM (e.g., 2025-06)'
+      });
+    }
+
+    // 週間上限検証
+    if (config.weekly) {
+      errors.push(...this.validateWeeklyLimits(config.weekly));
+    }
+
+    // タイムゾーン検証
+    if (config.timezone !== undefined && !TimeZone.isValid(config.timezone)) {
+      errors.push({
+        field: 'timezone',
+        value: config.timezone,
+        message: 'Timezone must be a valid IANA time zone (e.g., Asia/Tokyo)'
+      });
+    }
+
+    // 日割り予算モード検証
+    if (config.pacing !== undefined && !PACING_MODES.includes(config.pacing)) {
+      errors.push({
+        field: 'pacing',
+        value: config.pacing,
+        message: `Pacing mode must be one of: ${PACING_MODES.join(', ')}`
+      });
+    }
+
+    return errors;
+  }
+
+  private validateAlertTiers(tiers: readonly AlertTier[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (tiers.length === 0) {
+      errors.push({
+        field: 'alertTiers',
+        value: tiers,
+        message: 'Alert tiers must not be empty'
+      });
+    }
+
+    const seen = new Set<number>();
+    for (const tier of tiers) {
+      if (!isFinite(tier.percent) || tier.percent <= 0) {
+        errors.push({
+          field: 'alertTiers',
+          value: tier.percent,
+          message: 'Alert tier percent must be a positive number'
+        });
+      } else if (seen.has(tier.percent)) {
+        errors.push({
+          field: 'alertTiers',
+          value: tier.percent,
+          message: `Alert tier ${tier.percent}% is defined more than once`
+        });
+      }
+      seen.add(tier.percent);
+
+      if (!ALERT_SEVERITIES.includes(tier.severity)) {
+        errors.push({
+          field: 'alertTiers',
+          value: tier.severity,
+          message: `Alert tier severity must be one of: ${ALERT_SEVERITIES.join(', ')}`
+        });
+      }
+    }
 
     return errors;
   }
 
+  private validateBlockLimits(limits: BlockLimits): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (limits.costLimit !== undefined && (!isFinite(limits.costLimit) || limits.costLimit <= 0)) {
+      errors.push({
+        field: 'blocks',
+        value: limits.costLimit,
+        message: 'Block cost limit must be a positive number'
+      });
+    }
+
+    if (limits.tokenLimit !== undefined && (!isFinite(limits.tokenLimit) || limits.tokenLimit <= 0)) {
+      errors.push({
+        field: 'blocks',
+        value: limits.tokenLimit,
+        message: 'Block token limit must be a positive token amount (e.g., 10M tokens)'
+      });
+    }
+
+    return errors;
+  }
+
+  private validateBurnRate(burnRate: BurnRateLimit): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!isFinite(burnRate.costPerHour) || burnRate.costPerHour <= 0) {
+      errors.push({
+        field: 'burnRate',
+        value: burnRate.costPerHour,
+        message: 'Burn rate limit must be a positive dollar amount per hour'
+      });
+    }
+
+    if (!isFinite(burnRate.cooldownMinutes) || burnRate.cooldownMinutes < 0) {
+      errors.push({
+        field: 'burnRate',
+        value: burnRate.cooldownMinutes,
+        message: 'Burn rate cooldown must be zero or more minutes'
+      });
+    }
+
+    return errors;
+  }
+
+  private validateAnomalyDetection(anomaly: AnomalyDetection): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!Number.isInteger(anomaly.lookbackDays) || anomaly.lookbackDays < 7 || anomaly.lookbackDays > 365) {
+      errors.push({
+        field: 'anomaly',
+        value: anomaly.lookbackDays,
+        message: 'Anomaly lookback days must be an integer between 7 and 365'
+      });
+    }
+
+    if (!isFinite(anomaly.threshold) || anomaly.threshold <= 0) {
+      errors.push({
+        field: 'anomaly',
+        value: anomaly.threshold,
+        message: 'Anomaly threshold must be a positive number'
+      });
+    }
+
+    return errors;
+  }
+
+  private validateWeeklyLimits(limits: WeeklyLimits): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!this.isWeekday(limits.startDay)) {
+      errors.push({ field: 'weekly', value: limits.startDay, message: WEEK_START_ERROR });
+    }
+
+    if (limits.costLimit === undefined && limits.tokenLimit === undefined) {
+      errors.push({
+        field: 'weekly',
+        value: limits,
+        message: 'Weekly limits require a cost limit or a token limit'
+      });
+    }
+
+    if (limits.costLimit !== undefined && (!isFinite(limits.costLimit) || limits.costLimit <= 0)) {
+      errors.push({
+        field: 'weekly',
+        value: limits.costLimit,
+        message: 'Weekly cost limit must be a positive number'
+      });
+    }
+
+    if (limits.tokenLimit !== undefined && (!isFinite(limits.tokenLimit) || limits.tokenLimit <= 0)) {
+      errors.push({
+        field: 'weekly',
+        value: limits.tokenLimit,
+        message: 'Weekly token limit must be a positive token amount (e.g., 50M tokens)'
+      });
+    }
+
+    if (limits.timezone !== undefined && !TimeZone.isValid(limits.timezone)) {
+      errors.push({
+        field: 'weekly',
+        value: limits.timezone,
+        message: 'Weekly timezone must be a valid IANA time zone (e.g., America/Los_Angeles)'
+      });
+    }
+
+    return errors;
+  }
+
+  private isWeekday(day: number): boolean {
+    return Number.isInteger(day) && day >= 0 && day <= 6;
+  }
+
+  private validateQuietHours(quietHours: QuietHours): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    quietHours.windows.forEach(window => {
+      const validTimes = Number.isInteger(window.startMinute) && Number.isInteger(window.endMinute) &&
+        window.startMinute < 1440 && window.startMinute !== window.endMinute;
+      if (!validTimes || window.days.length === 0 || !window.days.every(day => this.isWeekday(day))) {
+        errors.push({
+          field: 'quietHours',
+          value: window,
+          message: 'Quiet hours must be in the form [<days>=]HH:mm-HH:mm (e.g., 22:00-07:00, sat,sun=00:00-24:00)'
+        });
+      }
+    });
+
+    if (quietHours.timezone !== undefined && !TimeZone.isValid(quietHours.timezone)) {
+      errors.push({
+        field: 'quietHours',
+        value: quietHours.timezone,
+        message: 'Quiet hours timezone must be a valid IANA time zone (e.g., Asia/Tokyo)'
+      });
+    }
+
+    return errors;
+  }
+
+  private validateDigests(digests: readonly DigestSchedule[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const seen = new Set<string>();
+
+    digests.forEach(digest => {
+      const validDay = digest.kind !== 'weekly' || this.isWeekday(digest.day ?? NaN);
+      if (!DIGEST_KINDS.includes(digest.kind) || !Number.isInteger(digest.minute) || digest.minute >= 1440 || !validDay) {
+        errors.push({
+          field: 'digests',
+          value: digest,
+          message: 'Digest must be in the form daily[@HH:mm] or weekly[:<day>][@HH:mm] (e.g., weekly:monday@09:00)'
+        });
+        return;
+      }
+
+      if (seen.has(digest.kind)) {
+        errors.push({
+          field: 'digests',
+          value: digest.kind,
+          message: `Digest "${digest.kind}" is defined more than once`
+        });
+      }
+      seen.add(digest.kind);
+    });
+
+    return errors;
+  }
+
+  private validateCadence(cadence: NotificationCadence): ValidationError | null {
+    if (!CADENCE_TYPES.includes(cadence.type)) {
+      return {
+        field: 'cadence',
+        value: cadence.type,
+        message: 'Notification cadence must be one of: once-per-period, daily, interval:<hours>, escalating[:<hours,...>], cost-growth:<amount>'
+      };
+    }
+
+    if (cadence.type === 'interval' && (!isFinite(cadence.hours) || cadence.hours <= 0)) {
+      return {
+        field: 'cadence',
+        value: cadence.hours,
+        message: 'Cadence interval must be a positive number of hours'
+      };
+    }
+
+    if (cadence.type === 'escalating' && cadence.hours.some(hours => !isFinite(hours) || hours <= 0)) {
+      return {
+        field: 'cadence',
+        value: cadence.hours,
+        message: 'Escalating cadence intervals must be positive numbers of hours (e.g., 1,4,24)'
+      };
+    }
+
+    if (cadence.type === 'cost-growth' && (!isFinite(cadence.amount) || cadence.amount <= 0)) {
+      return {
+        field: 'cadence',
+        value: cadence.amount,
+        message: 'Cost growth cadence must be a positive dollar amount'
+      };
+    }
+
+    return null;
+  }
+
+  private validatePeriod(period: BillingPeriod): ValidationError | null {
+    if (!PERIOD_TYPES.includes(period.type)) {
+      return {
+        field: 'period',
+        value: period.type,
+        message: 'Period must be one of: calendar, cycle:<start day>, weekly[:<day>], rolling:<days>'
+      };
+    }
+
+    if (period.type === 'weekly' && !this.isWeekday(period.startDay)) {
+      return {
+        field: 'period',
+        value: period.startDay,
+        message: WEEK_START_ERROR
+      };
+    }
+
+    if (period.type === 'cycle' && (!Number.isInteger(period.startDay) || period.startDay < 1 || period.startDay > 31)) {
+      return {
+        field: 'period',
+        value: period.startDay,
+        message: 'Billing cycle start day must be an integer between 1 and 31'
+      };
+    }
+
+    if (period.type === 'rolling' && (!Number.isInteger(period.days) || period.days < 1 || period.days > 365)) {
+      return {
+        field: 'period',
+        value: period.days,
+        message: 'Rolling period days must be an integer between 1 and 365'
+      };
+    }
+
+    return null;
+  }
+
   private validateThreshold(threshold: number): ValidationError | null {
     if (isNaN(threshold)) {
       return {
@@ -121,6 +955,76 @@ export class ArgumentParser {
     return null;
   }
 
+  private validateModelThresholds(thresholds: readonly ModelThreshold[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const seen = new Set<string>();
+
+    for (const rule of thresholds) {
+      if (rule.model.length === 0) {
+        errors.push({
+          field: 'modelThresholds',
+          value: rule.model,
+          message: 'Model threshold must specify a model name (e.g., opus=20)'
+        });
+        continue;
+      }
+
+      if (seen.has(rule.model.toLowerCase())) {
+        errors.push({
+          field: 'modelThresholds',
+          value: rule.model,
+          message: `Model threshold for "${rule.model}" is defined more than once`
+        });
+      }
+      seen.add(rule.model.toLowerCase());
+
+      if (!isFinite(rule.threshold) || rule.threshold <= 0) {
+        errors.push({
+          field: 'modelThresholds',
+          value: rule.threshold,
+          message: `Model threshold for "${rule.model}" must be a positive number`
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  private validateTokenQuotas(quotas: readonly TokenQuota[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const seen = new Set<string>();
+
+    for (const quota of quotas) {
+      if (!TOKEN_QUOTA_TYPES.includes(quota.type)) {
+        errors.push({
+          field: 'tokenQuotas',
+          value: quota.type,
+          message: `Token quota type must be one of: ${TOKEN_QUOTA_TYPES.join(', ')}`
+        });
+        continue;
+      }
+
+      if (seen.has(quota.type)) {
+        errors.push({
+          field: 'tokenQuotas',
+          value: quota.type,
+          message: `Token quota for "${quota.type}" is defined more than once`
+        });
+      }
+      seen.add(quota.type);
+
+      if (!isFinite(quota.limit) || quota.limit <= 0) {
+        errors.push({
+          field: 'tokenQuotas',
+          value: quota.limit,
+          message: `Token quota for "${quota.type}" must be a positive token amount (e.g., 2M tokens)`
+        });
+      }
+    }
+
+    return errors;
+  }
+
   private validateInterval(interval: number): ValidationError | null {
     if (isNaN(interval) || !isFinite(interval)) {
       return {
@@ -149,24 +1053,206 @@ export class ArgumentParser {
     return null;
   }
 
-  private validateSlackWebhookUrl(url: string): ValidationError | null {
+  private validateWebhookUrl(url: string, notifier?: NotifierType): ValidationError | null {
     try {
       const parsedUrl = new URL(url);
-      if (!parsedUrl.hostname.includes('slack.com')) {
-        return {
-          field: 'slackWebhookUrl',
-          value: url,
-          message: 'Slack webhook URL must be from slack.com domain'
-        };
+      if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+        throw new Error(`Unsupported protocol: ${parsedUrl.protocol}`);
       }
-      return null;
     } catch {
       return {
-        field: 'slackWebhookUrl',
+        field: 'webhookUrl',
         value: url,
-        message: 'Invalid Slack webhook URL format'
+        message: 'Invalid webhook URL format'
       };
     }
+
+    if (notifier === undefined) {
+      return {
+        field: 'webhookUrl',
+        value: url,
+        message: `Cannot determine the notifier from the webhook URL host (use --notifier with one of: ${NOTIFIER_TYPES.join(', ')})`
+      };
+    }
+    if (new URL(url).protocol === 'http:' && !PLAIN_HTTP_NOTIFIERS.includes(notifier)) {
+      return {
+        field: 'webhookUrl',
+        value: url,
+        message: `Webhook URL must use https for ${notifier} (http is allowed only for: ${PLAIN_HTTP_NOTIFIERS.join(', ')})`
+      };
+    }
+    return null;
+  }
+
+  // 既知のホストのWebhook URLは送信先サービスを自動で判定する
+  private detectNotifier(url: string): NotifierType | undefined {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      return undefined;
+    }
+
+    if (hostname === 'slack.com' || hostname.endsWith('.slack.com')) {
+      return 'slack';
+    }
+    if (['discord.com', 'discordapp.com'].some(host => hostname === host || hostname.endsWith(`.${host}`))) {
+      return 'discord';
+    }
+    if (hostname === 'ntfy.sh') {
+      return 'ntfy';
+    }
+    // 受信Webhook（*.webhook.office.com）とWorkflows（Power Automate）のURL
+    if (['webhook.office.com', 'logic.azure.com', 'api.powerplatform.com'].some(host => hostname.endsWith(`.${host}`))) {
+      return 'teams';
+    }
+    return undefined;
+  }
+
+  private parseScriptHook(args: string[], fileScript: ConfigFileContent['script']): ScriptHook | undefined {
+    const command = this.getOptionValue(args, '--script') ?? fileScript?.command;
+    if (command === undefined) {
+      return undefined;
+    }
+
+    const timeoutArg = this.getOptionValue(args, '--script-timeout');
+    const timeout = timeoutArg !== undefined
+      ? Number(timeoutArg)
+      : fileScript?.timeout ?? DEFAULT_SCRIPT_TIMEOUT_SECONDS;
+    return { command, timeout };
+  }
+
+  // ポートは暗号化の方式から決め、パスワードは環境変数を優先する
+  private parseEmailSettings(email: ConfigFileContent['email']): EmailSettings | undefined {
+    if (!email) {
+      return undefined;
+    }
+    const secure = email.secure ?? email.port === SMTPS_PORT;
+    return {
+      host: email.host ?? '',
+      port: email.port ?? (secure ? SMTPS_PORT : SMTP_SUBMISSION_PORT),
+      secure,
+      starttls: secure ? false : email.starttls ?? true,
+      username: email.username,
+      password: process.env.CCWATCH_SMTP_PASSWORD ?? email.password,
+      from: email.from ?? '',
+      to: email.to ?? [],
+      cc: email.cc
+    };
+  }
+
+  private validateEmail(email: EmailSettings): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (email.host.trim().length === 0) {
+      errors.push({ field: 'email.host', value: email.host, message: 'Email host is required' });
+    }
+
+    if (!Number.isInteger(email.port) || email.port < 1 || email.port > 65535) {
+      errors.push({ field: 'email.port', value: email.port, message: 'Email port must be an integer from 1 to 65535' });
+    }
+
+    if (!EMAIL_ADDRESS_PATTERN.test(email.from)) {
+      errors.push({
+        field: 'email.from',
+        value: email.from,
+        message: 'Email from must be an address (e.g., "ccwatch <alerts@example.com>")'
+      });
+    }
+
+    if (email.to.length === 0) {
+      errors.push({ field: 'email.to', value: email.to, message: 'Email to must contain at least one address' });
+    }
+    for (const address of [...email.to, ...(email.cc ?? [])]) {
+      if (!EMAIL_ADDRESS_PATTERN.test(address)) {
+        errors.push({
+          field: 'email.to',
+          value: address,
+          message: `Invalid email address: ${address} (display names cannot contain commas)`
+        });
+      }
+    }
+
+    if (email.username !== undefined && email.password === undefined) {
+      errors.push({
+        field: 'email.password',
+        value: undefined,
+        message: 'SMTP password is required when email.username is set (use CCWATCH_SMTP_PASSWORD)'
+      });
+    }
+
+    return errors;
+  }
+
+  private validatePush(notifier: 'ntfy' | 'gotify', url?: string, push?: PushSettings): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    // ntfyはトピックのURLに公開する（URL自体の形式はvalidateWebhookUrlで検証する）
+    if (notifier === 'ntfy' && url && this.parseHttpUrl(url)?.pathname.replace(/\/+$/, '') === '') {
+      errors.push({
+        field: 'webhookUrl',
+        value: url,
+        message: 'ntfy URL must include the topic (e.g., https://ntfy.sh/my-ccwatch-alerts)'
+      });
+    }
+
+    if (notifier === 'gotify' && !push?.token) {
+      errors.push({
+        field: 'push.token',
+        value: undefined,
+        message: 'Gotify notifier requires an app token (use CCWATCH_PUSH_TOKEN)'
+      });
+    }
+
+    if (push?.click !== undefined && !this.parseHttpUrl(push.click)) {
+      errors.push({
+        field: 'push.click',
+        value: push.click,
+        message: `Invalid push click URL: ${push.click}`
+      });
+    }
+
+    return errors;
+  }
+
+  // http(s)のURLとして解釈できない場合はundefined
+  private parseHttpUrl(value: string): URL | undefined {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.protocol === 'http:' ? url : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private validateSlackBot(token?: string, channel?: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (token !== undefined && !token.startsWith('xoxb-')) {
+      errors.push({
+        field: 'slackBotToken',
+        value: '[hidden]',
+        message: 'CCWATCH_SLACK_BOT_TOKEN must be a bot token starting with "xoxb-"'
+      });
+    }
+
+    if (token !== undefined && !channel) {
+      errors.push({
+        field: 'slackChannel',
+        value: channel,
+        message: 'Slack channel is required when CCWATCH_SLACK_BOT_TOKEN is set (e.g., --slack-channel C0123456789)'
+      });
+    }
+
+    if (channel !== undefined && token === undefined) {
+      errors.push({
+        field: 'slackChannel',
+        value: channel,
+        message: 'Slack channel requires the CCWATCH_SLACK_BOT_TOKEN environment variable'
+      });
+    }
+
+    return errors;
   }
 
   private showHelp(): void {
@@ -182,25 +1268,140 @@ OPTIONS:
   -h, --help           Show this help message
   --daemon             Run in daemon mode (continuous monitoring)
   --interval <sec>     Check interval in seconds (default: 3600)
+  --config <path>      Load settings from a JSON config file
+  --tiers <list>       Alert tiers in % of threshold (e.g., 50,80,100,120)
+  --forecast           Project month-end cost and alert when it will exceed
+  --notify-recovery    Notify when spend is back under the threshold
+                       (e.g., after raising the threshold)
+  --notify-period-reset
+                       Notify when a new budget period starts
+  --cadence <policy>   How often to repeat the threshold alert while exceeded:
+                       once-per-period, daily (default), interval:<hours>,
+                       escalating[:<hours,...>] (default 1,4,24) or
+                       cost-growth:<amount> (after spend grows by $amount)
+  --quiet-hours <[days=]HH:mm-HH:mm>
+                       Hold non-critical notifications during this window
+                       and send them together when it ends, repeatable
+                       (e.g., 22:00-07:00, sat,sun=00:00-24:00)
+  --quiet-allow-critical
+                       Send critical alerts even during quiet hours
+  --digest <schedule>  Send a usage digest in daemon mode, repeatable:
+                       daily[@HH:mm] or weekly[:<day>][@HH:mm]
+                       (default time 09:00, e.g., weekly:monday@09:00)
+  --monthly-summary    Send a summary of the previous month when a month
+                       closes (daemon mode)
+  --summary <YYYY-MM>  Print the summary of a past month and exit
+                       (threshold is optional)
+  --pacing <mode>      Alert when today's spend exceeds its daily share
+                       (calendar: remaining days, workdays: Mon-Fri only)
+  --model-threshold <model=amount>
+                       Per-model (or family) dollar threshold, repeatable
+                       (e.g., --model-threshold opus=20)
+  --token-quota <type=amount>
+                       Token quota for input, output or total tokens,
+                       repeatable (e.g., --token-quota "total=2M tokens")
+  --period <period>    Budget period: calendar (default), cycle:<start day>,
+                       weekly[:<day>] or rolling:<days>
+                       (e.g., cycle:25, weekly:monday, rolling:30)
+  --blocks             Report the active 5-hour billing block
+  --block-cost-limit <amount>
+                       Alert when the active 5-hour block exceeds (or is
+                       projected to exceed) this dollar amount
+  --block-token-limit <amount>
+                       Same as above for tokens (e.g., "10M tokens")
+  --burn-rate-limit <amount>
+                       Alert when spend between checks exceeds this many
+                       dollars per hour (e.g., --burn-rate-limit 10)
+  --burn-rate-cooldown <min>
+                       Minutes before another burn-rate alert (default: 60)
+  --anomaly            Alert when today's spend is an outlier compared with
+                       recent days (median/MAD modified z-score)
+  --anomaly-days <n>   Days of history for anomaly detection (default: 30)
+  --anomaly-threshold <score>
+                       Score above which today is anomalous (default: 3.5)
+  --weekly-cost-limit <amount>
+                       Alert when this week's spend exceeds this amount
+  --weekly-token-limit <amount>
+                       Same as above for total tokens (e.g., "50M tokens")
+  --week-start <day>   First day of the week (default: monday)
+  --timezone <zone>    IANA time zone for day/month boundaries
+                       (default: system time zone, e.g., Asia/Tokyo)
+  --notifier <type>    Notification service: slack, discord, teams, webhook,
+                       email, desktop, ntfy, gotify or script (default:
+                       detected from the webhook URL host; webhook and email
+                       use the config file's "webhook" and "email" settings)
+  --desktop-report <url|path>
+                       Add an action to desktop notifications that opens
+                       this URL or file (requires --notifier desktop)
+  --script <command>   Run this shell command for each notification with the
+                       alert as JSON on stdin and CCWATCH_* variables
+                       (a non-zero exit code is a delivery failure)
+  --script-timeout <seconds>
+                       Stop the script after this many seconds (default: 30)
+  --slack-channel <id> Post with the Slack Web API instead of a webhook
+                       (requires CCWATCH_SLACK_BOT_TOKEN). Alerts in a period
+                       share a thread and a pinned status message is updated
 
 EXAMPLES:
   ccwatch 33                              # Check once with $33 threshold
   ccwatch 50 --daemon                     # Monitor continuously every hour
   ccwatch 33 --daemon --interval 1800     # Monitor every 30 minutes
+  ccwatch 50 --tiers 50,80,100,120        # Notify at each alert tier
+  ccwatch 50 --forecast                   # Include month-end cost projection
+  ccwatch 50 --daemon --notify-recovery --notify-period-reset
+                                          # Also report when things are fine again
+  ccwatch 50 --daemon --cadence escalating  # Re-alert after 1h, 4h, then every 24h
+  ccwatch 50 --daemon --cadence cost-growth:10
+                                          # Re-alert each time spend grows by $10
+  ccwatch 50 --daemon --quiet-hours 22:00-08:00 --quiet-allow-critical
+                                          # No pings at night except critical
+  ccwatch 50 --daemon --digest daily@09:00 --digest weekly:mon
+                                          # Daily and weekly usage digests
+  ccwatch 50 --daemon --monthly-summary   # Summary of each month as it closes
+  ccwatch --summary 2025-06               # Show June 2025 vs. May 2025
+  ccwatch 50 --pacing workdays            # Daily budget over remaining workdays
+  ccwatch 50 --model-threshold opus=20    # Opus family ≤ $20, total ≤ $50
+  ccwatch 50 --token-quota total=2M       # Also alert above 2M tokens
+  ccwatch 50 --period cycle:25            # Billing cycle from the 25th to the 24th
+  ccwatch 20 --period rolling:7           # Last 7 days including today
+  ccwatch 50 --timezone Asia/Tokyo        # Roll over days at local midnight
+  ccwatch 50 --block-token-limit 10M      # Watch the active 5-hour block
+  ccwatch 50 --daemon --interval 600 --burn-rate-limit 10
+                                          # Alert on spend spikes above $10/hour
+  ccwatch 50 --anomaly                    # Alert on unusually expensive days
+  ccwatch 50 --weekly-cost-limit 30 --week-start sunday
+                                          # Weekly cap reset every Sunday
   
   # Background execution:
   nohup ccwatch 33 --daemon > ccwatch.log 2>&1 &
 
 ENVIRONMENT VARIABLES:
   CCWATCH_SLACK_WEBHOOK_URL      Slack webhook URL for notifications (optional)
+  CCWATCH_WEBHOOK_URL            Webhook URL for any --notifier (takes precedence)
+  CCWATCH_SMTP_PASSWORD          SMTP password for the email notifier
+  CCWATCH_PUSH_TOKEN             ntfy access token or Gotify app token
+  CCWATCH_SLACK_BOT_TOKEN        Slack bot token (xoxb-...) for --slack-channel
+  CCWATCH_CONFIG                 Path to a JSON config file (optional)
 
 DAEMON MODE FEATURES:
   • Automatic periodic monitoring
-  • Duplicate notification prevention (once per day)
+  • Duplicate notification prevention (once per day, or per --cadence policy)
+  • Alert tiers notified once per period
+  • Period-end forecast alert notified once per period
+  • Daily pacing alert notified once per day
+  • Per-model thresholds notified once per day per model
+  • Token quotas notified once per day per quota type
+  • 5-hour block limits notified once per block
+  • Burn-rate alerts with their own cooldown
+  • Spend anomaly alert notified once per day
+  • Weekly limits notified once per week per limit type
+  • Threshold status tracking with recovery and new-period notifications
+  • Quiet hours with held notifications delivered together afterwards
+  • Daily/weekly digest reports sent once per scheduled time
   • Graceful shutdown with Ctrl+C
   • State persistence in ~/.ccwatch-state.json
   • Timestamped logging
 
 For more information, visit: https://github.com/yoshikouki/ccwatch`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,289 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { writeFileSync, existsSync, unlinkSync } from "fs";
+import { ConfigFileLoader } from "./config-file-loader.ts";
+import { ResultUtils } from "../utils/result.ts";
+
+describe("ConfigFileLoader", () => {
+  let loader: ConfigFileLoader;
+  const testConfigFile = "/tmp/test-ccwatch-config.json";
+
+  beforeEach(() => {
+    loader = new ConfigFileLoader();
+  });
+
+  afterEach(() => {
+    if (existsSync(testConfigFile)) {
+      unlinkSync(testConfigFile);
+    }
+  });
+
+  test("設定ファイルの読み込み", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      threshold: 50,
+      daemon: true,
+      interval: 1800,
+      alertTiers: [
+        { percent: 80, severity: "warning", message: "80%に到達" },
+        { percent: 100 }
+      ]
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.threshold).toBe(50);
+      expect(result.data.daemon).toBe(true);
+      expect(result.data.interval).toBe(1800);
+      expect(result.data.alertTiers).toEqual([
+        { percent: 80, severity: "warning", message: "80%に到達" },
+        { percent: 100, severity: "critical", message: undefined }
+      ]);
+    }
+  });
+
+  test("モデル別閾値の型エラー", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      modelThresholds: [{ model: "opus", threshold: 20 }, { model: "sonnet" }]
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("modelThresholds[1].threshold must be a number");
+    }
+  });
+
+  test("トークン上限は単位付き文字列も受け付ける", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      tokenQuotas: [
+        { type: "total", limit: "2M tokens" },
+        { type: "output", limit: 500000 }
+      ]
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.tokenQuotas).toEqual([
+        { type: "total", limit: 2_000_000 },
+        { type: "output", limit: 500_000 }
+      ]);
+    }
+  });
+
+  test("トークン上限の不正な値", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      tokenQuotas: [{ type: "total", limit: "lots" }]
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("tokenQuotas[0].limit must be a token amount");
+    }
+  });
+
+  test("5時間ブロックの上限", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      blocks: { costLimit: 20, tokenLimit: "10M tokens" }
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.blocks).toEqual({ costLimit: 20, tokenLimit: 10_000_000 });
+    }
+  });
+
+  test("週間上限", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      weekly: { startDay: "sunday", costLimit: 30, tokenLimit: "50M tokens", timezone: "America/Los_Angeles" }
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.weekly).toEqual({
+        startDay: "sunday",
+        costLimit: 30,
+        tokenLimit: 50_000_000,
+        timezone: "America/Los_Angeles"
+      });
+    }
+  });
+
+  test("静かな時間帯", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      quietHours: { windows: ["22:00-07:00"], timezone: "Asia/Tokyo", allowCritical: true }
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.quietHours).toEqual({ windows: ["22:00-07:00"], timezone: "Asia/Tokyo", allowCritical: true });
+    }
+  });
+
+  test("汎用Webhook", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      webhook: {
+        url: "https://gateway.internal.example.com/alerts",
+        headers: { Authorization: "Bearer token" },
+        body: { text: "{{text}}", usd: "{{cost}}", tags: ["ccwatch", "{{severity}}"] }
+      }
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.webhook).toEqual({
+        url: "https://gateway.internal.example.com/alerts",
+        headers: { Authorization: "Bearer token" },
+        body: { text: "{{text}}", usd: "{{cost}}", tags: ["ccwatch", "{{severity}}"] }
+      });
+    }
+  });
+
+  test("汎用Webhookの不正なテンプレート", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      webhook: { headers: { "X-Retry": 3 }, body: { usd: "{{price}}", note: "{{ user }}さん" } }
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("webhook.headers must be an object of strings");
+      expect(result.error.message).toContain("webhook.body has unknown placeholders: {{price}}, {{user}}");
+    }
+  });
+
+  test("メール通知", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      email: { host: "smtp.example.com", port: 587, starttls: true, from: "alerts@example.com", to: "finance@example.com", cc: ["dev@example.com"] }
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.email).toEqual({
+        host: "smtp.example.com",
+        port: 587,
+        starttls: true,
+        from: "alerts@example.com",
+        to: ["finance@example.com"],
+        cc: ["dev@example.com"]
+      });
+    }
+  });
+
+  test("メール通知の型エラー", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      email: { host: "smtp.example.com", port: "587", secure: "yes", to: [1] }
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("email.port must be a number");
+      expect(result.error.message).toContain("email.secure must be a boolean");
+      expect(result.error.message).toContain("email.to must be a string or an array of strings");
+    }
+  });
+
+  test("プッシュ通知", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      notifier: "ntfy",
+      push: { url: "https://ntfy.example.com/ccwatch", click: "https://console.anthropic.com/usage", tags: ["money"] }
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.push).toEqual({
+        url: "https://ntfy.example.com/ccwatch",
+        click: "https://console.anthropic.com/usage",
+        tags: ["money"]
+      });
+    }
+  });
+
+  test("プッシュ通知の型エラー", () => {
+    writeFileSync(testConfigFile, JSON.stringify({ push: { token: 123, tags: "money" } }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("push.token must be a string");
+      expect(result.error.message).toContain("push.tags must be an array of strings");
+    }
+  });
+
+  test("スクリプト通知", () => {
+    writeFileSync(testConfigFile, JSON.stringify({ script: { command: "./pause-ci.sh", timeout: "60" } }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result) && result.error.message).toContain("script.timeout must be a number");
+  });
+
+  test("存在しないファイル", () => {
+    const result = loader.load("/tmp/non-existent-ccwatch-config.json");
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("Config file not found");
+    }
+  });
+
+  test("不正なJSON", () => {
+    writeFileSync(testConfigFile, "{ invalid json");
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("Invalid config file JSON");
+    }
+  });
+
+  test("オブジェクト以外のJSON", () => {
+    writeFileSync(testConfigFile, "[1, 2, 3]");
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("must contain a JSON object");
+    }
+  });
+
+  test("型の異なる項目はまとめてエラー", () => {
+    writeFileSync(testConfigFile, JSON.stringify({
+      threshold: "50",
+      period: 25,
+      alertTiers: [{ percent: "80" }]
+    }));
+
+    const result = loader.load(testConfigFile);
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("threshold must be a number");
+      expect(result.error.message).toContain("period must be a string");
+      expect(result.error.message).toContain("alertTiers[0].percent must be a number");
+    }
+  });
+});
@@ -0,0 +1,592 @@
+import { readFileSync, existsSync } from "fs";
+import type {
+  AlertTier,
+  ModelThreshold,
+  TokenQuota,
+  TokenQuotaType,
+  BlockLimits,
+  Result
+} from "../core/interfaces.ts";
+import { ResultUtils } from "../utils/result.ts";
+import { AlertTierEvaluator } from "../core/alert-tiers.ts";
+import { TokenAmount } from "../utils/token-amount.ts";
+import { WebhookTemplateRenderer, WEBHOOK_PLACEHOLDERS } from "../core/webhook-template.ts";
+
+// 設定ファイル（JSON）で指定可能な項目。CLI引数が優先される
+export interface ConfigFileContent {
+  readonly threshold?: number;
+  readonly daemon?: boolean;
+  readonly interval?: number;
+  readonly alertTiers?: AlertTier[];
+  readonly forecast?: boolean;
+  readonly notifyRecovery?: boolean;
+  readonly notifyPeriodReset?: boolean;
+  readonly monthlySummary?: boolean;
+  readonly cadence?: string;
+  readonly slackChannel?: string;
+  readonly notifier?: string;
+  readonly desktopReport?: string;
+  readonly webhook?: {
+    readonly url?: string;
+    readonly method?: string;
+    readonly headers?: Record<string, string>;
+    readonly body?: unknown;
+  };
+  readonly email?: {
+    readonly host?: string;
+    readonly port?: number;
+    readonly secure?: boolean;
+    readonly starttls?: boolean;
+    readonly username?: string;
+    readonly password?: string;
+    readonly from?: string;
+    readonly to?: string[];
+    readonly cc?: string[];
+  };
+  readonly script?: {
+    readonly command?: string;
+    readonly timeout?: number;
+  };
+  readonly push?: {
+    readonly url?: string;
+    readonly token?: string;
+    readonly click?: string;
+    readonly tags?: string[];
+  };
+  readonly digests?: string[];
+  readonly quietHours?: {
+    readonly windows?: string[];
+    readonly timezone?: string;
+    readonly allowCritical?: boolean;
+  };
+  readonly pacing?: string;
+  readonly period?: string;
+  readonly timezone?: string;
+  readonly modelThresholds?: ModelThreshold[];
+  readonly tokenQuotas?: TokenQuota[];
+  readonly blocks?: BlockLimits;
+  readonly burnRate?: { readonly costPerHour?: number; readonly cooldownMinutes?: number };
+  readonly anomaly?: { readonly lookbackDays?: number; readonly threshold?: number };
+  readonly weekly?: {
+    readonly startDay?: string | number;
+    readonly costLimit?: number;
+    readonly tokenLimit?: number;
+    readonly timezone?: string;
+  };
+}
+
+export class ConfigFileLoader {
+  load(filePath: string): Result<ConfigFileContent> {
+    if (!existsSync(filePath)) {
+      return ResultUtils.failure(new Error(`Config file not found: ${filePath}`));
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return ResultUtils.failure(new Error(`Invalid config file JSON: ${errorMessage}`));
+    }
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      return ResultUtils.failure(new Error("Config file must contain a JSON object"));
+    }
+
+    const errors: string[] = [];
+    const content = this.parseContent(raw as Record<string, unknown>, errors);
+    if (errors.length > 0) {
+      return ResultUtils.failure(new Error(`Invalid config file: ${errors.join(', ')}`));
+    }
+
+    return ResultUtils.success(content);
+  }
+
+  private parseContent(raw: Record<string, unknown>, errors: string[]): ConfigFileContent {
+    const content: { -readonly [K in keyof ConfigFileContent]: ConfigFileContent[K] } = {};
+
+    if (raw.threshold !== undefined) {
+      if (typeof raw.threshold === 'number') content.threshold = raw.threshold;
+      else errors.push("threshold must be a number");
+    }
+
+    if (raw.daemon !== undefined) {
+      if (typeof raw.daemon === 'boolean') content.daemon = raw.daemon;
+      else errors.push("daemon must be a boolean");
+    }
+
+    if (raw.interval !== undefined) {
+      if (typeof raw.interval === 'number') content.interval = raw.interval;
+      else errors.push("interval must be a number");
+    }
+
+    if (raw.forecast !== undefined) {
+      if (typeof raw.forecast === 'boolean') content.forecast = raw.forecast;
+      else errors.push("forecast must be a boolean");
+    }
+
+    if (raw.notifyRecovery !== undefined) {
+      if (typeof raw.notifyRecovery === 'boolean') content.notifyRecovery = raw.notifyRecovery;
+      else errors.push("notifyRecovery must be a boolean");
+    }
+
+    if (raw.notifyPeriodReset !== undefined) {
+      if (typeof raw.notifyPeriodReset === 'boolean') content.notifyPeriodReset = raw.notifyPeriodReset;
+      else errors.push("notifyPeriodReset must be a boolean");
+    }
+
+    if (raw.monthlySummary !== undefined) {
+      if (typeof raw.monthlySummary === 'boolean') content.monthlySummary = raw.monthlySummary;
+      else errors.push("monthlySummary must be a boolean");
+    }
+
+    if (raw.pacing !== undefined) {
+      // モード値の検証はArgumentParserで行う
+      if (typeof raw.pacing === 'string') content.pacing = raw.pacing;
+      else errors.push("pacing must be a string");
+    }
+
+    if (raw.period !== undefined) {
+      // "cycle:25" などの期間指定の解釈はArgumentParserで行う
+      if (typeof raw.period === 'string') content.period = raw.period;
+      else errors.push("period must be a string");
+    }
+
+    if (raw.cadence !== undefined) {
+      // ポリシーの検証はArgumentParserで行う
+      if (typeof raw.cadence === 'string') content.cadence = raw.cadence;
+      else errors.push("cadence must be a string");
+    }
+
+    if (raw.notifier !== undefined) {
+      if (typeof raw.notifier === 'string') content.notifier = raw.notifier;
+      else errors.push("notifier must be a string");
+    }
+
+    if (raw.desktopReport !== undefined) {
+      if (typeof raw.desktopReport === 'string') content.desktopReport = raw.desktopReport;
+      else errors.push("desktopReport must be a string");
+    }
+
+    if (raw.webhook !== undefined) {
+      content.webhook = this.parseWebhook(raw.webhook, errors);
+    }
+
+    if (raw.email !== undefined) {
+      content.email = this.parseEmail(raw.email, errors);
+    }
+
+    if (raw.script !== undefined) {
+      content.script = this.parseScript(raw.script, errors);
+    }
+
+    if (raw.push !== undefined) {
+      content.push = this.parsePush(raw.push, errors);
+    }
+
+    if (raw.slackChannel !== undefined) {
+      if (typeof raw.slackChannel === 'string') content.slackChannel = raw.slackChannel;
+      else errors.push("slackChannel must be a string");
+    }
+
+    if (raw.timezone !== undefined) {
+      if (typeof raw.timezone === 'string') content.timezone = raw.timezone;
+      else errors.push("timezone must be a string");
+    }
+
+    if (raw.blocks !== undefined) {
+      content.blocks = this.parseBlockLimits(raw.blocks, errors);
+    }
+
+    if (raw.burnRate !== undefined) {
+      content.burnRate = this.parseBurnRate(raw.burnRate, errors);
+    }
+
+    if (raw.anomaly !== undefined) {
+      content.anomaly = this.parseAnomaly(raw.anomaly, errors);
+    }
+
+    if (raw.digests !== undefined) {
+      // スケジュールの検証はArgumentParserで行う
+      if (Array.isArray(raw.digests) && raw.digests.every(digest => typeof digest === 'string')) {
+        content.digests = raw.digests;
+      } else {
+        errors.push('digests must be an array of strings (e.g., ["daily@09:00"])');
+      }
+    }
+
+    if (raw.quietHours !== undefined) {
+      content.quietHours = this.parseQuietHours(raw.quietHours, errors);
+    }
+
+    if (raw.weekly !== undefined) {
+      content.weekly = this.parseWeekly(raw.weekly, errors);
+    }
+
+    if (raw.alertTiers !== undefined) {
+      content.alertTiers = this.parseAlertTiers(raw.alertTiers, errors);
+    }
+
+    if (raw.modelThresholds !== undefined) {
+      content.modelThresholds = this.parseModelThresholds(raw.modelThresholds, errors);
+    }
+
+    if (raw.tokenQuotas !== undefined) {
+      content.tokenQuotas = this.parseTokenQuotas(raw.tokenQuotas, errors);
+    }
+
+    return content;
+  }
+
+  private parseAlertTiers(value: unknown, errors: string[]): AlertTier[] {
+    if (!Array.isArray(value)) {
+      errors.push("alertTiers must be an array");
+      return [];
+    }
+
+    const tiers: AlertTier[] = [];
+    value.forEach((item, index) => {
+      if (typeof item !== 'object' || item === null) {
+        errors.push(`alertTiers[${index}] must be an object`);
+        return;
+      }
+      const { percent, severity, message } = item as Record<string, unknown>;
+      if (typeof percent !== 'number') {
+        errors.push(`alertTiers[${index}].percent must be a number`);
+        return;
+      }
+      if (severity !== undefined && typeof severity !== 'string') {
+        errors.push(`alertTiers[${index}].severity must be a string`);
+        return;
+      }
+      if (message !== undefined && typeof message !== 'string') {
+        errors.push(`alertTiers[${index}].message must be a string`);
+        return;
+      }
+      tiers.push({
+        percent,
+        // severityの値自体の検証はArgumentParserで行う
+        severity: severity === undefined
+          ? AlertTierEvaluator.defaultSeverity(percent)
+          : severity as AlertTier["severity"],
+        message
+      });
+    });
+    return tiers;
+  }
+
+  private parseModelThresholds(value: unknown, errors: string[]): ModelThreshold[] {
+    if (!Array.isArray(value)) {
+      errors.push("modelThresholds must be an array");
+      return [];
+    }
+
+    const thresholds: ModelThreshold[] = [];
+    value.forEach((item, index) => {
+      const { model, threshold } = (item ?? {}) as Record<string, unknown>;
+      if (typeof model !== 'string') {
+        errors.push(`modelThresholds[${index}].model must be a string`);
+        return;
+      }
+      if (typeof threshold !== 'number') {
+        errors.push(`modelThresholds[${index}].threshold must be a number`);
+        return;
+      }
+      thresholds.push({ model, threshold });
+    });
+    return thresholds;
+  }
+
+  private parseTokenQuotas(value: unknown, errors: string[]): TokenQuota[] {
+    if (!Array.isArray(value)) {
+      errors.push("tokenQuotas must be an array");
+      return [];
+    }
+
+    const quotas: TokenQuota[] = [];
+    value.forEach((item, index) => {
+      const { type, limit } = (item ?? {}) as Record<string, unknown>;
+      if (typeof type !== 'string') {
+        errors.push(`tokenQuotas[${index}].type must be a string`);
+        return;
+      }
+      // "2M tokens" のような単位付き文字列も受け付ける
+      const parsedLimit = typeof limit === 'number' || typeof limit === 'string'
+        ? TokenAmount.parse(limit)
+        : undefined;
+      if (parsedLimit === undefined) {
+        errors.push(`tokenQuotas[${index}].limit must be a token amount (e.g., "2M tokens")`);
+        return;
+      }
+      // 種類の値の検証はArgumentParserで行う
+      quotas.push({ type: type as TokenQuotaType, limit: parsedLimit });
+    });
+    return quotas;
+  }
+
+  private parseBlockLimits(value: unknown, errors: string[]): BlockLimits {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("blocks must be an object");
+      return {};
+    }
+
+    const { costLimit, tokenLimit } = value as Record<string, unknown>;
+    const limits: { costLimit?: number; tokenLimit?: number } = {};
+
+    if (costLimit !== undefined) {
+      if (typeof costLimit === 'number') limits.costLimit = costLimit;
+      else errors.push("blocks.costLimit must be a number");
+    }
+
+    if (tokenLimit !== undefined) {
+      const parsed = typeof tokenLimit === 'number' || typeof tokenLimit === 'string'
+        ? TokenAmount.parse(tokenLimit)
+        : undefined;
+      if (parsed !== undefined) limits.tokenLimit = parsed;
+      else errors.push('blocks.tokenLimit must be a token amount (e.g., "10M tokens")');
+    }
+
+    return limits;
+  }
+
+  private parseBurnRate(value: unknown, errors: string[]): ConfigFileContent['burnRate'] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("burnRate must be an object");
+      return undefined;
+    }
+
+    const { costPerHour, cooldownMinutes } = value as Record<string, unknown>;
+    if (typeof costPerHour !== 'number') {
+      errors.push("burnRate.costPerHour must be a number");
+    }
+    if (cooldownMinutes !== undefined && typeof cooldownMinutes !== 'number') {
+      errors.push("burnRate.cooldownMinutes must be a number");
+    }
+
+    return {
+      costPerHour: typeof costPerHour === 'number' ? costPerHour : undefined,
+      cooldownMinutes: typeof cooldownMinutes === 'number' ? cooldownMinutes : undefined
+    };
+  }
+
+  private parseAnomaly(value: unknown, errors: string[]): ConfigFileContent['anomaly'] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("anomaly must be an object");
+      return undefined;
+    }
+
+    const { lookbackDays, threshold } = value as Record<string, unknown>;
+    const anomaly: { lookbackDays?: number; threshold?: number } = {};
+
+    if (lookbackDays !== undefined) {
+      if (typeof lookbackDays === 'number') anomaly.lookbackDays = lookbackDays;
+      else errors.push("anomaly.lookbackDays must be a number");
+    }
+
+    if (threshold !== undefined) {
+      if (typeof threshold === 'number') anomaly.threshold = threshold;
+      else errors.push("anomaly.threshold must be a number");
+    }
+
+    return anomaly;
+  }
+
+  // startDayは曜日名または数値。値の検証はArgumentParserで行う
+  private parseWeekly(value: unknown, errors: string[]): ConfigFileContent['weekly'] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("weekly must be an object");
+      return undefined;
+    }
+
+    const { startDay, costLimit, tokenLimit, timezone } = value as Record<string, unknown>;
+    const weekly: { startDay?: string | number; costLimit?: number; tokenLimit?: number; timezone?: string } = {};
+
+    if (startDay !== undefined) {
+      if (typeof startDay === 'string' || typeof startDay === 'number') weekly.startDay = startDay;
+      else errors.push("weekly.startDay must be a weekday name or a number");
+    }
+
+    if (costLimit !== undefined) {
+      if (typeof costLimit === 'number') weekly.costLimit = costLimit;
+      else errors.push("weekly.costLimit must be a number");
+    }
+
+    if (tokenLimit !== undefined) {
+      const parsed = typeof tokenLimit === 'number' || typeof tokenLimit === 'string'
+        ? TokenAmount.parse(tokenLimit)
+        : undefined;
+      if (parsed !== undefined) weekly.tokenLimit = parsed;
+      else errors.push('weekly.tokenLimit must be a token amount (e.g., "50M tokens")');
+    }
+
+    if (timezone !== undefined) {
+      if (typeof timezone === 'string') weekly.timezone = timezone;
+      else errors.push("weekly.timezone must be a string");
+    }
+
+    return weekly;
+  }
+
+  // 時間帯は "[<曜日>=]HH:mm-HH:mm" 形式の文字列。値の検証はArgumentParserで行う
+  private parseQuietHours(value: unknown, errors: string[]): ConfigFileContent['quietHours'] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("quietHours must be an object");
+      return undefined;
+    }
+
+    const { windows, timezone, allowCritical } = value as Record<string, unknown>;
+    const quietHours: { windows?: string[]; timezone?: string; allowCritical?: boolean } = {};
+
+    if (Array.isArray(windows) && windows.every(window => typeof window === 'string')) {
+      quietHours.windows = windows;
+    } else {
+      errors.push('quietHours.windows must be an array of strings (e.g., ["22:00-07:00"])');
+    }
+
+    if (timezone !== undefined) {
+      if (typeof timezone === 'string') quietHours.timezone = timezone;
+      else errors.push("quietHours.timezone must be a string");
+    }
+
+    if (allowCritical !== undefined) {
+      if (typeof allowCritical === 'boolean') quietHours.allowCritical = allowCritical;
+      else errors.push("quietHours.allowCritical must be a boolean");
+    }
+
+    return quietHours;
+  }
+
+  private parseWebhook(value: unknown, errors: string[]): ConfigFileContent['webhook'] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("webhook must be an object");
+      return undefined;
+    }
+
+    const { url, method, headers, body } = value as Record<string, unknown>;
+    const webhook: { url?: string; method?: string; headers?: Record<string, string>; body?: unknown } = {};
+
+    if (url !== undefined) {
+      if (typeof url === 'string') webhook.url = url;
+      else errors.push("webhook.url must be a string");
+    }
+
+    if (method !== undefined) {
+      // メソッドの値の検証はArgumentParserで行う
+      if (typeof method === 'string') webhook.method = method;
+      else errors.push("webhook.method must be a string");
+    }
+
+    if (headers !== undefined) {
+      if (typeof headers === 'object' && headers !== null && !Array.isArray(headers)
+        && Object.values(headers).every(header => typeof header === 'string')) {
+        webhook.headers = headers as Record<string, string>;
+      } else {
+        errors.push("webhook.headers must be an object of strings");
+      }
+    }
+
+    if (body !== undefined) {
+      if (typeof body === 'object' && body !== null) {
+        // 通知ごとに置き換えられないプレースホルダーは読み込み時にエラーにする
+        const unknown = new WebhookTemplateRenderer().unknownPlaceholders(body);
+        if (unknown.length > 0) {
+          errors.push(`webhook.body has unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')} (available: ${WEBHOOK_PLACEHOLDERS.join(', ')})`);
+        } else {
+          webhook.body = body;
+        }
+      } else {
+        errors.push("webhook.body must be a JSON object or array");
+      }
+    }
+
+    return webhook;
+  }
+
+  private parseEmail(value: unknown, errors: string[]): ConfigFileContent['email'] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("email must be an object");
+      return undefined;
+    }
+
+    const raw = value as Record<string, unknown>;
+    const email: { -readonly [K in keyof NonNullable<ConfigFileContent['email']>]: NonNullable<ConfigFileContent['email']>[K] } = {};
+
+    for (const key of ['host', 'username', 'password', 'from'] as const) {
+      if (raw[key] !== undefined) {
+        if (typeof raw[key] === 'string') email[key] = raw[key];
+        else errors.push(`email.${key} must be a string`);
+      }
+    }
+
+    if (raw.port !== undefined) {
+      if (typeof raw.port === 'number') email.port = raw.port;
+      else errors.push("email.port must be a number");
+    }
+
+    for (const key of ['secure', 'starttls'] as const) {
+      if (raw[key] !== undefined) {
+        if (typeof raw[key] === 'boolean') email[key] = raw[key];
+        else errors.push(`email.${key} must be a boolean`);
+      }
+    }
+
+    // 宛先は1件なら文字列でも指定できる
+    for (const key of ['to', 'cc'] as const) {
+      const addresses = typeof raw[key] === 'string' ? [raw[key]] : raw[key];
+      if (addresses === undefined) continue;
+      if (Array.isArray(addresses) && addresses.every(address => typeof address === 'string')) {
+        email[key] = addresses;
+      } else {
+        errors.push(`email.${key} must be a string or an array of strings`);
+      }
+    }
+
+    return email;
+  }
+
+  private parseScript(value: unknown, errors: string[]): ConfigFileContent['script'] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("script must be an object");
+      return undefined;
+    }
+
+    const raw = value as Record<string, unknown>;
+    const script: { command?: string; timeout?: number } = {};
+
+    if (raw.command !== undefined) {
+      if (typeof raw.command === 'string') script.command = raw.command;
+      else errors.push("script.command must be a string");
+    }
+
+    if (raw.timeout !== undefined) {
+      if (typeof raw.timeout === 'number') script.timeout = raw.timeout;
+      else errors.push("script.timeout must be a number");
+    }
+
+    return script;
+  }
+
+  private parsePush(value: unknown, errors: string[]): ConfigFileContent['push'] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push("push must be an object");
+      return undefined;
+    }
+
+    const raw = value as Record<string, unknown>;
+    const push: { -readonly [K in keyof NonNullable<ConfigFileContent['push']>]: NonNullable<ConfigFileContent['push']>[K] } = {};
+
+    for (const key of ['url', 'token', 'click'] as const) {
+      if (raw[key] !== undefined) {
+        if (typeof raw[key] === 'string') push[key] = raw[key];
+        else errors.push(`push.${key} must be a string`);
+      }
+    }
+
+    if (raw.tags !== undefined) {
+      if (Array.isArray(raw.tags) && raw.tags.every(tag => typeof tag === 'string')) push.tags = raw.tags;
+      else errors.push("push.tags must be an array of strings");
+    }
+
+    return push;
+  }
+}
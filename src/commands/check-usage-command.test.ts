@@ -5,6 +5,7 @@ import { MockLogger } from "../infrastructure/logger.ts";
 import { MemoryStateRepository } from "../infrastructure/state-repository.ts";
 import { MockUsageRepository } from "../infrastructure/usage-repository.ts";
 import { MockNotificationService } from "../infrastructure/notification-service.ts";
+import { MockThreadedNotificationService } from "../infrastructure/slack-web-api.ts";
 import { ResultUtils } from "../utils/result.ts";
 
 describe("CheckUsageCommand", () => {
@@ -42,7 +43,7 @@ describe("CheckUsageCommand", () => {
       threshold: 40,
       daemon: false,
       interval: 3600,
-      slackWebhookUrl: "https://hooks.slack.com/test"
+      webhookUrl: "https://hooks.slack.com/test"
     };
     const state = {};
 
@@ -59,6 +60,39 @@ describe("CheckUsageCommand", () => {
     expect(mockDependencies.logger.hasLog("warn", "閾値超過")).toBe(true);
   });
 
+  test("閾値超過通知は構造化メッセージで送信する", async () => {
+    mockDependencies.usageRepository.setMockData({
+      monthly: [{
+        month: "2025-07",
+        totalCost: 45.50,
+        modelsUsed: ["claude-opus-4-20250514", "claude-sonnet-4-20250514"],
+        modelBreakdowns: [
+          { model: "claude-sonnet-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 9.10 },
+          { model: "claude-opus-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 36.40 }
+        ]
+      }],
+      totals: { totalCost: 45.50 }
+    });
+    const config = { threshold: 40, daemon: false, interval: 3600, webhookUrl: "https://hooks.slack.com/test" };
+
+    await command.execute({ config, state: {} });
+
+    const { content, message } = mockDependencies.notificationService.getLastMessage();
+    expect(content.severity).toBe("critical");
+    expect(content.fields).toEqual(expect.arrayContaining([
+      { label: "現在のコスト", value: "$45.50" },
+      { label: "設定閾値", value: "$40.00" },
+      { label: "超過額", value: "$5.50" }
+    ]));
+    expect(content.progress).toEqual({ label: "閾値に対する割合", current: 45.5, limit: 40 });
+    expect(content.sections).toEqual([{
+      title: "🤖 モデル別内訳",
+      lines: ["• claude-opus-4-20250514: $36.40 (80%)", "• claude-sonnet-4-20250514: $9.10 (20%)"]
+    }]);
+    expect(message).toContain("📊 *2025-07の使用状況*");
+    expect(message).not.toContain("**");
+  });
+
   test("閾値内の場合", async () => {
     const config = {
       threshold: 50,
@@ -114,7 +148,7 @@ describe("CheckUsageCommand", () => {
       threshold: 40,
       daemon: false,
       interval: 3600,
-      slackWebhookUrl: "https://hooks.slack.com/test"
+      webhookUrl: "https://hooks.slack.com/test"
     };
     const state = {
       lastNotificationDate: "2025-07-15" // 今日既に通知済み
@@ -137,7 +171,7 @@ describe("CheckUsageCommand", () => {
       threshold: 40,
       daemon: false,
       interval: 3600
-      // slackWebhookUrl未設定
+      // webhookUrl未設定
     };
     const state = {};
 
@@ -152,4 +186,1546 @@ describe("CheckUsageCommand", () => {
     expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
     expect(mockDependencies.logger.hasLog("warn", "CCWATCH_SLACK_WEBHOOK_URL環境変数が設定されていない")).toBe(true);
   });
-});
\ No newline at end of file
+
+  describe("アラートティア", () => {
+    const tieredConfig = {
+      threshold: 50,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      alertTiers: [
+        { percent: 50, severity: "info" as const },
+        { percent: 80, severity: "warning" as const, message: "予算の80%に到達しました" },
+        { percent: 100, severity: "critical" as const },
+        { percent: 120, severity: "critical" as const }
+      ]
+    };
+
+    test("閾値未満でもティア到達時に通知", async () => {
+      const result = await command.execute({ config: tieredConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(false);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.tierStatus?.current?.percent).toBe(80);
+        expect(result.data.newState.alertTierState).toEqual({
+          period: "2025-07",
+          announcedPercents: [50, 80]
+        });
+        expect(result.data.newState.lastExceedanceDate).toBeUndefined();
+        expect(result.data.newState.lastNotificationDate).toBeUndefined();
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("予算の80%に到達しました");
+      expect(message).toContain("到達ティア: 80%");
+      expect(message).toContain("次のティア: 100% ($50.00) まで残り $4.50");
+      expect(mockDependencies.logger.hasLog("warn", "アラートティア80%に到達しました")).toBe(true);
+    });
+
+    test("同一期間で通知済みのティアは再通知しない", async () => {
+      const state = {
+        alertTierState: { period: "2025-07", announcedPercents: [50, 80] }
+      };
+
+      const result = await command.execute({ config: tieredConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+    });
+
+    test("同日に通知済みでも上位ティア到達時は通知", async () => {
+      mockDependencies.usageRepository.setMockData({
+        monthly: [{
+          month: "2025-07",
+          totalCost: 61,
+          modelsUsed: ["claude-sonnet-4-20250514"],
+          modelBreakdowns: []
+        }],
+        totals: { totalCost: 61 }
+      });
+      const state = {
+        lastNotificationDate: "2025-07-15",
+        alertTierState: { period: "2025-07", announcedPercents: [50, 80, 100] }
+      };
+
+      const result = await command.execute({ config: tieredConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(true);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.alertTierState?.announcedPercents).toEqual([50, 80, 100, 120]);
+        expect(result.data.newState.lastExceedanceDate).toBe("2025-07-15");
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("到達ティア: 120%");
+      expect(message).toContain("超過額: $11.00");
+      expect(message).toContain("最終ティアに到達済み");
+    });
+
+    test("同日にティア通知の後で閾値を超過した場合は超過を通知", async () => {
+      const config = { ...tieredConfig, alertTiers: [{ percent: 80, severity: "warning" as const }] };
+      const first = await command.execute({ config, state: {} });
+      expect(ResultUtils.isSuccess(first)).toBe(true);
+      if (!ResultUtils.isSuccess(first)) return;
+
+      mockDependencies.usageRepository.setMockData({
+        monthly: [{
+          month: "2025-07",
+          totalCost: 52,
+          modelsUsed: ["claude-sonnet-4-20250514"],
+          modelBreakdowns: []
+        }],
+        totals: { totalCost: 52 }
+      });
+      const result = await command.execute({ config, state: first.data.newState });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(true);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.lastNotificationDate).toBe("2025-07-15");
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(2);
+      expect(mockDependencies.notificationService.getLastMessage()?.message).toContain("超過額: $2.00");
+    });
+
+    test("前月の通知記録は引き継がない", async () => {
+      const state = {
+        alertTierState: { period: "2025-06", announcedPercents: [50, 80, 100, 120] }
+      };
+
+      const result = await command.execute({ config: tieredConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.alertTierState?.period).toBe("2025-07");
+      }
+    });
+  });
+
+  describe("月末予測", () => {
+    const forecastConfig = {
+      threshold: 60,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      forecast: true
+    };
+
+    beforeEach(() => {
+      // 7/1〜7/14は毎日$3、今日(7/15)は$3.5 → 当月累計$45.50
+      const daily = Array.from({ length: 15 }, (_, i) => ({
+        date: `2025-07-${String(i + 1).padStart(2, '0')}`,
+        totalCost: i === 14 ? 3.5 : 3,
+        modelsUsed: ["claude-sonnet-4-20250514"],
+        modelBreakdowns: []
+      }));
+      mockDependencies.usageRepository.setMockDailyData({ daily, totals: { totalCost: 45.50 } });
+    });
+
+    test("予測が閾値を超える場合に予測アラートを送信", async () => {
+      const result = await command.execute({ config: forecastConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(false);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.forecast?.projectedTotal).toBeCloseTo(93.5);
+        expect(result.data.newState.lastForecastAlertPeriod).toBe("2025-07");
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("月末に閾値を超過する見込みです");
+      expect(message).toContain("月末予測: $93.50");
+      expect(message).toContain("予測超過額: $33.50");
+      expect(mockDependencies.logger.hasLog("info", "月末予測: $93.50")).toBe(true);
+
+      const content = mockDependencies.notificationService.getLastMessage()?.content;
+      expect(content?.severity).toBe("warning");
+      expect(content?.usage).toMatchObject({ cost: 45.5, threshold: 60, month: "2025-07" });
+    });
+
+    test("同月内で予測アラートは1回のみ", async () => {
+      const state = { lastForecastAlertPeriod: "2025-07" };
+
+      const result = await command.execute({ config: forecastConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+    });
+
+    test("予測が閾値内なら予測アラートなし", async () => {
+      const result = await command.execute({ config: { ...forecastConfig, threshold: 100 }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.forecast).toBeDefined();
+        expect(result.data.notificationSent).toBe(false);
+      }
+    });
+
+    test("実績が閾値超過済みなら超過通知に予測を含める", async () => {
+      const result = await command.execute({ config: { ...forecastConfig, threshold: 40 }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.newState.lastForecastAlertPeriod).toBeUndefined();
+      }
+
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(1);
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("閾値を超過しました");
+      expect(message).toContain("月末予測: $93.50");
+    });
+
+    test("予測無効時は日次データを取得しない", async () => {
+      const result = await command.execute({ config: { ...forecastConfig, forecast: false }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.forecast).toBeUndefined();
+      }
+    });
+
+    test("日次データ取得失敗時もチェックは継続", async () => {
+      mockDependencies.usageRepository.fetchDailyUsageData = async () => {
+        throw new Error("ccusage daily failed");
+      };
+
+      const result = await command.execute({ config: forecastConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.forecast).toBeUndefined();
+      }
+      expect(mockDependencies.logger.hasLog("warn", "日次データを使用する評価をスキップします")).toBe(true);
+    });
+  });
+
+  describe("日割り予算", () => {
+    const pacingConfig = {
+      threshold: 62,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      pacing: "calendar" as const
+    };
+
+    beforeEach(() => {
+      // 前日までの累計$40、今日(2025-07-15 火曜)は$5.50
+      mockDependencies.usageRepository.setMockDailyData({
+        daily: [
+          { date: "2025-07-14", totalCost: 40, modelsUsed: [], modelBreakdowns: [] },
+          { date: "2025-07-15", totalCost: 5.5, modelsUsed: [], modelBreakdowns: [] }
+        ],
+        totals: { totalCost: 45.5 }
+      });
+    });
+
+    test("本日の使用額が日割り予算を超えた場合に通知", async () => {
+      // 残り予算$22 ÷ 残り17日 ≒ $1.29
+      const result = await command.execute({ config: pacingConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(false);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.pacing?.remainingDays).toBe(17);
+        expect(result.data.pacing?.dailyBudget).toBeCloseTo(22 / 17);
+        expect(result.data.newState.lastPacingAlertDate).toBe("2025-07-15");
+        expect(result.data.newState.lastNotificationDate).toBeUndefined();
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("日割り予算を超過しました");
+      expect(message).toContain("本日のコスト: $5.50");
+      expect(message).toContain("残り17日");
+    });
+
+    test("同日の日割り予算アラートは1回のみ", async () => {
+      const state = { lastPacingAlertDate: "2025-07-15" };
+
+      const result = await command.execute({ config: pacingConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.pacing?.overBudget).toBe(true);
+        expect(result.data.notificationSent).toBe(false);
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+    });
+
+    test("日割り予算内なら通知しない", async () => {
+      const result = await command.execute({ config: { ...pacingConfig, threshold: 200 }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.pacing?.overBudget).toBe(false);
+        expect(result.data.notificationSent).toBe(false);
+      }
+    });
+
+    test("営業日モードでは平日のみで割り当てる", async () => {
+      const result = await command.execute({ config: { ...pacingConfig, pacing: "workdays" as const }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        // 7/15〜7/31の平日は13日
+        expect(result.data.pacing?.remainingDays).toBe(13);
+        expect(result.data.pacing?.mode).toBe("workdays");
+      }
+      expect(mockDependencies.notificationService.getLastMessage()?.message).toContain("残り13営業日");
+    });
+  });
+
+  describe("モデル別閾値", () => {
+    const modelConfig = {
+      threshold: 50,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      modelThresholds: [
+        { model: "opus", threshold: 20 },
+        { model: "sonnet", threshold: 30 }
+      ]
+    };
+
+    beforeEach(() => {
+      mockDependencies.usageRepository.setMockData({
+        monthly: [{
+          month: "2025-07",
+          totalCost: 45.50,
+          modelsUsed: ["claude-opus-4-20250514", "claude-sonnet-4-20250514"],
+          modelBreakdowns: [
+            { model: "claude-opus-4-20250514", inputTokens: 1000, outputTokens: 500, cost: 25.5 },
+            { model: "claude-sonnet-4-20250514", inputTokens: 5000, outputTokens: 2000, cost: 20 }
+          ]
+        }],
+        totals: { totalCost: 45.50 }
+      });
+    });
+
+    test("合計が閾値内でもモデル別閾値超過で通知", async () => {
+      const result = await command.execute({ config: modelConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(false);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.modelStatuses?.map(status => status.exceeded)).toEqual([true, false]);
+        expect(result.data.newState.modelNotificationDates).toEqual({ opus: "2025-07-15" });
+        expect(result.data.newState.lastNotificationDate).toBeUndefined();
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("モデル別使用料金が閾値を超過しました");
+      expect(message).toMatch(/opus\s+\$25\.50\s+\$20\.00\s+超過/);
+      expect(message).toMatch(/sonnet\s+\$20\.00\s+\$30\.00\s+OK/);
+      expect(mockDependencies.logger.hasLog("warn", "モデル別閾値超過: opus")).toBe(true);
+    });
+
+    test("モデルごとに独立して重複通知を防止", async () => {
+      const state = {
+        lastNotificationDate: "2025-07-15",
+        modelNotificationDates: { opus: "2025-07-15" }
+      };
+      const config = {
+        ...modelConfig,
+        modelThresholds: [
+          { model: "opus", threshold: 20 },
+          { model: "sonnet", threshold: 10 }
+        ]
+      };
+
+      const result = await command.execute({ config, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.modelNotificationDates).toEqual({
+          opus: "2025-07-15",
+          sonnet: "2025-07-15"
+        });
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(1);
+    });
+
+    test("同日に通知済みのモデルのみ超過している場合は通知しない", async () => {
+      const state = { modelNotificationDates: { opus: "2025-07-15" } };
+
+      const result = await command.execute({ config: modelConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+      }
+    });
+
+    test("合計とモデル別の両方を超過した場合はそれぞれ通知", async () => {
+      const result = await command.execute({ config: { ...modelConfig, threshold: 40 }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(true);
+        expect(result.data.newState.lastNotificationDate).toBe("2025-07-15");
+        expect(result.data.newState.modelNotificationDates).toEqual({ opus: "2025-07-15" });
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(2);
+    });
+
+    test("モデル別の通知に失敗しても送信済みの閾値超過通知の状態は残す", async () => {
+      mockDependencies.notificationService.failOn("model", new Error("Slack API error: 500"));
+      const config = { ...modelConfig, threshold: 40 };
+
+      const first = await command.execute({ config, state: {} });
+
+      expect(ResultUtils.isSuccess(first)).toBe(true);
+      if (!ResultUtils.isSuccess(first)) return;
+      expect(first.data.notificationSent).toBe(true);
+      expect(first.data.newState.lastNotificationDate).toBe("2025-07-15");
+      expect(first.data.newState.modelNotificationDates).toBeUndefined();
+      expect(mockDependencies.logger.hasLog("error", "通知の送信に失敗しました")).toBe(true);
+
+      // 次回のチェックでは失敗したモデル別の通知のみ再送する
+      const second = await command.execute({ config, state: first.data.newState });
+
+      expect(ResultUtils.isSuccess(second) && second.data.notificationSent).toBe(false);
+      expect(mockDependencies.notificationService.sentMessages.map((sent: any) => sent.type)).toEqual(["threshold"]);
+    });
+  });
+
+  describe("トークン上限", () => {
+    const tokenConfig = {
+      threshold: 50,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      tokenQuotas: [
+        { type: "total" as const, limit: 2_000_000 },
+        { type: "output" as const, limit: 500_000 }
+      ]
+    };
+
+    beforeEach(() => {
+      mockDependencies.usageRepository.setMockData({
+        monthly: [{
+          month: "2025-07",
+          totalCost: 12.30,
+          modelsUsed: ["claude-sonnet-4-20250514"],
+          modelBreakdowns: [{
+            model: "claude-sonnet-4-20250514",
+            inputTokens: 800_000,
+            outputTokens: 300_000,
+            cacheCreationTokens: 400_000,
+            cacheReadTokens: 1_000_000,
+            cost: 12.30
+          }]
+        }],
+        totals: { totalCost: 12.30 }
+      });
+    });
+
+    test("コストが閾値内でもトークン上限超過で通知", async () => {
+      const result = await command.execute({ config: tokenConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(false);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.tokenStatuses?.map(status => status.used)).toEqual([2_500_000, 300_000]);
+        expect(result.data.tokenStatuses?.map(status => status.exceeded)).toEqual([true, false]);
+        expect(result.data.newState.tokenNotificationDates).toEqual({ total: "2025-07-15" });
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("トークン使用量が上限を超過しました");
+      expect(message).toContain("合計トークン: 2.50M / 2.00M tokens (超過)");
+      expect(message).toContain("出力トークン: 300.0K / 500.0K tokens");
+      expect(mockDependencies.logger.hasLog("warn", "トークン上限超過: 合計トークン")).toBe(true);
+    });
+
+    test("同日に通知済みの種類は再通知しない", async () => {
+      const state = { tokenNotificationDates: { total: "2025-07-15" } };
+
+      const result = await command.execute({ config: tokenConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+    });
+
+    test("翌日は再度通知する", async () => {
+      const state = { tokenNotificationDates: { total: "2025-07-14" } };
+
+      const result = await command.execute({ config: tokenConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.tokenNotificationDates).toEqual({ total: "2025-07-15" });
+      }
+    });
+  });
+
+  describe("集計期間", () => {
+    const cycleConfig = {
+      threshold: 50,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      period: { type: "cycle" as const, startDay: 25 }
+    };
+
+    beforeEach(() => {
+      // 6/20〜7/15は毎日$2（月次データの当月合計$45.50とは一致しない）
+      const daily = Array.from({ length: 26 }, (_, i) => ({
+        date: new Date(Date.UTC(2025, 5, 20 + i)).toISOString().split('T')[0]!,
+        totalCost: 2,
+        modelsUsed: ["claude-sonnet-4-20250514"],
+        modelBreakdowns: [{ model: "claude-sonnet-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 2 }]
+      }));
+      mockDependencies.usageRepository.setMockDailyData({ daily, totals: { totalCost: 52 } });
+    });
+
+    test("請求サイクルのコストを日次データから集計する", async () => {
+      // 6/25〜7/15の21日間 × $2 = $42
+      const result = await command.execute({ config: { ...cycleConfig, threshold: 40 }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(true);
+        expect(result.data.notificationSent).toBe(true);
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("2025-06-25〜2025-07-24の使用状況");
+      expect(message).toContain("現在のコスト: $42.00");
+      expect(mockDependencies.logger.hasLog("info", "2025-06-25〜2025-07-24の現在のコスト: $42.00")).toBe(true);
+    });
+
+    test("アラートティアの重複防止に期間キーを使用する", async () => {
+      const config = { ...cycleConfig, alertTiers: [{ percent: 80, severity: "warning" as const }] };
+
+      const result = await command.execute({ config, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.newState.alertTierState).toEqual({
+          period: "2025-06-25〜2025-07-24",
+          announcedPercents: [80]
+        });
+      }
+
+      // 前サイクルの通知済み記録は引き継がない
+      const previous = await command.execute({
+        config,
+        state: { alertTierState: { period: "2025-05-25〜2025-06-24", announcedPercents: [80] } }
+      });
+      expect(ResultUtils.isSuccess(previous) && previous.data.notificationSent).toBe(true);
+    });
+
+    test("請求サイクル末までの予測", async () => {
+      const result = await command.execute({ config: { ...cycleConfig, forecast: true }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        // 毎日$2 × 30日 = $60
+        expect(result.data.forecast?.projectedTotal).toBeCloseTo(60);
+        expect(result.data.forecast?.daysRemaining).toBe(9);
+        expect(result.data.newState.lastForecastAlertPeriod).toBe("2025-06-25〜2025-07-24");
+      }
+    });
+
+    test("ローリング期間のコスト", async () => {
+      const config = { ...cycleConfig, threshold: 12, period: { type: "rolling" as const, days: 7 }, forecast: true };
+
+      const result = await command.execute({ config, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        // 7/9〜7/15の7日間 × $2 = $14
+        expect(result.data.thresholdExceeded).toBe(true);
+        expect(result.data.forecast).toBeUndefined();
+      }
+      expect(mockDependencies.notificationService.getLastMessage()?.message).toContain("直近7日間の使用状況");
+      expect(mockDependencies.logger.hasLog("info", "ローリング期間では月末予測・日割り予算を評価しません")).toBe(true);
+    });
+
+    test("ローリング期間は日付が変わっても期間の切り替えを通知しない", async () => {
+      const config = { ...cycleConfig, threshold: 100, period: { type: "rolling" as const, days: 7 }, notifyPeriodReset: true };
+      const first = await command.execute({ config, state: {} });
+      expect(ResultUtils.isSuccess(first)).toBe(true);
+      if (!ResultUtils.isSuccess(first)) return;
+
+      mockDependencies.clock.setTime(new Date("2025-07-16T12:00:00Z"));
+      const result = await command.execute({ config, state: first.data.newState });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+        expect(result.data.newState.thresholdStatus?.period).toBe("直近7日間");
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+      expect(mockDependencies.logger.hasLog("info", "新しい期間")).toBe(false);
+    });
+
+    test("日次データの取得に失敗した場合はチェック失敗", async () => {
+      mockDependencies.usageRepository.fetchDailyUsageData = async () => {
+        throw new Error("ccusage daily failed");
+      };
+
+      const result = await command.execute({ config: cycleConfig, state: {} });
+
+      expect(ResultUtils.isFailure(result)).toBe(true);
+    });
+  });
+
+  describe("タイムゾーン", () => {
+    const config = {
+      threshold: 40,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test"
+    };
+
+    test("通知の重複判定はタイムゾーンの日付で行う", async () => {
+      // 2025-07-15 20:00 UTC = 2025-07-16 05:00 JST
+      mockDependencies.clock = new MockClock(new Date("2025-07-15T20:00:00Z"), "Asia/Tokyo");
+      command = new CheckUsageCommand(mockDependencies);
+      const state = { lastNotificationDate: "2025-07-15", lastExceedanceDate: "2025-07-15" };
+
+      const result = await command.execute({ config, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.lastNotificationDate).toBe("2025-07-16");
+      }
+    });
+
+    test("月の判定はタイムゾーンの月で行う", async () => {
+      // 2025-06-30 16:00 UTC = 2025-07-01 01:00 JST
+      mockDependencies.clock = new MockClock(new Date("2025-06-30T16:00:00Z"), "Asia/Tokyo");
+      command = new CheckUsageCommand(mockDependencies);
+
+      const result = await command.execute({ config, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(true);
+      }
+      expect(mockDependencies.logger.hasLog("info", "2025-07の現在のコスト: $45.50")).toBe(true);
+    });
+  });
+
+  describe("5時間ブロック", () => {
+    const blockConfig = {
+      threshold: 100,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      timezone: "Asia/Tokyo",
+      blocks: { costLimit: 20 }
+    };
+    const activeBlock = {
+      id: "2025-07-15T10:00:00.000Z",
+      startTime: "2025-07-15T10:00:00.000Z",
+      endTime: "2025-07-15T15:00:00.000Z",
+      isActive: true,
+      isGap: false,
+      entries: 42,
+      tokenCounts: { inputTokens: 1_000_000, outputTokens: 200_000, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+      totalTokens: 1_200_000,
+      costUSD: 12,
+      models: ["claude-opus-4-20250514"]
+    };
+
+    beforeEach(() => {
+      mockDependencies.usageRepository.setMockBlocksData({
+        blocks: [{ ...activeBlock, id: "previous", isActive: false }, activeBlock]
+      });
+    });
+
+    test("アクティブブロックの状況を報告", async () => {
+      const result = await command.execute({ config: { ...blockConfig, blocks: {} }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.blockStatus?.blockId).toBe(activeBlock.id);
+        expect(result.data.blockStatus?.cost).toBe(12);
+        expect(result.data.notificationSent).toBe(false);
+      }
+      expect(mockDependencies.logger.hasLog("info", "アクティブブロック 19:00〜00:00: $12.00 / 1.20M tokens (経過: 2時間0分)")).toBe(true);
+    });
+
+    test("ブロック終了までに上限を超える見込みで通知", async () => {
+      const result = await command.execute({ config: blockConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.blockAlertState).toEqual({
+          blockId: activeBlock.id,
+          alerts: ["projected-cost"]
+        });
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("ブロック終了までに上限を超過する見込みです");
+      expect(message).toContain("アクティブブロック (19:00〜00:00)");
+      expect(message).toContain("経過時間: 2時間0分 (残り: 3時間0分)");
+      expect(message).toContain("コスト: $12.00 (上限: $20.00)");
+      expect(message).toContain("ブロック終了時の予測: $30.00 / 3.00M tokens");
+    });
+
+    test("予測通知済みでも実績で超過した場合は再通知", async () => {
+      const state = { blockAlertState: { blockId: activeBlock.id, alerts: ["projected-cost" as const] } };
+
+      const result = await command.execute({ config: { ...blockConfig, blocks: { costLimit: 10 } }, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.blockAlertState?.alerts).toEqual(["projected-cost", "cost"]);
+      }
+      expect(mockDependencies.notificationService.getLastMessage()?.message).toContain("5時間ブロックが上限を超過しました");
+    });
+
+    test("同じブロック内では再通知しない", async () => {
+      const state = { blockAlertState: { blockId: activeBlock.id, alerts: ["projected-cost" as const] } };
+
+      const result = await command.execute({ config: blockConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+      }
+    });
+
+    test("アクティブブロックが無い場合", async () => {
+      mockDependencies.usageRepository.setMockBlocksData({ blocks: [] });
+
+      const result = await command.execute({ config: blockConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.blockStatus).toBeUndefined();
+      }
+      expect(mockDependencies.logger.hasLog("info", "アクティブな5時間ブロックはありません")).toBe(true);
+    });
+
+    test("ブロックデータ取得失敗時もチェックは継続", async () => {
+      mockDependencies.usageRepository.fetchBlocksData = async () => {
+        throw new Error("ccusage blocks failed");
+      };
+
+      const result = await command.execute({ config: blockConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      expect(mockDependencies.logger.hasLog("warn", "5時間ブロックの評価をスキップします")).toBe(true);
+    });
+  });
+
+  describe("消費ペース", () => {
+    const burnConfig = {
+      threshold: 100,
+      daemon: true,
+      interval: 600,
+      webhookUrl: "https://hooks.slack.com/test",
+      burnRate: { costPerHour: 10, cooldownMinutes: 60 }
+    };
+    // 1時間前は$25.50 → $20/時間
+    const previousSample = { timestamp: "2025-07-15T11:00:00.000Z", period: "2025-07", cost: 25.5 };
+
+    test("消費ペースが上限を超えた場合に通知", async () => {
+      const result = await command.execute({ config: burnConfig, state: { lastCostSample: previousSample } });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.burnRate?.costPerHour).toBeCloseTo(20);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.lastBurnRateAlertAt).toBe("2025-07-15T12:00:00.000Z");
+        expect(result.data.newState.lastCostSample).toEqual({
+          timestamp: "2025-07-15T12:00:00.000Z",
+          period: "2025-07",
+          cost: 45.5
+        });
+      }
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("使用ペースが急上昇しています");
+      expect(message).toContain("消費ペース: $20.00/時間 (上限: $10.00/時間)");
+      expect(message).toContain("増加額: $20.00");
+      expect(mockDependencies.logger.hasLog("warn", "消費ペースが上限を超過しました")).toBe(true);
+    });
+
+    test("クールダウン中は通知しない", async () => {
+      const state = { lastCostSample: previousSample, lastBurnRateAlertAt: "2025-07-15T11:30:00.000Z" };
+
+      const result = await command.execute({ config: burnConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+        expect(result.data.newState.lastBurnRateAlertAt).toBe("2025-07-15T11:30:00.000Z");
+        // サンプルはクールダウン中も更新する
+        expect(result.data.newState.lastCostSample?.cost).toBe(45.5);
+      }
+    });
+
+    test("月次閾値の通知済みとは独立して通知", async () => {
+      const state = {
+        lastCostSample: previousSample,
+        lastNotificationDate: "2025-07-15",
+        lastExceedanceDate: "2025-07-15"
+      };
+
+      const result = await command.execute({ config: { ...burnConfig, threshold: 40 }, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(true);
+        expect(result.data.notificationSent).toBe(true);
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(1);
+      expect(mockDependencies.notificationService.getLastMessage()?.message).toContain("使用ペースが急上昇しています");
+    });
+
+    test("初回チェックはサンプルの記録のみ", async () => {
+      const result = await command.execute({ config: burnConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.burnRate).toBeUndefined();
+        expect(result.data.notificationSent).toBe(false);
+        expect(result.data.newState.lastCostSample?.cost).toBe(45.5);
+      }
+    });
+
+    test("未設定時はサンプルを記録しない", async () => {
+      const { burnRate, ...config } = burnConfig;
+
+      const result = await command.execute({ config, state: {} });
+
+      expect(ResultUtils.isSuccess(result) && result.data.newState.lastCostSample).toBeUndefined();
+    });
+  });
+
+  describe("異常検知", () => {
+    const anomalyConfig = {
+      threshold: 100,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      anomaly: { lookbackDays: 14, threshold: 3.5 }
+    };
+
+    beforeEach(() => {
+      // 7/1〜7/14は$2〜$4、今日(7/15)は$15
+      const daily = Array.from({ length: 15 }, (_, i) => ({
+        date: `2025-07-${String(i + 1).padStart(2, '0')}`,
+        totalCost: i === 14 ? 15 : [2, 3, 4][i % 3]!,
+        modelsUsed: ["claude-sonnet-4-20250514"],
+        modelBreakdowns: []
+      }));
+      mockDependencies.usageRepository.setMockDailyData({ daily, totals: { totalCost: 58 } });
+    });
+
+    test("異常なコストを別種類の通知として送信", async () => {
+      const result = await command.execute({ config: anomalyConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.anomaly?.isAnomaly).toBe(true);
+        expect(result.data.anomaly?.median).toBe(3);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.lastAnomalyAlertDate).toBe("2025-07-15");
+      }
+
+      const sent = mockDependencies.notificationService.getLastMessage();
+      expect(sent?.type).toBe("anomaly");
+      expect(sent?.message).toContain("通常と比べて異常に高くなっています");
+      expect(sent?.message).toContain("本日のコスト: $15.00");
+      expect(sent?.message).toContain("過去14日間の中央値: $3.00 (MAD: $1.00)");
+      expect(mockDependencies.logger.hasLog("warn", "本日のコストが通常と比べて異常に高くなっています")).toBe(true);
+    });
+
+    test("同日に通知済みの場合は再通知しない", async () => {
+      const result = await command.execute({ config: anomalyConfig, state: { lastAnomalyAlertDate: "2025-07-15" } });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.anomaly?.isAnomaly).toBe(true);
+        expect(result.data.notificationSent).toBe(false);
+      }
+    });
+
+    test("通常範囲の場合は結果のみ返す", async () => {
+      const result = await command.execute({
+        config: { ...anomalyConfig, anomaly: { lookbackDays: 14, threshold: 10 } },
+        state: {}
+      });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.anomaly?.isAnomaly).toBe(false);
+        expect(result.data.notificationSent).toBe(false);
+      }
+    });
+
+    test("閾値超過通知の種類はthreshold", async () => {
+      await command.execute({ config: { ...anomalyConfig, threshold: 40, anomaly: undefined }, state: {} });
+
+      expect(mockDependencies.notificationService.getLastMessage()?.type).toBe("threshold");
+    });
+  });
+
+  describe("週間上限", () => {
+    const weeklyConfig = {
+      threshold: 100,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      timezone: "UTC",
+      weekly: { startDay: 1, costLimit: 15, tokenLimit: 50_000_000 }
+    };
+
+    beforeEach(() => {
+      // 7/10〜7/15は毎日$4、今週(7/14〜)は$8
+      const daily = Array.from({ length: 6 }, (_, i) => ({
+        date: `2025-07-${String(10 + i).padStart(2, '0')}`,
+        totalCost: 4,
+        modelsUsed: ["claude-sonnet-4-20250514"],
+        modelBreakdowns: [{ model: "claude-sonnet-4-20250514", inputTokens: 1_000_000, outputTokens: 500_000, cost: 4 }]
+      }));
+      mockDependencies.usageRepository.setMockDailyData({ daily, totals: { totalCost: 24 } });
+    });
+
+    test("上限内の場合はリセットまでの時間をログに出す", async () => {
+      const result = await command.execute({ config: weeklyConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.weeklyStatus?.cost).toBeCloseTo(8);
+        expect(result.data.weeklyStatus?.tokens).toBe(3_000_000);
+        expect(result.data.notificationSent).toBe(false);
+      }
+      expect(mockDependencies.logger.hasLog("info", "今週 (2025-07-14〜2025-07-20) のコスト: $8.00")).toBe(true);
+      expect(mockDependencies.logger.hasLog("info", "リセットまで: 5日12時間")).toBe(true);
+    });
+
+    test("上限超過を週間通知として送信", async () => {
+      const result = await command.execute({
+        config: { ...weeklyConfig, weekly: { startDay: 1, costLimit: 5, tokenLimit: 2_000_000 } },
+        state: {}
+      });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.weeklyAlertState).toEqual({
+          week: "2025-07-14〜2025-07-20",
+          alerts: ["cost", "tokens"]
+        });
+      }
+
+      const sent = mockDependencies.notificationService.getLastMessage();
+      expect(sent?.type).toBe("weekly");
+      expect(sent?.message).toContain("今週 (2025-07-14〜2025-07-20) の使用状況");
+      expect(sent?.message).toContain("• コスト: $8.00 (上限: $5.00) 超過");
+      expect(sent?.message).toContain("• リセットまで: 5日12時間 (2025-07-21 00:00)");
+      expect(sent?.content?.severity).toBe("critical");
+      expect(sent?.content?.usage).toMatchObject({ cost: 45.5, threshold: 100, month: "2025-07" });
+    });
+
+    test("同じ週に通知済みの種別は再通知しない", async () => {
+      const result = await command.execute({
+        config: { ...weeklyConfig, weekly: { startDay: 1, costLimit: 5 } },
+        state: { weeklyAlertState: { week: "2025-07-14〜2025-07-20", alerts: ["cost"] } }
+      });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+      }
+    });
+
+    test("当月の使用データが無くても週間上限と5時間ブロックを評価する", async () => {
+      mockDependencies.usageRepository.setMockData({ monthly: [], totals: { totalCost: 0 } });
+      mockDependencies.usageRepository.setMockBlocksData({
+        blocks: [{
+          id: "2025-07-15T10:00:00.000Z",
+          startTime: "2025-07-15T10:00:00.000Z",
+          endTime: "2025-07-15T15:00:00.000Z",
+          isActive: true,
+          isGap: false,
+          entries: 42,
+          tokenCounts: { inputTokens: 1_000_000, outputTokens: 200_000, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+          totalTokens: 1_200_000,
+          costUSD: 12,
+          models: ["claude-opus-4-20250514"]
+        }]
+      });
+
+      const result = await command.execute({
+        config: { ...weeklyConfig, weekly: { startDay: 1, costLimit: 5 }, blocks: { costLimit: 10 } },
+        state: {}
+      });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(false);
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.weeklyAlertState?.alerts).toEqual(["cost"]);
+        expect(result.data.newState.blockAlertState?.alerts).toEqual(["cost"]);
+      }
+      expect(mockDependencies.logger.hasLog("warn", "2025-07の使用データが見つかりません")).toBe(true);
+      expect(mockDependencies.notificationService.sentMessages.map((sent: any) => sent.type)).toEqual(["weekly", "block"]);
+    });
+
+    test("週単位の期間では通知にリセットまでの時間を含める", async () => {
+      const config = {
+        ...weeklyConfig,
+        threshold: 5,
+        weekly: undefined,
+        period: { type: "weekly" as const, startDay: 1 }
+      };
+
+      await command.execute({ config, state: {} });
+
+      const message = mockDependencies.notificationService.getLastMessage()?.message;
+      expect(message).toContain("2025-07-14〜2025-07-20の使用状況");
+      expect(message).toContain("• リセットまで: 5日12時間");
+    });
+  });
+
+  describe("状態の遷移", () => {
+    const statusConfig = {
+      threshold: 60,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      notifyRecovery: true,
+      notifyPeriodReset: true
+    };
+
+    test("閾値の状態を記録する", async () => {
+      const result = await command.execute({ config: { ...statusConfig, threshold: 40 }, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.newState.thresholdStatus).toEqual({
+          period: "2025-07",
+          status: "exceeded",
+          since: "2025-07-15T12:00:00.000Z"
+        });
+      }
+    });
+
+    test("閾値の引き上げで閾値内に戻った場合は回復を通知", async () => {
+      const state = {
+        lastNotificationDate: "2025-07-15",
+        thresholdStatus: { period: "2025-07", status: "exceeded" as const, since: "2025-07-14T09:00:00.000Z" }
+      };
+
+      const result = await command.execute({ config: statusConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.thresholdStatus?.status).toBe("ok");
+      }
+
+      const sent = mockDependencies.notificationService.getLastMessage();
+      expect(sent?.type).toBe("recovery");
+      expect(sent?.message).toContain("閾値内に戻りました");
+      expect(sent?.message).toContain("• 残り: $14.50");
+      expect(sent?.content?.severity).toBe("info");
+      expect(sent?.content?.usage).toMatchObject({ cost: 45.5, threshold: 60, month: "2025-07" });
+      expect(mockDependencies.logger.hasLog("info", "2025-07のコストが閾値内に戻りました")).toBe(true);
+    });
+
+    test("回復通知が無効の場合は状態のみ更新する", async () => {
+      const state = {
+        thresholdStatus: { period: "2025-07", status: "exceeded" as const, since: "2025-07-14T09:00:00.000Z" }
+      };
+
+      const result = await command.execute({ config: { ...statusConfig, notifyRecovery: false }, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+        expect(result.data.newState.thresholdStatus?.status).toBe("ok");
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+    });
+
+    test("新しい期間の開始を通知", async () => {
+      const state = {
+        thresholdStatus: { period: "2025-06", status: "exceeded" as const, since: "2025-06-20T09:00:00.000Z" }
+      };
+
+      const result = await command.execute({ config: statusConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.newState.thresholdStatus?.period).toBe("2025-07");
+      }
+
+      const sent = mockDependencies.notificationService.getLastMessage();
+      expect(sent?.type).toBe("period-reset");
+      expect(sent?.message).toContain("新しい集計期間が始まりました");
+      expect(sent?.message).toContain("• 前の期間 (2025-06): 閾値超過");
+      expect(sent?.message).toContain("• 閾値: $60.00 (残り: $14.50)");
+      expect(sent?.content?.severity).toBe("info");
+      expect(sent?.content?.usage).toMatchObject({ cost: 45.5, threshold: 60, month: "2025-07" });
+    });
+
+    test("新しい期間の使用データが無い場合もコスト0で通知", async () => {
+      mockDependencies.usageRepository.setMockData({ monthly: [], totals: { totalCost: 0 } });
+      const state = {
+        thresholdStatus: { period: "2025-06", status: "ok" as const, since: "2025-06-01T00:00:00.000Z" }
+      };
+
+      const result = await command.execute({ config: statusConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.thresholdStatus).toEqual({
+          period: "2025-07",
+          status: "ok",
+          since: "2025-07-15T12:00:00.000Z"
+        });
+      }
+      const sent = mockDependencies.notificationService.getLastMessage();
+      expect(sent?.message).toContain("• 現在のコスト: $0.00");
+      expect(sent?.content?.usage).toEqual({ cost: 0, threshold: 60, month: "2025-07", models: [] });
+    });
+
+    test("通知に失敗した場合は次回再試行できるよう状態を更新しない", async () => {
+      const previous = { period: "2025-06", status: "ok" as const, since: "2025-06-01T00:00:00.000Z" };
+
+      mockDependencies.notificationService.failOn("period-reset");
+
+      const result = await command.execute({ config: statusConfig, state: { thresholdStatus: previous } });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+        expect(result.data.newState.thresholdStatus).toEqual(previous);
+      }
+      expect(mockDependencies.logger.hasLog("error", "通知の送信に失敗しました")).toBe(true);
+    });
+
+    test("通知先が無い場合は遷移を毎回記録しないよう状態を更新する", async () => {
+      const previous = { period: "2025-06", status: "ok" as const, since: "2025-06-01T00:00:00.000Z" };
+
+      const result = await command.execute({
+        config: { ...statusConfig, webhookUrl: undefined },
+        state: { thresholdStatus: previous }
+      });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+        expect(result.data.newState.thresholdStatus).toEqual({
+          period: "2025-07",
+          status: "ok",
+          since: "2025-07-15T12:00:00.000Z"
+        });
+      }
+    });
+  });
+
+  describe("再通知ポリシー", () => {
+    const cadenceConfig = {
+      threshold: 40,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      timezone: "UTC",
+      cadence: { type: "interval" as const, hours: 6 }
+    };
+
+    test("通知時にポリシーと次回通知可能な日時を記録する", async () => {
+      const result = await command.execute({ config: cadenceConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.cadenceState).toEqual({
+          policy: "interval:6h",
+          period: "2025-07",
+          lastAlertAt: "2025-07-15T12:00:00.000Z",
+          lastAlertCost: 45.5,
+          alertCount: 1,
+          nextAlertAt: "2025-07-15T18:00:00.000Z"
+        });
+      }
+      expect(mockDependencies.logger.hasLog("info", "再通知ポリシー: interval:6h（次回通知可能: 2025-07-15 18:00）")).toBe(true);
+    });
+
+    test("同日でも間隔が経過していれば再通知する", async () => {
+      const state = {
+        lastNotificationDate: "2025-07-15",
+        cadenceState: {
+          policy: "interval:6h",
+          period: "2025-07",
+          lastAlertAt: "2025-07-15T04:00:00.000Z",
+          lastAlertCost: 40.5,
+          alertCount: 1,
+          nextAlertAt: "2025-07-15T10:00:00.000Z"
+        }
+      };
+
+      const result = await command.execute({ config: cadenceConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.cadenceState?.alertCount).toBe(2);
+      }
+    });
+
+    test("間隔内はスキップし次回通知可能な日時をログに出す", async () => {
+      const state = {
+        cadenceState: {
+          policy: "interval:6h",
+          period: "2025-07",
+          lastAlertAt: "2025-07-15T10:00:00.000Z",
+          lastAlertCost: 44,
+          alertCount: 1,
+          nextAlertAt: "2025-07-15T16:00:00.000Z"
+        }
+      };
+
+      const result = await command.execute({ config: cadenceConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+      }
+      expect(mockDependencies.logger.hasLog(
+        "info", "通知は既に送信済みのためスキップします（再通知ポリシー: interval:6h、次回通知可能: 2025-07-15 16:00）"
+      )).toBe(true);
+    });
+
+    test("コスト増加ポリシーでは増加額に達するまでスキップ", async () => {
+      const state = {
+        cadenceState: {
+          policy: "cost-growth:$10",
+          period: "2025-07",
+          lastAlertAt: "2025-07-14T10:00:00.000Z",
+          lastAlertCost: 40.5,
+          alertCount: 1,
+          nextAlertCost: 50.5
+        }
+      };
+
+      const result = await command.execute({
+        config: { ...cadenceConfig, cadence: { type: "cost-growth" as const, amount: 10 } },
+        state
+      });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+      }
+      expect(mockDependencies.logger.hasLog("info", "次回通知: コストが$50.50を超えた時点")).toBe(true);
+    });
+  });
+
+  describe("静かな時間帯", () => {
+    // 2025-07-15T12:00Z は東京の21:00
+    const quietConfig = {
+      threshold: 40,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      modelThresholds: [{ model: "sonnet", threshold: 10 }],
+      quietHours: {
+        windows: [{ days: [0, 1, 2, 3, 4, 5, 6], startMinute: 20 * 60, endMinute: 7 * 60 }],
+        timezone: "Asia/Tokyo",
+        allowCritical: false
+      }
+    };
+
+    beforeEach(() => {
+      mockDependencies.usageRepository.setMockData({
+        monthly: [{
+          month: "2025-07",
+          totalCost: 45.50,
+          modelsUsed: ["claude-sonnet-4-20250514"],
+          modelBreakdowns: [{ model: "claude-sonnet-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 45.50 }]
+        }],
+        totals: { totalCost: 45.50 }
+      });
+    });
+
+    test("時間帯中の通知は保留して状態に記録する", async () => {
+      const result = await command.execute({ config: quietConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.heldNotificationCount).toBe(2);
+        expect(result.data.newState.heldNotifications?.map(held => held.type)).toEqual(["threshold", "model"]);
+        expect(result.data.newState.heldNotifications?.[0]?.heldAt).toBe("2025-07-15T12:00:00.000Z");
+        // 保留した通知は重複防止の上では送信済み
+        expect(result.data.newState.lastNotificationDate).toBe("2025-07-15");
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+      expect(mockDependencies.logger.hasLog("info", "静かな時間帯のため通知を保留します")).toBe(true);
+    });
+
+    test("criticalの通知は設定時に保留しない", async () => {
+      const config = { ...quietConfig, quietHours: { ...quietConfig.quietHours, allowCritical: true } };
+
+      const result = await command.execute({ config, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.newState.heldNotifications).toBeUndefined();
+      }
+      expect(mockDependencies.notificationService.sentMessages.map((sent: any) => sent.type)).toEqual(["threshold", "model"]);
+    });
+
+    test("閾値以外のcriticalの通知も設定時に保留しない", async () => {
+      const config = { ...quietConfig, threshold: 100, quietHours: { ...quietConfig.quietHours, allowCritical: true } };
+
+      const result = await command.execute({ config, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.thresholdExceeded).toBe(false);
+        expect(result.data.newState.modelNotificationDates).toEqual({ sonnet: "2025-07-15" });
+        expect(result.data.newState.heldNotifications).toBeUndefined();
+      }
+      expect(mockDependencies.notificationService.sentMessages.map((sent: any) => sent.type)).toEqual(["model"]);
+    });
+
+    test("時間帯の終了後に保留した通知をまとめて送信する", async () => {
+      const config = {
+        ...quietConfig,
+        quietHours: { ...quietConfig.quietHours, windows: [{ days: [0, 1, 2, 3, 4, 5, 6], startMinute: 22 * 60, endMinute: 7 * 60 }] }
+      };
+      const state = {
+        lastNotificationDate: "2025-07-15",
+        modelNotificationDates: { sonnet: "2025-07-15" },
+        heldNotifications: [
+          { type: "threshold" as const, message: "閾値超過の通知", heldAt: "2025-07-14T15:00:00.000Z" },
+          { type: "model" as const, message: "モデル別閾値の通知", heldAt: "2025-07-14T16:00:00.000Z" }
+        ]
+      };
+
+      const result = await command.execute({ config, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.heldNotifications).toBeUndefined();
+      }
+
+      const sent = mockDependencies.notificationService.sentMessages;
+      expect(sent).toHaveLength(1);
+      expect(sent[0].type).toBe("held");
+      expect(sent[0].message).toContain("静かな時間帯に保留した通知 (2件)");
+      expect(sent[0].message).toContain("🕒 2025-07-15 00:00 の通知\n閾値超過の通知");
+    });
+
+    test("時間帯中は保留した通知を送信しない", async () => {
+      const state = {
+        lastNotificationDate: "2025-07-15",
+        modelNotificationDates: { sonnet: "2025-07-15" },
+        heldNotifications: [{ type: "threshold" as const, message: "閾値超過の通知", heldAt: "2025-07-15T11:30:00.000Z" }]
+      };
+
+      const result = await command.execute({ config: quietConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.newState.heldNotifications).toHaveLength(1);
+      }
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+    });
+
+    test("保留した通知の送信に失敗した場合は保留を残して次回送信する", async () => {
+      mockDependencies.notificationService.failOn("held");
+      const config = {
+        ...quietConfig,
+        quietHours: { ...quietConfig.quietHours, windows: [{ days: [0, 1, 2, 3, 4, 5, 6], startMinute: 22 * 60, endMinute: 7 * 60 }] }
+      };
+      const state = {
+        lastNotificationDate: "2025-07-15",
+        modelNotificationDates: { sonnet: "2025-07-15" },
+        heldNotifications: [{ type: "threshold" as const, message: "閾値超過の通知", heldAt: "2025-07-14T15:00:00.000Z" }]
+      };
+
+      const result = await command.execute({ config, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(false);
+        expect(result.data.newState.heldNotifications).toEqual(state.heldNotifications);
+      }
+    });
+  });
+
+  describe("月次サマリー用のアラート数", () => {
+    const alertConfig = {
+      threshold: 40,
+      daemon: false,
+      interval: 3600,
+      webhookUrl: "https://hooks.slack.com/test",
+      notifyRecovery: true
+    };
+
+    test("送信したアラートを当月に加算する", async () => {
+      const state = { alertCounts: { "2025-06": 5, "2025-07": 2 } };
+
+      const result = await command.execute({ config: alertConfig, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.newState.alertCounts).toEqual({ "2025-06": 5, "2025-07": 3 });
+      }
+    });
+
+    test("回復通知はアラートとして数えない", async () => {
+      const state = {
+        thresholdStatus: { period: "2025-07", status: "exceeded" as const, since: "2025-07-14T09:00:00.000Z" }
+      };
+
+      const result = await command.execute({ config: { ...alertConfig, threshold: 60 }, state });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.alertCounts).toBeUndefined();
+      }
+    });
+
+    test("直近13か月分のみ保持する", async () => {
+      // 2024-06〜2025-06
+      const alertCounts = Object.fromEntries(
+        Array.from({ length: 13 }, (_, i) => [new Date(Date.UTC(2024, 5 + i, 1)).toISOString().substring(0, 7), 1])
+      );
+
+      const result = await command.execute({ config: alertConfig, state: { alertCounts } });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        const months = Object.keys(result.data.newState.alertCounts ?? {});
+        expect(months).toHaveLength(13);
+        expect(months).not.toContain("2024-06");
+        expect(result.data.newState.alertCounts?.["2025-07"]).toBe(1);
+      }
+    });
+  });
+
+  describe("Slack Web API（スレッド）", () => {
+    const botConfig = {
+      threshold: 40,
+      daemon: true,
+      interval: 3600,
+      slackBotToken: "xoxb-test",
+      slackChannel: "C123",
+      timezone: "UTC"
+    };
+    let threaded: MockThreadedNotificationService;
+
+    beforeEach(() => {
+      threaded = new MockThreadedNotificationService();
+      command = new CheckUsageCommand({ ...mockDependencies, threadedNotificationService: threaded });
+    });
+
+    test("期間の最初の閾値超過でスレッドを開始し、状況メッセージをピン留めする", async () => {
+      const result = await command.execute({ config: botConfig, state: {} });
+
+      expect(ResultUtils.isSuccess(result)).toBe(true);
+      if (ResultUtils.isSuccess(result)) {
+        expect(result.data.notificationSent).toBe(true);
+        expect(result.data.newState.notificationThread).toEqual({
+          channel: "C123",
+          period: "2025-07",
+          threadId: "1700000000.000001",
+          statusMessageId: "1700000000.000002"
+        });
+      }
+
+      expect(threaded.posts).toHaveLength(2);
+      expect(threaded.posts[0]!.threadId).toBeUndefined();
+      expect(threaded.posts[0]!.message).toContain("Claude Code使用料金が閾値を超過しました");
+      expect(threaded.posts[1]!.message).toContain("• 状態: 超過中（超過額: $5.50）");
+      expect(threaded.posts[1]!.message).toContain("• 最終更新: 2025-07-15 12:00");
+      expect(threaded.pins).toEqual([{ channel: "C123", messageId: "1700000000.000002" }]);
+      expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+    });
+
+    test("同じ期間の以降のアラートはスレッドに返信し、状況メッセージを更新する", async () => {
+      const state = {
+        lastNotificationDate: "2025-07-14",
+        notificationThread: { channel: "C123", period: "2025-07", threadId: "1699999999.000001", statusMessageId: "1699999999.000002" }
+      };
+
+      const result = await command.execute({ config: botConfig, state });
+
+      expect(threaded.posts).toHaveLength(1);
+      expect(threaded.posts[0]!.threadId).toBe("1699999999.000001");
+      expect(threaded.updates).toHaveLength(1);
+      expect(threaded.updates[0]!.messageId).toBe("1699999999.000002");
+      expect(threaded.pins).toHaveLength(0);
+      expect(ResultUtils.isSuccess(result) && result.data.newState.notificationThread).toEqual(state.notificationThread);
+    });
+
+    test("期間が変わると新しいスレッドを開始する", async () => {
+      const state = {
+        notificationThread: { channel: "C123", period: "2025-06", threadId: "1699999999.000001", statusMessageId: "1699999999.000002" }
+      };
+
+      const result = await command.execute({ config: botConfig, state });
+
+      expect(threaded.posts[0]!.threadId).toBeUndefined();
+      expect(ResultUtils.isSuccess(result) && result.data.newState.notificationThread).toEqual({
+        channel: "C123",
+        period: "2025-07",
+        threadId: "1700000000.000001",
+        statusMessageId: "1699999999.000002"
+      });
+    });
+
+    test("閾値内でも状況メッセージは更新する", async () => {
+      const state = { notificationThread: { channel: "C123", statusMessageId: "1699999999.000002" } };
+
+      await command.execute({ config: { ...botConfig, threshold: 50 }, state });
+
+      expect(threaded.posts).toHaveLength(0);
+      expect(threaded.updates[0]!.message).toContain("• 状態: 閾値内（残り予算: $4.50）");
+    });
+
+    test("状況メッセージを更新できない場合は投稿し直す", async () => {
+      threaded.update = async () => { throw new Error("Slack API error: chat.update message_not_found"); };
+      const state = { notificationThread: { channel: "C123", statusMessageId: "1699999999.000002" } };
+
+      const result = await command.execute({ config: { ...botConfig, threshold: 50 }, state });
+
+      expect(threaded.posts).toHaveLength(1);
+      expect(threaded.pins).toEqual([{ channel: "C123", messageId: "1700000000.000001" }]);
+      expect(ResultUtils.isSuccess(result) && result.data.newState.notificationThread?.statusMessageId).toBe("1700000000.000001");
+      expect(mockDependencies.logger.hasLog("warn", "状況メッセージを更新できないため新しく投稿します")).toBe(true);
+    });
+  });
+});
@@ -7,9 +7,59 @@ import type {
   Logger, 
   UsageDataRepository, 
   NotificationService,
-  StateRepository 
+  StateRepository,
+  AlertSeverity,
+  DailyUsage,
+  MonthlyUsage,
+  NotificationType,
+  AnomalyDetection,
+  TokenQuotaType,
+  ThresholdStatusState,
+  HeldNotification,
+  NotificationMessage,
+  NotificationField,
+  NotificationUsage,
+  NotificationThreadState,
+  ThreadedNotificationService
 } from "../core/interfaces.ts";
 import { ResultUtils } from "../utils/result.ts";
+import { AlertTierEvaluator, type AlertTierStatus } from "../core/alert-tiers.ts";
+import { CostForecaster, type CostForecast } from "../core/cost-forecaster.ts";
+import { BudgetPacer, type PacingStatus } from "../core/budget-pacer.ts";
+import { ModelBudgetEvaluator, type ModelBudgetStatus } from "../core/model-budgets.ts";
+import { TokenQuotaEvaluator, type TokenQuotaStatus } from "../core/token-quotas.ts";
+import { BillingPeriodResolver, type PeriodRange } from "../core/billing-period.ts";
+import { AnomalyDetector, type AnomalyReport } from "../core/anomaly-detector.ts";
+import { ThresholdStatusTracker } from "../core/threshold-status.ts";
+import { NotificationCadenceEvaluator, type CadenceContext } from "../core/notification-cadence.ts";
+import { QuietHoursPolicy } from "../core/quiet-hours.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+import { NotificationThreadPolicy } from "../core/notification-thread.ts";
+import { NotificationTargetResolver } from "../core/notification-target.ts";
+import { WeeklyLimitEvaluator, type WeeklyLimitStatus } from "../core/weekly-limits.ts";
+import { BurnRateMonitor, type BurnRateStatus } from "../core/burn-rate.ts";
+import { SessionBlockEvaluator, type SessionBlockStatus } from "../core/session-blocks.ts";
+import { TokenAmount } from "../utils/token-amount.ts";
+import { TimeZone } from "../utils/time-zone.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  info: "ℹ️",
+  warning: "⚠️",
+  critical: "🚨"
+};
+
+const TOKEN_TYPE_LABELS: Record<TokenQuotaType, string> = {
+  input: "入力トークン",
+  output: "出力トークン",
+  total: "合計トークン"
+};
+
+// 月次サマリーのアラート数に含めない通知
+const NON_ALERT_TYPES: readonly NotificationType[] = ["recovery", "period-reset", "held", "digest", "summary"];
+
+// 前月比較のため、当月と前月を含む直近13か月分のアラート数を保持する
+const ALERT_COUNT_MONTHS = 13;
 
 export interface CheckUsageInput {
   config: Config;
@@ -20,6 +70,16 @@ export interface CheckUsageOutput {
   newState: DaemonState;
   thresholdExceeded: boolean;
   notificationSent: boolean;
+  tierStatus?: AlertTierStatus;
+  forecast?: CostForecast;
+  pacing?: PacingStatus;
+  modelStatuses?: ModelBudgetStatus[];
+  tokenStatuses?: TokenQuotaStatus[];
+  blockStatus?: SessionBlockStatus;
+  burnRate?: BurnRateStatus;
+  anomaly?: AnomalyReport;
+  weeklyStatus?: WeeklyLimitStatus;
+  heldNotificationCount?: number;
 }
 
 export interface CheckUsageDependencies {
@@ -28,107 +88,865 @@ export interface CheckUsageDependencies {
   usageRepository: UsageDataRepository;
   notificationService: NotificationService;
   stateRepository: StateRepository;
+  // 設定時はconfig.slackChannelにスレッド形式で送信する
+  threadedNotificationService?: ThreadedNotificationService;
 }
 
 export class CheckUsageCommand extends BaseCommand<CheckUsageInput, CheckUsageOutput> {
+  private tierEvaluator = new AlertTierEvaluator();
+  private forecaster = new CostForecaster();
+  private pacer = new BudgetPacer();
+  private modelBudgetEvaluator = new ModelBudgetEvaluator();
+  private tokenQuotaEvaluator = new TokenQuotaEvaluator();
+  private periodResolver = new BillingPeriodResolver();
+  private blockEvaluator = new SessionBlockEvaluator();
+  private burnRateMonitor = new BurnRateMonitor();
+  private anomalyDetector = new AnomalyDetector();
+  private weeklyEvaluator = new WeeklyLimitEvaluator();
+  private statusTracker = new ThresholdStatusTracker();
+  private cadenceEvaluator = new NotificationCadenceEvaluator();
+  private quietHoursPolicy = new QuietHoursPolicy();
+  private messageFormatter = new NotificationMessageFormatter();
+  private threadPolicy = new NotificationThreadPolicy();
+  private targetResolver = new NotificationTargetResolver();
+  // 1回のチェック中に静かな時間帯のため保留した通知
+  private heldNotifications: HeldNotification[] = [];
+  // 1回のチェック中に送信（保留を含む）したアラート数
+  private alertCount = 0;
+  // Slack Web APIで送信する場合のスレッド・状況メッセージと、チェック対象の期間
+  private thread?: NotificationThreadState;
+  private periodKey = "";
+
   constructor(private dependencies: CheckUsageDependencies) {
     super();
   }
 
   async execute(input: CheckUsageInput): Promise<Result<CheckUsageOutput>> {
     return this.safeExecute(async () => {
-      const { config, state } = input;
-      const { clock, logger, usageRepository, notificationService } = this.dependencies;
+      const { config } = input;
 
-      logger.info("使用量チェック開始", { 
+      this.dependencies.logger.info("使用量チェック開始", { 
         threshold: config.threshold,
         component: 'usage-checker' 
       });
 
-      // 使用量データ取得
+      // 集計期間の決定（未設定時は暦月）
+      const period = this.periodResolver.resolve(config.period ?? { type: "calendar" }, this.dependencies.clock.getToday());
+
+      this.heldNotifications = [];
+      this.alertCount = 0;
+      this.thread = input.state.notificationThread;
+      this.periodKey = period.key;
+      // 静かな時間帯が明けていれば保留中の通知をまとめて送信してからチェックする
+      const released = await this.releaseHeldNotifications(config, input.state);
+      const output = await this.checkUsage(config, released.state, period);
+      const held = this.heldNotifications;
+
+      let newState = output.newState;
+      if (this.thread !== input.state.notificationThread) {
+        newState = { ...newState, ...(this.thread && { notificationThread: this.thread }) };
+      }
+      if (held.length > 0) {
+        newState = { ...newState, heldNotifications: [...(newState.heldNotifications ?? []), ...held] };
+      }
+      if (this.alertCount > 0) {
+        newState = { ...newState, alertCounts: this.countAlerts(newState.alertCounts, this.alertCount) };
+      }
+
+      return {
+        ...output,
+        newState,
+        notificationSent: output.notificationSent || released.sent,
+        ...(held.length > 0 && { heldNotificationCount: held.length })
+      };
+    }, "使用量チェックに失敗しました");
+  }
+
+  private async checkUsage(config: Config, state: DaemonState, period: PeriodRange): Promise<CheckUsageOutput> {
+    const { clock, logger } = this.dependencies;
+
+    const periodDaily = config.period && config.period.type !== "calendar"
+      ? await this.fetchDaily(period.start)
+      : undefined;
+
+    let currentMonthUsage: MonthlyUsage | undefined;
+    if (periodDaily) {
+      // 暦月以外の期間はccusageの月次集計と一致しないため日次データから集計する
+      currentMonthUsage = this.periodResolver.aggregate(periodDaily, period);
+    } else {
       const usageDataResult = await this.fetchUsageData();
       if (ResultUtils.isFailure(usageDataResult)) {
         throw usageDataResult.error;
       }
+      currentMonthUsage = usageDataResult.data.monthly.find(
+        (month) => month.month === period.key
+      );
+    }
+    const currentMonth = period.key;
+
+    if (!currentMonthUsage) {
+      logger.warn(`${currentMonth}の使用データが見つかりません`, {
+        component: 'usage-checker'
+      });
+      // 新しい期間で使用が無い場合もコスト0として状態の遷移を記録する
+      const tracked = await this.trackThresholdStatus(config, state, state, currentMonth, 0);
+      await this.updateStatusMessage(config, currentMonth, 0);
+      // 週間上限や5時間ブロックは当月の集計と独立しているため評価を続ける
+      const { notificationSent, ...independent } = await this.checkIndependentLimits(
+        config, state, tracked.newState, currentMonth, 0
+      );
+      return {
+        ...independent,
+        thresholdExceeded: false,
+        notificationSent: tracked.notificationSent || notificationSent
+      };
+    }
+
+    const currentCost = currentMonthUsage.totalCost;
+    logger.info(`${currentMonth}の現在のコスト: $${currentCost.toFixed(2)}`, {
+      component: 'usage-checker',
+      cost: currentCost,
+      threshold: config.threshold
+    });
+
+    const thresholdExceeded = currentCost > config.threshold;
+    let notificationSent = false;
+    let newState = state;
+
+    // アラートティア評価（設定時のみ）
+    const tierStatus = config.alertTiers && config.alertTiers.length > 0
+      ? this.tierEvaluator.evaluate(
+          currentCost, config.threshold, config.alertTiers, currentMonth, state.alertTierState
+        )
+      : undefined;
+
+    // 日次データは月末予測・日割り予算の設定時のみ取得（ローリング期間には期間末が無いため評価しない）
+    const usesDaily = (config.forecast || config.pacing) && this.hasPeriodEnd(config);
+    const daily = usesDaily
+      ? periodDaily ?? await this.fetchDaily(period.start, true)
+      : undefined;
+    const forecast = config.forecast && daily
+      ? this.forecastMonthEnd(daily, period, currentCost)
+      : undefined;
+    const pacing = config.pacing && daily
+      ? this.evaluatePacing(config, daily, period, currentCost)
+      : undefined;
+
+    if (thresholdExceeded) {
+      const excess = currentCost - config.threshold;
+      logger.warn(`閾値超過！ 超過額: $${excess.toFixed(2)}`, {
+        component: 'usage-checker',
+        excess,
+        threshold: config.threshold
+      });
+    } else {
+      const remaining = config.threshold - currentCost;
+      logger.info(`現在は閾値内です (残り: $${remaining.toFixed(2)})`, {
+        component: 'usage-checker',
+        remaining,
+        threshold: config.threshold
+      });
+    }
+
+    const newTier = tierStatus?.newlyReached[tierStatus.newlyReached.length - 1];
+    if (newTier) {
+      logger.warn(`アラートティア${newTier.percent}%に到達しました`, {
+        component: 'usage-checker',
+        tier: newTier.percent,
+        severity: newTier.severity
+      });
+    }
 
-      const usageData = usageDataResult.data;
-      const currentMonth = clock.getCurrentMonth();
-      
-      // 当月データを検索
-      const currentMonthUsage = usageData.monthly.find(
-        (month) => month.month === currentMonth
+    // 通知判定（新規ティア到達は期間内で1回、閾値超過は再通知ポリシーに従う）
+    const cadence = config.cadence ?? { type: "daily" as const };
+    const cadenceContext: CadenceContext = {
+      period: currentMonth,
+      now: clock.now(),
+      today: clock.getToday(),
+      cost: currentCost,
+      timeZone: config.timezone ?? TimeZone.systemDefault(),
+      lastNotificationDate: state.lastNotificationDate,
+      state: state.cadenceState
+    };
+    const cadenceDecision = thresholdExceeded
+      ? this.cadenceEvaluator.decide(cadence, cadenceContext)
+      : undefined;
+
+    if (newTier || cadenceDecision?.allowed) {
+      const message = this.formatCostMessage(
+        currentMonthUsage, config.threshold, tierStatus, forecast, this.periodResetIn(config, period)
       );
+      if (await this.sendNotification(config, message, "threshold")) {
+        notificationSent = true;
+        
+        // 状態更新（閾値未満のティア通知は再通知ポリシーの判定に含めない）
+        newState = {
+          ...state,
+          ...(thresholdExceeded && {
+            lastNotificationDate: clock.getToday(),
+            lastExceedanceDate: clock.getToday(),
+            cadenceState: this.cadenceEvaluator.record(cadence, cadenceContext)
+          }),
+          ...(tierStatus && {
+            alertTierState: this.tierEvaluator.markAnnounced(tierStatus, currentMonth, state.alertTierState)
+          })
+        };
+        if (thresholdExceeded && newState.cadenceState) {
+          const { policy, nextAlertAt, nextAlertCost } = newState.cadenceState;
+          logger.info(`再通知ポリシー: ${policy}（${this.formatNextAlert(config, nextAlertAt, nextAlertCost)}）`, {
+            component: 'usage-checker',
+            policy,
+            ...(nextAlertAt && { nextAlertAt }),
+            ...(nextAlertCost !== undefined && { nextAlertCost })
+          });
+        }
+      }
+    } else if (cadenceDecision) {
+      logger.info(
+        `通知は既に送信済みのためスキップします（再通知ポリシー: ${cadenceDecision.policy}、${this.formatNextAlert(config, cadenceDecision.nextAlertAt?.toISOString(), cadenceDecision.nextAlertCost)}）`,
+        {
+          component: 'usage-checker',
+          policy: cadenceDecision.policy,
+          ...(cadenceDecision.nextAlertAt && { nextAlertAt: cadenceDecision.nextAlertAt.toISOString() }),
+          ...(cadenceDecision.nextAlertCost !== undefined && { nextAlertCost: cadenceDecision.nextAlertCost })
+        }
+      );
+    }
+
+    // 閾値に対する状態の遷移（回復・期間の切り替え）
+    const tracked = await this.trackThresholdStatus(
+      config, state, newState, currentMonth, currentCost, currentMonthUsage
+    );
+    newState = tracked.newState;
+    notificationSent = notificationSent || tracked.notificationSent;
+    await this.updateStatusMessage(config, currentMonth, currentCost);
+
+    // モデル別閾値（合計の閾値とは独立して1日1回）
+    const modelStatuses = config.modelThresholds && config.modelThresholds.length > 0
+      ? this.modelBudgetEvaluator.evaluate(currentMonthUsage.modelBreakdowns, config.modelThresholds)
+      : undefined;
+    const today = clock.getToday();
+    const pendingModels = (modelStatuses ?? []).filter(
+      status => status.exceeded && state.modelNotificationDates?.[status.model] !== today
+    );
+
+    for (const status of modelStatuses ?? []) {
+      if (status.exceeded) {
+        logger.warn(`モデル別閾値超過: ${status.model} $${status.cost.toFixed(2)} (閾値: $${status.threshold.toFixed(2)})`, {
+          component: 'usage-checker',
+          model: status.model,
+          cost: status.cost,
+          threshold: status.threshold
+        });
+      }
+    }
+
+    if (modelStatuses && pendingModels.length > 0) {
+      const message = this.formatModelMessage(currentMonthUsage, config.threshold, modelStatuses);
+      if (await this.sendNotification(config, message, "model")) {
+        notificationSent = true;
+        const notified = Object.fromEntries(pendingModels.map(status => [status.model, today]));
+        newState = {
+          ...newState,
+          modelNotificationDates: { ...state.modelNotificationDates, ...notified }
+        };
+      }
+    }
+
+    // トークン上限（コストとは独立して種類ごとに1日1回）
+    const tokenStatuses = config.tokenQuotas && config.tokenQuotas.length > 0
+      ? this.tokenQuotaEvaluator.evaluate(currentMonthUsage.modelBreakdowns, config.tokenQuotas)
+      : undefined;
+    const pendingQuotas = (tokenStatuses ?? []).filter(
+      status => status.exceeded && state.tokenNotificationDates?.[status.type] !== today
+    );
 
-      if (!currentMonthUsage) {
-        logger.warn(`${currentMonth}の使用データが見つかりません`, {
-          component: 'usage-checker'
+    for (const status of tokenStatuses ?? []) {
+      if (status.exceeded) {
+        logger.warn(`トークン上限超過: ${TOKEN_TYPE_LABELS[status.type]} ${TokenAmount.format(status.used)} (上限: ${TokenAmount.format(status.limit)})`, {
+          component: 'usage-checker',
+          tokenType: status.type,
+          used: status.used,
+          limit: status.limit
         });
-        return {
-          newState: state,
-          thresholdExceeded: false,
-          notificationSent: false
+      }
+    }
+
+    if (tokenStatuses && pendingQuotas.length > 0) {
+      const message = this.formatTokenMessage(currentMonthUsage, config.threshold, tokenStatuses);
+      if (await this.sendNotification(config, message, "token")) {
+        notificationSent = true;
+        const notified = Object.fromEntries(pendingQuotas.map(status => [status.type, today]));
+        newState = {
+          ...newState,
+          tokenNotificationDates: { ...state.tokenNotificationDates, ...notified }
         };
       }
+    }
 
-      const currentCost = currentMonthUsage.totalCost;
-      logger.info(`${currentMonth}の現在のコスト: $${currentCost.toFixed(2)}`, {
+    // 予測超過アラート（実績が閾値未満の間のみ、期間内で1回）
+    if (
+      forecast &&
+      !thresholdExceeded &&
+      forecast.projectedTotal > config.threshold &&
+      state.lastForecastAlertPeriod !== currentMonth
+    ) {
+      logger.warn(`月末に閾値を超過する見込みです (予測: $${forecast.projectedTotal.toFixed(2)})`, {
         component: 'usage-checker',
-        cost: currentCost,
+        projectedTotal: forecast.projectedTotal,
         threshold: config.threshold
       });
 
-      const thresholdExceeded = currentCost > config.threshold;
-      let notificationSent = false;
-      let newState = state;
+      const message = this.formatForecastMessage(currentMonthUsage, config.threshold, forecast);
+      if (await this.sendNotification(config, message, "forecast")) {
+        notificationSent = true;
+        newState = { ...newState, lastForecastAlertPeriod: currentMonth };
+      }
+    }
 
-      if (thresholdExceeded) {
-        const excess = currentCost - config.threshold;
-        logger.warn(`閾値超過！ 超過額: $${excess.toFixed(2)}`, {
+    // 日割り予算超過アラート（1日1回）
+    if (pacing?.overBudget && state.lastPacingAlertDate !== pacing.date) {
+      logger.warn(`本日の使用額が日割り予算を超過しました (予算: $${pacing.dailyBudget.toFixed(2)})`, {
+        component: 'usage-checker',
+        todayCost: pacing.todayCost,
+        dailyBudget: pacing.dailyBudget
+      });
+
+      const message = this.formatPacingMessage(currentMonthUsage, config.threshold, pacing);
+      if (await this.sendNotification(config, message, "pacing")) {
+        notificationSent = true;
+        newState = { ...newState, lastPacingAlertDate: pacing.date };
+      }
+    }
+
+    const independent = await this.checkIndependentLimits(
+      config, state, newState, currentMonth, currentCost, currentMonthUsage
+    );
+    const { anomaly, weeklyStatus, burnRate, blockStatus } = independent;
+    newState = independent.newState;
+    notificationSent = notificationSent || independent.notificationSent;
+
+    return {
+      newState,
+      thresholdExceeded,
+      notificationSent,
+      tierStatus,
+      forecast,
+      pacing,
+      modelStatuses,
+      tokenStatuses,
+      blockStatus,
+      burnRate,
+      anomaly,
+      weeklyStatus
+    };
+  }
+
+  // 当月の使用データの有無に関わらず評価する監視（異常検知・週間上限・消費ペース・5時間ブロック）
+  private async checkIndependentLimits(
+    config: Config,
+    state: DaemonState,
+    newState: DaemonState,
+    period: string,
+    cost: number,
+    usage?: MonthlyUsage
+  ): Promise<Pick<CheckUsageOutput, "newState" | "notificationSent" | "anomaly" | "weeklyStatus" | "burnRate" | "blockStatus">> {
+    const { clock, logger } = this.dependencies;
+    const notificationUsage = usage && this.notificationUsage(usage, config.threshold);
+    let notificationSent = false;
+
+    // 日次コストの異常検知（1日1回）
+    const anomaly = config.anomaly ? await this.detectAnomaly(config.anomaly) : undefined;
+    if (anomaly?.isAnomaly && state.lastAnomalyAlertDate !== anomaly.date) {
+      logger.warn(`本日のコストが通常と比べて異常に高くなっています (スコア: ${anomaly.score.toFixed(1)})`, {
+        component: 'usage-checker',
+        cost: anomaly.cost,
+        median: anomaly.median,
+        score: anomaly.score
+      });
+
+      const message = this.formatAnomalyMessage(config.anomaly!, anomaly, notificationUsage);
+      if (await this.sendNotification(config, message, "anomaly")) {
+        notificationSent = true;
+        newState = { ...newState, lastAnomalyAlertDate: anomaly.date };
+      }
+    }
+
+    // 週間上限（週の中で種別ごとに1回）
+    const weeklyStatus = config.weekly ? await this.evaluateWeeklyLimits(config) : undefined;
+    const pendingWeeklyAlerts = weeklyStatus
+      ? this.weeklyEvaluator.pendingAlerts(weeklyStatus, state.weeklyAlertState)
+      : [];
+
+    if (weeklyStatus && pendingWeeklyAlerts.length > 0) {
+      logger.warn(`週間上限超過: ${pendingWeeklyAlerts.join(", ")}`, {
+        component: 'usage-checker',
+        week: weeklyStatus.week.key,
+        alerts: pendingWeeklyAlerts
+      });
+
+      const message = this.formatWeeklyMessage(weeklyStatus, config, notificationUsage);
+      if (await this.sendNotification(config, message, "weekly")) {
+        notificationSent = true;
+        newState = {
+          ...newState,
+          weeklyAlertState: this.weeklyEvaluator.markAnnounced(weeklyStatus, state.weeklyAlertState)
+        };
+      }
+    }
+
+    // 消費ペース（前回チェックからの増加額、閾値通知とは独立したクールダウン）
+    let burnRate: BurnRateStatus | undefined;
+    if (config.burnRate) {
+      const sample = { timestamp: clock.now().toISOString(), period, cost };
+      burnRate = this.burnRateMonitor.measure(state.lastCostSample, sample);
+      newState = { ...newState, lastCostSample: this.burnRateMonitor.nextSample(state.lastCostSample, sample) };
+
+      if (burnRate) {
+        logger.info(`消費ペース: $${burnRate.costPerHour.toFixed(2)}/時間`, {
           component: 'usage-checker',
-          excess,
-          threshold: config.threshold
+          costPerHour: burnRate.costPerHour,
+          costDelta: burnRate.costDelta,
+          elapsedMinutes: burnRate.elapsedMinutes
         });
+      }
 
-        // 通知判定
-        if (this.shouldSendNotification(state, thresholdExceeded)) {
-          if (config.slackWebhookUrl) {
-            const message = this.formatCostMessage(currentMonthUsage, config.threshold);
-            await notificationService.send(message, config.slackWebhookUrl);
-            
-            logger.info("Slack通知を送信しました", { component: 'usage-checker' });
-            notificationSent = true;
-            
-            // 状態更新
-            newState = {
-              ...state,
-              lastNotificationDate: clock.getToday(),
-              lastExceedanceDate: clock.getToday()
-            };
-          } else {
-            logger.warn("CCWATCH_SLACK_WEBHOOK_URL環境変数が設定されていないため、Slack通知をスキップします", {
-              component: 'usage-checker'
-            });
-          }
-        } else {
-          logger.info("通知は既に送信済みのためスキップします", {
-            component: 'usage-checker'
-          });
+      if (
+        burnRate &&
+        burnRate.costPerHour > config.burnRate.costPerHour &&
+        !this.burnRateMonitor.isCoolingDown(state.lastBurnRateAlertAt, clock.now(), config.burnRate.cooldownMinutes)
+      ) {
+        logger.warn(`消費ペースが上限を超過しました ($${burnRate.costPerHour.toFixed(2)}/時間)`, {
+          component: 'usage-checker',
+          costPerHour: burnRate.costPerHour,
+          limit: config.burnRate.costPerHour
+        });
+
+        const message = this.formatBurnRateMessage(config, period, cost, burnRate, notificationUsage);
+        if (await this.sendNotification(config, message, "burn-rate")) {
+          notificationSent = true;
+          newState = { ...newState, lastBurnRateAlertAt: sample.timestamp };
         }
+      }
+    }
+
+    // 5時間ブロック監視（合計の閾値とは独立して、ブロック内で種別ごとに1回）
+    const blockStatus = config.blocks ? await this.evaluateSessionBlock(config) : undefined;
+    const pendingBlockAlerts = blockStatus
+      ? this.blockEvaluator.pendingAlerts(blockStatus, state.blockAlertState)
+      : [];
+
+    if (blockStatus && pendingBlockAlerts.length > 0) {
+      logger.warn(`5時間ブロックの上限アラート: ${pendingBlockAlerts.join(", ")}`, {
+        component: 'usage-checker',
+        blockId: blockStatus.blockId,
+        alerts: pendingBlockAlerts
+      });
+
+      const message = this.formatBlockMessage(blockStatus, config, notificationUsage);
+      if (await this.sendNotification(config, message, "block")) {
+        notificationSent = true;
+        newState = {
+          ...newState,
+          blockAlertState: this.blockEvaluator.markAnnounced(blockStatus, state.blockAlertState)
+        };
+      }
+    }
+
+    return { newState, notificationSent, anomaly, weeklyStatus, burnRate, blockStatus };
+  }
+
+  private async sendNotification(
+    config: Config,
+    message: string | NotificationMessage,
+    type: NotificationType
+  ): Promise<boolean> {
+    const { clock, logger, notificationService } = this.dependencies;
+    const severity = typeof message === "string" ? undefined : message.severity;
+
+    const channel = this.threadChannel(config);
+    const destination = this.targetResolver.destination(config);
+    if (!channel && !destination) {
+      logger.warn("CCWATCH_SLACK_WEBHOOK_URL環境変数が設定されていないため、Slack通知をスキップします", {
+        component: 'usage-checker'
+      });
+      return false;
+    }
+
+    // 保留した通知は時間帯の終了後にまとめて送信されるため、重複防止の上では送信済みとして扱う
+    if (config.quietHours &&
+        this.quietHoursPolicy.shouldHold(config.quietHours, clock.now(), this.quietHoursTimeZone(config), severity)) {
+      this.heldNotifications.push({ type, message: this.messageFormatter.toText(message), heldAt: clock.now().toISOString() });
+      logger.info("静かな時間帯のため通知を保留します", { component: 'usage-checker', type });
+      this.countAlert(type);
+      return true;
+    }
+
+    // 1回のチェックで複数の通知を送信するため、送信に失敗しても他の通知と送信済みの状態の記録は継続する
+    try {
+      if (channel) {
+        await this.postToThread(channel, message, type);
       } else {
-        const remaining = config.threshold - currentCost;
-        logger.info(`現在は閾値内です (残り: $${remaining.toFixed(2)})`, {
+        await notificationService.send(message, destination!, type);
+      }
+    } catch (error) {
+      logger.error("通知の送信に失敗しました", {
+        component: 'usage-checker',
+        type,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+    logger.info("Slack通知を送信しました", { component: 'usage-checker' });
+    this.countAlert(type);
+    return true;
+  }
+
+  private countAlert(type: NotificationType): void {
+    if (!NON_ALERT_TYPES.includes(type)) {
+      this.alertCount++;
+    }
+  }
+
+  // Slack Web APIで送信するチャンネル（ボットトークン未設定時はIncoming Webhookで送信する）
+  private threadChannel(config: Config): string | undefined {
+    return this.dependencies.threadedNotificationService ? config.slackChannel : undefined;
+  }
+
+  private async postToThread(channel: string, message: string | NotificationMessage, type: NotificationType): Promise<void> {
+    const service = this.dependencies.threadedNotificationService!;
+    const target = this.threadPolicy.target(this.thread, channel, this.periodKey, type);
+    const messageId = await service.post(message, channel, target.threadId);
+    if (target.startsThread) {
+      this.thread = this.threadPolicy.startThread(this.thread, channel, this.periodKey, messageId);
+    }
+  }
+
+  // ピン留めした状況メッセージを最新の使用状況に更新する。失敗してもチェックは継続する
+  private async updateStatusMessage(config: Config, period: string, cost: number): Promise<void> {
+    const { logger } = this.dependencies;
+    const channel = this.threadChannel(config);
+    if (!channel) {
+      return;
+    }
+
+    const service = this.dependencies.threadedNotificationService!;
+    const message = this.formatStatusMessage(config, period, cost);
+    const messageId = this.threadPolicy.statusMessageId(this.thread, channel);
+    if (messageId) {
+      try {
+        await service.update(message, channel, messageId);
+        return;
+      } catch (error) {
+        logger.warn("状況メッセージを更新できないため新しく投稿します", {
           component: 'usage-checker',
-          remaining,
-          threshold: config.threshold
+          error: error instanceof Error ? error.message : String(error)
         });
       }
+    }
 
-      return {
-        newState,
-        thresholdExceeded,
-        notificationSent
-      };
-    }, "使用量チェックに失敗しました");
+    let posted: string;
+    try {
+      posted = await service.post(message, channel);
+    } catch (error) {
+      logger.warn("状況メッセージの投稿に失敗しました", {
+        component: 'usage-checker',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+    this.thread = this.threadPolicy.withStatusMessage(this.thread, channel, posted);
+
+    try {
+      await service.pin(channel, posted);
+    } catch (error) {
+      logger.warn("状況メッセージをピン留めできませんでした", {
+        component: 'usage-checker',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async releaseHeldNotifications(
+    config: Config,
+    state: DaemonState
+  ): Promise<{ state: DaemonState; sent: boolean }> {
+    const { clock, logger } = this.dependencies;
+    const held = state.heldNotifications ?? [];
+    if (held.length === 0) {
+      return { state, sent: false };
+    }
+
+    const timeZone = this.quietHoursTimeZone(config);
+    if (config.quietHours && this.quietHoursPolicy.isQuiet(config.quietHours, clock.now(), timeZone)) {
+      logger.info(`静かな時間帯のため保留中の通知${held.length}件の送信を待機します`, {
+        component: 'usage-checker',
+        held: held.length
+      });
+      return { state, sent: false };
+    }
+
+    logger.info(`保留中の通知${held.length}件をまとめて送信します`, {
+      component: 'usage-checker',
+      held: held.length
+    });
+    if (!(await this.sendNotification(config, this.quietHoursPolicy.combine(held, timeZone), "held"))) {
+      return { state, sent: false };
+    }
+
+    const { heldNotifications: _released, ...rest } = state;
+    return { state: rest, sent: true };
+  }
+
+  // 暦月ごとのアラート数に加算し、月次サマリーの比較に必要な直近の月だけを残す
+  private countAlerts(counts: Readonly<Record<string, number>> | undefined, added: number): Record<string, number> {
+    const month = this.dependencies.clock.getCurrentMonth();
+    const updated = { ...counts, [month]: (counts?.[month] ?? 0) + added };
+    const kept = Object.keys(updated).sort().slice(-ALERT_COUNT_MONTHS);
+    return Object.fromEntries(kept.map(key => [key, updated[key]!]));
+  }
+
+  private quietHoursTimeZone(config: Config): string {
+    return config.quietHours?.timezone ?? config.timezone ?? TimeZone.systemDefault();
+  }
+
+  // ティア設定時は到達済みの最上位ティア、未設定時は閾値に対する割合から決める
+  private thresholdSeverity(cost: number, threshold: number, tierStatus?: AlertTierStatus): AlertSeverity {
+    return tierStatus?.current?.severity ?? AlertTierEvaluator.defaultSeverity((cost / threshold) * 100);
+  }
+
+  // optionalの場合（予測・日割り予算の補助データ）は失敗してもチェック自体を継続する
+  private async fetchDaily(since: string, optional = false): Promise<DailyUsage[] | undefined> {
+    const dailyResult = await this.safeExecute(
+      () => this.dependencies.usageRepository.fetchDailyUsageData(since),
+      "日次使用量データの取得に失敗しました"
+    );
+    if (ResultUtils.isFailure(dailyResult)) {
+      if (!optional) {
+        throw dailyResult.error;
+      }
+      this.dependencies.logger.warn("日次データを使用する評価をスキップします", {
+        component: 'usage-checker',
+        error: dailyResult.error.message
+      });
+      return undefined;
+    }
+    return dailyResult.data.daily;
+  }
+
+  // 週単位の期間のみリセットまでの時間を通知に含める
+  private periodResetIn(config: Config, period: PeriodRange): string | undefined {
+    if (config.period?.type !== "weekly") {
+      return undefined;
+    }
+    const timeZone = config.timezone ?? TimeZone.systemDefault();
+    const resetAt = TimeZone.startOfDay(CalendarDate.addDays(period.end, 1), timeZone);
+    return this.formatDuration(Math.max(0, (resetAt.getTime() - this.dependencies.clock.now().getTime()) / 60000));
+  }
+
+  private hasPeriodEnd(config: Config): boolean {
+    if (config.period?.type === "rolling") {
+      this.dependencies.logger.info("ローリング期間では月末予測・日割り予算を評価しません", {
+        component: 'usage-checker'
+      });
+      return false;
+    }
+    return true;
+  }
+
+  private forecastMonthEnd(daily: DailyUsage[], period: PeriodRange, currentCost: number): CostForecast | undefined {
+    const { clock, logger } = this.dependencies;
+
+    const forecast = this.forecaster.forecast(daily, period, clock.getToday(), currentCost);
+    if (!forecast) {
+      logger.info("月末予測に必要な日次データが不足しています", { component: 'usage-checker' });
+      return undefined;
+    }
+
+    logger.info(this.formatForecastRange(forecast), {
+      component: 'usage-checker',
+      projectedTotal: forecast.projectedTotal,
+      lowerBound: forecast.lowerBound,
+      upperBound: forecast.upperBound
+    });
+    return forecast;
+  }
+
+  private evaluatePacing(
+    config: Config,
+    daily: DailyUsage[],
+    period: PeriodRange,
+    currentCost: number
+  ): PacingStatus | undefined {
+    const { clock, logger } = this.dependencies;
+    const today = clock.getToday();
+    const todayCost = daily
+      .filter(day => day.date === today)
+      .reduce((sum, day) => sum + day.totalCost, 0);
+
+    const pacing = this.pacer.evaluate(config.pacing!, config.threshold, currentCost, todayCost, today, period.end);
+    if (!pacing) {
+      logger.info("本日は営業日ではないため日割り予算を評価しません", { component: 'usage-checker' });
+      return undefined;
+    }
+
+    logger.info(`本日のコスト: $${todayCost.toFixed(2)} (日割り予算: $${pacing.dailyBudget.toFixed(2)})`, {
+      component: 'usage-checker',
+      todayCost,
+      dailyBudget: pacing.dailyBudget,
+      remainingDays: pacing.remainingDays
+    });
+    return pacing;
+  }
+
+  // 状態は常に記録するが、遷移の通知に失敗した場合は次回再試行できるよう前回の状態を残す
+  private async trackThresholdStatus(
+    config: Config,
+    state: DaemonState,
+    newState: DaemonState,
+    period: string,
+    cost: number,
+    usage?: MonthlyUsage
+  ): Promise<{ newState: DaemonState; notificationSent: boolean }> {
+    const { clock, logger } = this.dependencies;
+    const change = this.statusTracker.update(
+      state.thresholdStatus, period, cost > config.threshold, clock.now().toISOString()
+    );
+    // ローリング期間には区切りが無いため、期間の切り替えとして扱わない
+    const periodReset = change.transition === "period-reset" && config.period?.type !== "rolling";
+
+    if (change.transition === "recovered") {
+      logger.info(`${period}のコストが閾値内に戻りました`, {
+        component: 'usage-checker',
+        cost,
+        threshold: config.threshold
+      });
+    } else if (periodReset) {
+      logger.info(`新しい期間(${period})が始まりました`, {
+        component: 'usage-checker',
+        previousPeriod: change.previous?.period,
+        previousStatus: change.previous?.status
+      });
+    }
+
+    // 通知先が無い場合は送信を試みず状態だけ進める（毎回のチェックで遷移が記録され続けないように）
+    let notificationSent = false;
+    const shouldNotify =
+      (change.transition === "recovered" && config.notifyRecovery) ||
+      (periodReset && config.notifyPeriodReset);
+    if (shouldNotify && this.hasTarget(config)) {
+      // 使用データが無い期間はコスト0・モデル無しとして送る
+      const notificationUsage: NotificationUsage = usage
+        ? this.notificationUsage(usage, config.threshold)
+        : { cost, threshold: config.threshold, month: period, models: [] };
+      const sent = change.transition === "recovered"
+        ? await this.sendNotification(
+            config, this.formatRecoveryMessage(period, cost, config.threshold, notificationUsage), "recovery"
+          )
+        : await this.sendNotification(
+            config,
+            this.formatPeriodResetMessage(change.previous!, period, cost, config.threshold, notificationUsage),
+            "period-reset"
+          );
+      if (!sent) {
+        return { newState, notificationSent: false };
+      }
+      notificationSent = true;
+    }
+
+    return { newState: { ...newState, thresholdStatus: change.current }, notificationSent };
+  }
+
+  private hasTarget(config: Config): boolean {
+    return Boolean(this.threadChannel(config) || this.targetResolver.destination(config));
+  }
+
+  private async evaluateWeeklyLimits(config: Config): Promise<WeeklyLimitStatus | undefined> {
+    const { clock, logger } = this.dependencies;
+    const limits = config.weekly!;
+    const timeZone = limits.timezone ?? config.timezone ?? TimeZone.systemDefault();
+    const now = clock.now();
+
+    const week = this.weeklyEvaluator.currentWeek(limits, now, timeZone);
+    const daily = await this.fetchDaily(week.start, true);
+    if (!daily) {
+      return undefined;
+    }
+
+    const status = this.weeklyEvaluator.evaluate(daily, limits, now, timeZone);
+    logger.info(
+      `今週 (${status.week.key}) のコスト: $${status.cost.toFixed(2)} / ${TokenAmount.format(status.tokens)} tokens (リセットまで: ${this.formatDuration(status.resetInMinutes)})`,
+      {
+        component: 'usage-checker',
+        week: status.week.key,
+        cost: status.cost,
+        tokens: status.tokens,
+        resetAt: status.resetAt.toISOString()
+      }
+    );
+    return status;
+  }
+
+  private async detectAnomaly(settings: AnomalyDetection): Promise<AnomalyReport | undefined> {
+    const { clock, logger } = this.dependencies;
+    const today = clock.getToday();
+
+    const daily = await this.fetchDaily(CalendarDate.addDays(today, -settings.lookbackDays), true);
+    if (!daily) {
+      return undefined;
+    }
+
+    const report = this.anomalyDetector.detect(daily, today, settings.lookbackDays, settings.threshold);
+    if (!report) {
+      logger.info("異常検知に必要な使用履歴がありません", { component: 'usage-checker' });
+      return undefined;
+    }
+
+    logger.info(`本日のコスト: $${report.cost.toFixed(2)} (過去${report.historyDays}日間の中央値: $${report.median.toFixed(2)}, スコア: ${report.score.toFixed(1)})`, {
+      component: 'usage-checker',
+      cost: report.cost,
+      median: report.median,
+      mad: report.mad,
+      score: report.score,
+      outlierDays: report.outliers.length
+    });
+    return report;
+  }
+
+  private async evaluateSessionBlock(config: Config): Promise<SessionBlockStatus | undefined> {
+    const { clock, logger, usageRepository } = this.dependencies;
+
+    const blocksResult = await this.safeExecute(
+      () => usageRepository.fetchBlocksData(true),
+      "ブロックデータの取得に失敗しました"
+    );
+    if (ResultUtils.isFailure(blocksResult)) {
+      logger.warn("5時間ブロックの評価をスキップします", {
+        component: 'usage-checker',
+        error: blocksResult.error.message
+      });
+      return undefined;
+    }
+
+    const block = this.blockEvaluator.findActive(blocksResult.data.blocks);
+    if (!block) {
+      logger.info("アクティブな5時間ブロックはありません", { component: 'usage-checker' });
+      return undefined;
+    }
+
+    const status = this.blockEvaluator.evaluate(block, config.blocks!, clock.now());
+    logger.info(
+      `アクティブブロック ${this.formatBlockRange(status, config)}: $${status.cost.toFixed(2)} / ${TokenAmount.format(status.tokens)} tokens (経過: ${this.formatMinutes(status.elapsedMinutes)})`,
+      {
+        component: 'usage-checker',
+        blockId: status.blockId,
+        cost: status.cost,
+        tokens: status.tokens,
+        projectedCost: status.projectedCost,
+        projectedTokens: status.projectedTokens
+      }
+    );
+    return status;
   }
 
   private async fetchUsageData() {
@@ -138,39 +956,368 @@ export class CheckUsageCommand extends BaseCommand<CheckUsageInput, CheckUsageOu
     );
   }
 
-  private shouldSendNotification(state: DaemonState, exceeded: boolean): boolean {
-    if (!exceeded) {
-      return false;
+  private formatNextAlert(config: Config, nextAlertAt?: string, nextAlertCost?: number): string {
+    if (nextAlertAt) {
+      const timeZone = config.timezone ?? TimeZone.systemDefault();
+      const date = new Date(nextAlertAt);
+      return `次回通知可能: ${TimeZone.formatDate(date, timeZone)} ${TimeZone.formatTime(date, timeZone)}`;
+    }
+    if (nextAlertCost !== undefined) {
+      return `次回通知: コストが$${nextAlertCost.toFixed(2)}を超えた時点`;
     }
+    return "次回通知: 次の期間";
+  }
 
-    const today = this.dependencies.clock.getToday();
-    
-    // 今日既に通知済みの場合はスキップ
-    if (state.lastNotificationDate === today) {
-      return false;
+  private formatStatusMessage(config: Config, period: string, cost: number): NotificationMessage {
+    const { clock } = this.dependencies;
+    const timeZone = config.timezone ?? TimeZone.systemDefault();
+    const exceeded = cost > config.threshold;
+
+    return {
+      icon: exceeded ? "🔴" : "🟢",
+      title: "Claude Code使用状況",
+      severity: exceeded ? this.thresholdSeverity(cost, config.threshold) : "info",
+      heading: `${period}の使用状況`,
+      fields: [
+        { label: "現在のコスト", value: `$${cost.toFixed(2)}` },
+        { label: "設定閾値", value: `$${config.threshold.toFixed(2)}` },
+        exceeded
+          ? { label: "状態", value: `超過中（超過額: $${(cost - config.threshold).toFixed(2)}）` }
+          : { label: "状態", value: `閾値内（残り予算: $${(config.threshold - cost).toFixed(2)}）` },
+        { label: "最終更新", value: `${TimeZone.formatDate(clock.now(), timeZone)} ${TimeZone.formatTime(clock.now(), timeZone)}` }
+      ],
+      progress: { label: "閾値に対する割合", current: cost, limit: config.threshold },
+      footer: "このメッセージはチェックのたびに更新されます。"
+    };
+  }
+
+  private formatCostMessage(
+    usage: MonthlyUsage,
+    threshold: number,
+    tierStatus?: AlertTierStatus,
+    forecast?: CostForecast,
+    resetIn?: string
+  ): NotificationMessage {
+    const excess = usage.totalCost - threshold;
+    const models = usage.modelsUsed.length > 0 ? usage.modelsUsed.join(", ") : "不明";
+    const tier = tierStatus?.current;
+
+    let icon = "🚨";
+    let title = "Claude Code使用料金が閾値を超過しました";
+    if (tier) {
+      icon = SEVERITY_ICONS[tier.severity];
+      if (tier.message) {
+        title = tier.message;
+      } else if (excess <= 0 || tier.percent >= 100) {
+        // 100%未満のティアしか無い状態で超過した場合は超過のタイトルのままにする
+        title = `Claude Code使用料金が閾値の${tier.percent}%に到達しました`;
+      }
     }
 
-    // 前回の超過日と異なる日に超過している場合は通知
-    if (state.lastExceedanceDate !== today) {
-      return true;
+    const fields: NotificationField[] = [];
+    if (tier) {
+      fields.push({ label: "到達ティア", value: `${tier.percent}% ($${this.tierEvaluator.tierAmount(threshold, tier).toFixed(2)}, ${tier.severity})` });
+    }
+    fields.push({ label: "現在のコスト", value: `$${usage.totalCost.toFixed(2)}` });
+    fields.push({ label: "設定閾値", value: `$${threshold.toFixed(2)}` });
+    fields.push(excess > 0
+      ? { label: "超過額", value: `$${excess.toFixed(2)}` }
+      : { label: "残り予算", value: `$${(-excess).toFixed(2)}` });
+    if (tierStatus) {
+      fields.push({
+        label: "次のティア",
+        value: tierStatus.next && tierStatus.amountToNext !== undefined
+          ? `${tierStatus.next.percent}% ($${this.tierEvaluator.tierAmount(threshold, tierStatus.next).toFixed(2)}) まで残り $${tierStatus.amountToNext.toFixed(2)}`
+          : "なし（最終ティアに到達済み）"
+      });
+    }
+    if (forecast) {
+      fields.push({ label: "月末予測", value: this.formatForecastAmount(forecast) });
+    }
+    if (resetIn) {
+      fields.push({ label: "リセットまで", value: resetIn });
     }
+    fields.push({ label: "使用モデル", value: models });
 
-    // 同日内での初回通知の場合
-    return state.lastNotificationDate !== today;
+    const sortedModels = [...usage.modelBreakdowns].sort((a, b) => b.cost - a.cost);
+    const breakdown = sortedModels
+      .map(model => `• ${model.model}: $${model.cost.toFixed(2)}` +
+        (usage.totalCost > 0 ? ` (${Math.round((model.cost / usage.totalCost) * 100)}%)` : ""));
+
+    return {
+      icon,
+      title,
+      severity: this.thresholdSeverity(usage.totalCost, threshold, tierStatus),
+      heading: `${usage.month}の使用状況`,
+      fields,
+      progress: { label: "閾値に対する割合", current: usage.totalCost, limit: threshold },
+      ...(breakdown.length > 0 && { sections: [{ title: "🤖 モデル別内訳", lines: breakdown }] }),
+      footer: "適切な使用量管理をお願いします。",
+      usage: this.notificationUsage(usage, threshold)
+    };
   }
 
-  private formatCostMessage(usage: any, threshold: number): string {
-    const excess = usage.totalCost - threshold;
+  // テンプレートで送信する送信先向けの元の数値（モデルはコストの高い順）
+  private notificationUsage(usage: MonthlyUsage, threshold: number): NotificationUsage {
+    return {
+      cost: usage.totalCost,
+      threshold,
+      month: usage.month,
+      models: [...usage.modelBreakdowns]
+        .sort((a, b) => b.cost - a.cost)
+        .map(model => ({ model: model.model, cost: model.cost }))
+    };
+  }
+
+  private formatForecastMessage(usage: MonthlyUsage, threshold: number, forecast: CostForecast): NotificationMessage {
     const models = usage.modelsUsed.length > 0 ? usage.modelsUsed.join(", ") : "不明";
-    
-    return `🚨 *Claude Code使用料金が閾値を超過しました* 🚨
 
-📊 **${usage.month}の使用状況**
-• 現在のコスト: $${usage.totalCost.toFixed(2)}
-• 設定閾値: $${threshold.toFixed(2)}
-• 超過額: $${excess.toFixed(2)}
-• 使用モデル: ${models}
+    return {
+      icon: "📈",
+      title: "Claude Code使用料金が月末に閾値を超過する見込みです",
+      severity: "warning",
+      heading: `${usage.month}の使用状況`,
+      fields: [
+        { label: "現在のコスト", value: `$${usage.totalCost.toFixed(2)}` },
+        { label: "設定閾値", value: `$${threshold.toFixed(2)}` },
+        { label: "月末予測", value: this.formatForecastAmount(forecast) },
+        { label: "予測超過額", value: `$${(forecast.projectedTotal - threshold).toFixed(2)}` },
+        { label: "月末までの残り日数", value: `${forecast.daysRemaining}日` },
+        { label: "使用モデル", value: models }
+      ],
+      footer: "使用ペースの見直しをご検討ください。",
+      usage: this.notificationUsage(usage, threshold)
+    };
+  }
 
-適切な使用量管理をお願いします。`;
+  private formatModelMessage(usage: MonthlyUsage, threshold: number, statuses: ModelBudgetStatus[]): NotificationMessage {
+    const nameWidth = Math.max(8, ...statuses.map(status => status.model.length));
+    const header = `${"Model".padEnd(nameWidth)}  ${"Cost".padStart(10)}  ${"Limit".padStart(10)}  Status`;
+    const rows = statuses.map(status =>
+      `${status.model.padEnd(nameWidth)}  ${`$${status.cost.toFixed(2)}`.padStart(10)}  ${`$${status.threshold.toFixed(2)}`.padStart(10)}  ${status.exceeded ? "超過" : "OK"}`
+    );
+
+    return {
+      icon: "🚨",
+      title: "Claude Codeのモデル別使用料金が閾値を超過しました",
+      severity: "critical",
+      heading: `${usage.month}のモデル別使用状況`,
+      fields: [{ label: "合計コスト", value: `$${usage.totalCost.toFixed(2)} (閾値: $${threshold.toFixed(2)})` }],
+      sections: [{ title: "🤖 モデル別閾値", lines: ["```", header, ...rows, "```"] }],
+      footer: "適切な使用量管理をお願いします。",
+      usage: this.notificationUsage(usage, threshold)
+    };
   }
-}
\ No newline at end of file
+
+  private formatTokenMessage(usage: MonthlyUsage, threshold: number, statuses: TokenQuotaStatus[]): NotificationMessage {
+    const fields: NotificationField[] = statuses.map(status => ({
+      label: TOKEN_TYPE_LABELS[status.type],
+      value: `${TokenAmount.format(status.used)} / ${TokenAmount.format(status.limit)} tokens${status.exceeded ? " (超過)" : ""}`
+    }));
+    fields.push({ label: "現在のコスト", value: `$${usage.totalCost.toFixed(2)} (閾値: $${threshold.toFixed(2)})` });
+
+    return {
+      icon: "🚨",
+      title: "Claude Codeのトークン使用量が上限を超過しました",
+      severity: "critical",
+      heading: `${usage.month}のトークン使用状況`,
+      fields,
+      footer: "適切な使用量管理をお願いします。",
+      usage: this.notificationUsage(usage, threshold)
+    };
+  }
+
+  private formatPacingMessage(usage: MonthlyUsage, threshold: number, pacing: PacingStatus): NotificationMessage {
+    const dayLabel = pacing.mode === "workdays" ? "営業日" : "日";
+
+    return {
+      icon: "⏱️",
+      title: "本日のClaude Code使用料金が日割り予算を超過しました",
+      severity: "warning",
+      heading: `${pacing.date}の使用状況`,
+      fields: [
+        { label: "本日のコスト", value: `$${pacing.todayCost.toFixed(2)}` },
+        {
+          label: "本日の予算",
+          value: `$${pacing.dailyBudget.toFixed(2)} (残り予算 $${pacing.remainingBudget.toFixed(2)} ÷ 残り${pacing.remainingDays}${dayLabel})`
+        },
+        { label: "超過額", value: `$${(pacing.todayCost - pacing.dailyBudget).toFixed(2)}` },
+        { label: `${usage.month}の累計`, value: `$${usage.totalCost.toFixed(2)} / $${threshold.toFixed(2)}` }
+      ],
+      footer: "使用ペースの見直しをご検討ください。",
+      usage: this.notificationUsage(usage, threshold)
+    };
+  }
+
+  private formatRecoveryMessage(period: string, cost: number, threshold: number, usage: NotificationUsage): NotificationMessage {
+    return {
+      icon: "✅",
+      title: "Claude Codeの使用量が閾値内に戻りました",
+      severity: "info",
+      heading: `${period}の使用状況`,
+      fields: [
+        { label: "現在のコスト", value: `$${cost.toFixed(2)}` },
+        { label: "閾値", value: `$${threshold.toFixed(2)}` },
+        { label: "残り", value: `$${(threshold - cost).toFixed(2)}` }
+      ],
+      footer: "引き続き使用状況を監視します。",
+      usage
+    };
+  }
+
+  private formatPeriodResetMessage(
+    previous: ThresholdStatusState,
+    period: string,
+    cost: number,
+    threshold: number,
+    usage: NotificationUsage
+  ): NotificationMessage {
+    const previousStatus = previous.status === "exceeded" ? "閾値超過" : "閾値内";
+    const balance = cost > threshold
+      ? `超過: $${(cost - threshold).toFixed(2)}`
+      : `残り: $${(threshold - cost).toFixed(2)}`;
+
+    return {
+      icon: "🔄",
+      title: "新しい集計期間が始まりました",
+      severity: cost > threshold ? this.thresholdSeverity(cost, threshold) : "info",
+      heading: `${period}の使用状況`,
+      fields: [
+        { label: `前の期間 (${previous.period})`, value: previousStatus },
+        { label: "現在のコスト", value: `$${cost.toFixed(2)}` },
+        { label: "閾値", value: `$${threshold.toFixed(2)} (${balance})` }
+      ],
+      footer: "使用状況の監視を継続します。",
+      usage
+    };
+  }
+
+  private formatWeeklyMessage(status: WeeklyLimitStatus, config: Config, usage?: NotificationUsage): NotificationMessage {
+    const limits = config.weekly!;
+    const timeZone = limits.timezone ?? config.timezone ?? TimeZone.systemDefault();
+    const resetAt = `${TimeZone.formatDate(status.resetAt, timeZone)} ${TimeZone.formatTime(status.resetAt, timeZone)}`;
+
+    const fields: NotificationField[] = [];
+    if (limits.costLimit !== undefined) {
+      fields.push({
+        label: "コスト",
+        value: `$${status.cost.toFixed(2)} (上限: $${limits.costLimit.toFixed(2)})${status.exceeded.includes("cost") ? " 超過" : ""}`
+      });
+    }
+    if (limits.tokenLimit !== undefined) {
+      fields.push({
+        label: "トークン",
+        value: `${TokenAmount.format(status.tokens)} (上限: ${TokenAmount.format(limits.tokenLimit)})${status.exceeded.includes("tokens") ? " 超過" : ""}`
+      });
+    }
+    fields.push({ label: "リセットまで", value: `${this.formatDuration(status.resetInMinutes)} (${resetAt})` });
+
+    return {
+      icon: "📅",
+      title: "Claude Codeの週間使用量が上限を超過しました",
+      severity: "critical",
+      heading: `今週 (${status.week.key}) の使用状況`,
+      fields,
+      footer: "使用ペースの見直しをご検討ください。",
+      ...(usage && { usage })
+    };
+  }
+
+  private formatAnomalyMessage(settings: AnomalyDetection, anomaly: AnomalyReport, usage?: NotificationUsage): NotificationMessage {
+    const fields: NotificationField[] = [
+      { label: "本日のコスト", value: `$${anomaly.cost.toFixed(2)}` },
+      { label: `過去${anomaly.historyDays}日間の中央値`, value: `$${anomaly.median.toFixed(2)} (MAD: $${anomaly.mad.toFixed(2)})` },
+      { label: "異常スコア", value: `${anomaly.score.toFixed(1)} (基準: ${settings.threshold.toFixed(1)})` }
+    ];
+    if (anomaly.outliers.length > 0) {
+      const outliers = anomaly.outliers.map(day => `${day.date} ($${day.cost.toFixed(2)})`).join(", ");
+      fields.push({ label: `過去${anomaly.historyDays}日間の外れ値`, value: outliers });
+    }
+
+    return {
+      icon: "🔍",
+      title: "本日のClaude Code使用料金が通常と比べて異常に高くなっています",
+      severity: "warning",
+      heading: `${anomaly.date}の使用状況`,
+      fields,
+      footer: "想定外の使用が無いかご確認ください。",
+      ...(usage && { usage })
+    };
+  }
+
+  private formatBurnRateMessage(
+    config: Config,
+    period: string,
+    cost: number,
+    burnRate: BurnRateStatus,
+    usage?: NotificationUsage
+  ): NotificationMessage {
+    return {
+      icon: "🔥",
+      title: "Claude Codeの使用ペースが急上昇しています",
+      severity: "warning",
+      heading: `直近${this.formatMinutes(burnRate.elapsedMinutes)}の使用状況`,
+      fields: [
+        {
+          label: "消費ペース",
+          value: `$${burnRate.costPerHour.toFixed(2)}/時間 (上限: $${config.burnRate!.costPerHour.toFixed(2)}/時間)`
+        },
+        { label: "増加額", value: `$${burnRate.costDelta.toFixed(2)}` },
+        { label: `${period}の累計`, value: `$${cost.toFixed(2)} / $${config.threshold.toFixed(2)}` }
+      ],
+      footer: "暴走しているエージェントやループ処理が無いかご確認ください。",
+      ...(usage && { usage })
+    };
+  }
+
+  private formatBlockMessage(status: SessionBlockStatus, config: Config, usage?: NotificationUsage): NotificationMessage {
+    const limits = config.blocks!;
+    const exceeded = status.triggered.includes("cost") || status.triggered.includes("tokens");
+    const title = exceeded
+      ? "Claude Codeの5時間ブロックが上限を超過しました"
+      : "Claude Codeの5時間ブロックがブロック終了までに上限を超過する見込みです";
+    const models = status.models.length > 0 ? status.models.join(", ") : "不明";
+
+    return {
+      icon: "⏳",
+      title,
+      severity: exceeded ? "critical" : "warning",
+      heading: `アクティブブロック (${this.formatBlockRange(status, config)})`,
+      fields: [
+        { label: "経過時間", value: `${this.formatMinutes(status.elapsedMinutes)} (残り: ${this.formatMinutes(status.remainingMinutes)})` },
+        { label: "コスト", value: `$${status.cost.toFixed(2)}${limits.costLimit !== undefined ? ` (上限: $${limits.costLimit.toFixed(2)})` : ""}` },
+        { label: "トークン", value: `${TokenAmount.format(status.tokens)}${limits.tokenLimit !== undefined ? ` (上限: ${TokenAmount.format(limits.tokenLimit)})` : ""}` },
+        { label: "ブロック終了時の予測", value: `$${status.projectedCost.toFixed(2)} / ${TokenAmount.format(status.projectedTokens)} tokens` },
+        { label: "使用モデル", value: models }
+      ],
+      footer: "使用ペースの見直しをご検討ください。",
+      ...(usage && { usage })
+    };
+  }
+
+  private formatBlockRange(status: SessionBlockStatus, config: Config): string {
+    const timeZone = config.timezone ?? TimeZone.systemDefault();
+    return `${TimeZone.formatTime(new Date(status.startTime), timeZone)}〜${TimeZone.formatTime(new Date(status.endTime), timeZone)}`;
+  }
+
+  // 1日以上は「X日Y時間」、それ未満は「X時間Y分」
+  private formatDuration(minutes: number): string {
+    const total = Math.floor(minutes);
+    const days = Math.floor(total / 1440);
+    return days > 0 ? `${days}日${Math.floor((total % 1440) / 60)}時間` : this.formatMinutes(total);
+  }
+
+  private formatMinutes(minutes: number): string {
+    const total = Math.floor(minutes);
+    const hours = Math.floor(total / 60);
+    return hours > 0 ? `${hours}時間${total % 60}分` : `${total}分`;
+  }
+
+  private formatForecastRange(forecast: CostForecast): string {
+    return `月末予測: ${this.formatForecastAmount(forecast)}`;
+  }
+
+  private formatForecastAmount(forecast: CostForecast): string {
+    return `$${forecast.projectedTotal.toFixed(2)} (95%範囲: $${forecast.lowerBound.toFixed(2)}〜$${forecast.upperBound.toFixed(2)})`;
+  }
+}
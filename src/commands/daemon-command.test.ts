@@ -5,6 +5,7 @@ import { MockLogger } from "../infrastructure/logger.ts";
 import { MemoryStateRepository } from "../infrastructure/state-repository.ts";
 import { MockUsageRepository } from "../infrastructure/usage-repository.ts";
 import { MockNotificationService } from "../infrastructure/notification-service.ts";
+import { MockProcessManager } from "../infrastructure/process-manager.ts";
 import { ResultUtils } from "../utils/result.ts";
 
 describe("DaemonCommand", () => {
@@ -190,7 +191,7 @@ describe("DaemonCommand", () => {
         threshold: 50,
         daemon: true,
         interval: 3600,
-        slackWebhookUrl: undefined
+        webhookUrl: undefined
       }
     };
     
@@ -211,6 +212,36 @@ describe("DaemonCommand", () => {
     expect((command as any).checkCount).toBe(0);
   });
 
+  test("前回のチェックが実行中の場合は次のチェックをスキップ", async () => {
+    vi.useFakeTimers();
+    const daemon = new DaemonCommand(mockDependencies, mockLogger, new MockProcessManager(mockLogger));
+    try {
+      daemon.execute({ config: { threshold: 100, daemon: true, interval: 60 } });
+      await vi.advanceTimersByTimeAsync(0);
+
+      let finishCheck!: () => void;
+      const fetchUsageData = vi.spyOn(mockDependencies.usageRepository, "fetchUsageData").mockImplementation(
+        () => new Promise(resolve => {
+          finishCheck = () => resolve({ monthly: [], totals: { totalCost: 0 } });
+        })
+      );
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(fetchUsageData).toHaveBeenCalledTimes(1);
+      expect(mockLogger.hasLog("warn", "前回のチェックが実行中のため今回のチェックをスキップします")).toBe(true);
+
+      finishCheck();
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(fetchUsageData).toHaveBeenCalledTimes(2);
+    } finally {
+      daemon.forceShutdown();
+      vi.useRealTimers();
+    }
+  });
+
   test("エラーメッセージ定数", () => {
     // BaseCommandから継承されるエラーメッセージが適切に設定されているかテスト
     const mockCommand = new DaemonCommand(mockDependencies, mockLogger);
@@ -1,5 +1,7 @@
 import { BaseCommand } from "./base-command.ts";
 import { CheckUsageCommand } from "./check-usage-command.ts";
+import { DigestCommand } from "./digest-command.ts";
+import { MonthlySummaryCommand } from "./monthly-summary-command.ts";
 import type { CheckUsageDependencies } from "./check-usage-command.ts";
 import type { Config, Result, DaemonState, Logger } from "../core/interfaces.ts";
 import { ResultUtils } from "../utils/result.ts";
@@ -14,10 +16,17 @@ export interface DaemonOutput {
   checkCount: number;
 }
 
+interface ReportCommands {
+  digest: DigestCommand;
+  summary: MonthlySummaryCommand;
+}
+
 export class DaemonCommand extends BaseCommand<DaemonInput, DaemonOutput> {
   private isShuttingDown = false;
   private intervalId: Timer | null = null;
   private checkCount = 0;
+  // 前回のチェックが実行中かどうか（チェック処理は1回の実行中の状態をインスタンスに保持するため重ねて実行しない）
+  private isChecking = false;
   private processManager: ProcessManager;
 
   constructor(
@@ -54,16 +63,20 @@ export class DaemonCommand extends BaseCommand<DaemonInput, DaemonOutput> {
 
       // 初回実行
       const checkUsageCommand = new CheckUsageCommand(this.dependencies);
+      const reportCommands: ReportCommands = {
+        digest: new DigestCommand(this.dependencies),
+        summary: new MonthlySummaryCommand(this.dependencies)
+      };
       const firstResult = await checkUsageCommand.execute({ config, state: currentState });
       
       if (ResultUtils.isSuccess(firstResult)) {
-        currentState = firstResult.data.newState;
+        currentState = await this.sendScheduledReports(config, firstResult.data.newState, reportCommands);
         await this.dependencies.stateRepository.save(currentState);
         this.checkCount++;
       }
 
       // 定期実行開始
-      await this.startPeriodicChecks(config, currentState, checkUsageCommand);
+      await this.startPeriodicChecks(config, currentState, checkUsageCommand, reportCommands);
 
       return {
         finalState: currentState,
@@ -75,7 +88,8 @@ export class DaemonCommand extends BaseCommand<DaemonInput, DaemonOutput> {
   private async startPeriodicChecks(
     config: Config, 
     initialState: DaemonState,
-    checkUsageCommand: CheckUsageCommand
+    checkUsageCommand: CheckUsageCommand,
+    reportCommands: ReportCommands
   ): Promise<void> {
     let currentState = initialState;
 
@@ -87,12 +101,21 @@ export class DaemonCommand extends BaseCommand<DaemonInput, DaemonOutput> {
           return;
         }
 
+        if (this.isChecking) {
+          this.logger.warn("前回のチェックが実行中のため今回のチェックをスキップします", {
+            component: 'daemon',
+            checkCount: this.checkCount
+          });
+          return;
+        }
+
+        this.isChecking = true;
         try {
           const result = await checkUsageCommand.execute({ config, state: currentState });
           
           if (ResultUtils.isSuccess(result)) {
             // 古い状態参照をクリアしてメモリ使用量を最小化
-            currentState = result.data.newState;
+            currentState = await this.sendScheduledReports(config, result.data.newState, reportCommands);
             await this.dependencies.stateRepository.save(currentState);
             this.checkCount++;
 
@@ -122,11 +145,48 @@ export class DaemonCommand extends BaseCommand<DaemonInput, DaemonOutput> {
             component: 'daemon',
             checkCount: this.checkCount
           });
+        } finally {
+          this.isChecking = false;
         }
       }, config.interval * 1000);
     });
   }
 
+  // 定期レポート・月次サマリーは送信時刻を過ぎた最初のチェックで送信する。失敗しても監視は継続する
+  private async sendScheduledReports(
+    config: Config,
+    state: DaemonState,
+    reportCommands: ReportCommands
+  ): Promise<DaemonState> {
+    let currentState = state;
+
+    if (config.digests && config.digests.length > 0) {
+      const result = await reportCommands.digest.execute({ config, state: currentState });
+      if (ResultUtils.isSuccess(result)) {
+        currentState = result.data.newState;
+      } else {
+        this.logger.error("定期レポートの送信でエラーが発生しました", {
+          error: result.error.message,
+          component: 'daemon'
+        });
+      }
+    }
+
+    if (config.monthlySummary) {
+      const result = await reportCommands.summary.execute({ config, state: currentState });
+      if (ResultUtils.isSuccess(result)) {
+        currentState = result.data.newState;
+      } else {
+        this.logger.error("月次サマリーの送信でエラーが発生しました", {
+          error: result.error.message,
+          component: 'daemon'
+        });
+      }
+    }
+
+    return currentState;
+  }
+
   private async setupGracefulShutdown(): Promise<void> {
     const shutdown = async () => {
       if (this.isShuttingDown) return;
@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { DigestCommand } from "./digest-command.ts";
+import { MockClock } from "../infrastructure/clock.ts";
+import { MockLogger } from "../infrastructure/logger.ts";
+import { MemoryStateRepository } from "../infrastructure/state-repository.ts";
+import { MockUsageRepository } from "../infrastructure/usage-repository.ts";
+import { MockNotificationService } from "../infrastructure/notification-service.ts";
+import { MockThreadedNotificationService } from "../infrastructure/slack-web-api.ts";
+import { ResultUtils } from "../utils/result.ts";
+
+describe("DigestCommand", () => {
+  let command: DigestCommand;
+  let mockDependencies: any;
+
+  const digestConfig = {
+    threshold: 100,
+    daemon: true,
+    interval: 3600,
+    webhookUrl: "https://hooks.slack.com/test",
+    timezone: "UTC",
+    digests: [
+      { kind: "daily" as const, minute: 9 * 60 },
+      { kind: "weekly" as const, minute: 9 * 60, day: 1 }
+    ]
+  };
+
+  // 前回の送信予定日に送信済みの状態
+  const previousState = { lastDigestDates: { daily: "2025-07-14", weekly: "2025-07-07" } };
+
+  beforeEach(() => {
+    // 6/15〜7/15は毎日$2
+    const daily = Array.from({ length: 31 }, (_, i) => ({
+      date: new Date(Date.UTC(2025, 5, 15 + i)).toISOString().split('T')[0]!,
+      totalCost: 2,
+      modelsUsed: ["claude-sonnet-4-20250514"],
+      modelBreakdowns: [{ model: "claude-sonnet-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 2 }]
+    }));
+    const usageRepository = new MockUsageRepository({ monthly: [], totals: { totalCost: 0 } });
+    usageRepository.setMockDailyData({ daily, totals: { totalCost: 62 } });
+
+    mockDependencies = {
+      clock: new MockClock(new Date("2025-07-15T12:00:00Z")),
+      logger: new MockLogger(),
+      stateRepository: new MemoryStateRepository(),
+      usageRepository,
+      notificationService: new MockNotificationService()
+    };
+
+    command = new DigestCommand(mockDependencies);
+  });
+
+  test("送信時刻を過ぎたレポートを送信して送信日を記録する", async () => {
+    const result = await command.execute({ config: digestConfig, state: previousState });
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.sent).toEqual(["daily", "weekly"]);
+      expect(result.data.newState.lastDigestDates).toEqual({ daily: "2025-07-15", weekly: "2025-07-14" });
+    }
+
+    const [dailyMessage, weeklyMessage] = mockDependencies.notificationService.sentMessages;
+    expect(dailyMessage.type).toBe("digest");
+    expect(dailyMessage.message).toContain("Claude Code 日次レポート (2025-07-14)");
+    expect(dailyMessage.message).toContain("• 昨日のコスト: $2.00 (前日比: +0.0%)");
+    expect(dailyMessage.message).toContain("• 今月の累計: $28.00 (先月同期間: $0.00、比較データなし)");
+    expect(dailyMessage.message).toContain("• 上位モデル: claude-sonnet-4-20250514 $28.00 (100%)");
+    expect(weeklyMessage.message).toContain("Claude Code 週次レポート (2025-07-08〜2025-07-14)");
+    expect(weeklyMessage.message).toContain("• 7日間のコスト: $14.00");
+  });
+
+  test("閾値を超過していなくても送信する", async () => {
+    const result = await command.execute({ config: { ...digestConfig, threshold: 1000 }, state: previousState });
+
+    expect(ResultUtils.isSuccess(result) && result.data.sent).toEqual(["daily", "weekly"]);
+    expect(mockDependencies.notificationService.getLastMessage()?.message).toContain("• 設定閾値: $1000.00");
+  });
+
+  test("送信済みのレポートは再送しない", async () => {
+    const state = { lastDigestDates: { daily: "2025-07-15", weekly: "2025-07-14" } };
+
+    const result = await command.execute({ config: digestConfig, state });
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.sent).toEqual([]);
+      expect(result.data.newState).toBe(state);
+    }
+    expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+  });
+
+  test("初回起動時は送信せず次の送信時刻から送信する", async () => {
+    const first = await command.execute({ config: digestConfig, state: {} });
+
+    expect(ResultUtils.isSuccess(first)).toBe(true);
+    if (!ResultUtils.isSuccess(first)) return;
+    expect(first.data.sent).toEqual([]);
+    expect(first.data.newState.lastDigestDates).toEqual({ daily: "2025-07-15", weekly: "2025-07-14" });
+    expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+
+    mockDependencies.clock.setTime(new Date("2025-07-16T09:00:00Z"));
+    const next = await command.execute({ config: digestConfig, state: first.data.newState });
+
+    expect(ResultUtils.isSuccess(next) && next.data.sent).toEqual(["daily"]);
+  });
+
+  test("後の種類の送信に失敗しても送信済みの種類は送信日を記録する", async () => {
+    vi.spyOn(mockDependencies.notificationService, "send")
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("Webhook request failed"));
+
+    const result = await command.execute({ config: digestConfig, state: previousState });
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.sent).toEqual(["daily"]);
+      expect(result.data.newState.lastDigestDates).toEqual({ daily: "2025-07-15", weekly: "2025-07-07" });
+    }
+    expect(mockDependencies.logger.hasLog("error", "週次レポートの送信に失敗しました")).toBe(true);
+  });
+
+  test("Webhook URL未設定時はスキップし送信日を記録しない", async () => {
+    const result = await command.execute({ config: { ...digestConfig, webhookUrl: undefined }, state: previousState });
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.newState.lastDigestDates).toEqual(previousState.lastDigestDates);
+    }
+    expect(mockDependencies.logger.hasLog("warn", "定期レポートをスキップします")).toBe(true);
+  });
+
+  test("ボットトークン設定時はSlack Web APIでチャンネルに送信する", async () => {
+    const threaded = new MockThreadedNotificationService();
+    command = new DigestCommand({ ...mockDependencies, threadedNotificationService: threaded });
+    const { webhookUrl: _url, ...config } = digestConfig;
+
+    const result = await command.execute({ config: { ...config, slackChannel: "C123" }, state: previousState });
+
+    expect(ResultUtils.isSuccess(result) && result.data.sent).toEqual(["daily", "weekly"]);
+    expect(threaded.posts.map(post => post.channel)).toEqual(["C123", "C123"]);
+    expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,125 @@
+import { BaseCommand } from "./base-command.ts";
+import type { CheckUsageDependencies } from "./check-usage-command.ts";
+import type { Config, DaemonState, DigestKind, Result } from "../core/interfaces.ts";
+import { DigestScheduler } from "../core/digest-schedule.ts";
+import { DigestReportBuilder, type DigestReport } from "../core/digest-report.ts";
+import { NotificationTargetResolver } from "../core/notification-target.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+import { TimeZone } from "../utils/time-zone.ts";
+
+export interface DigestInput {
+  config: Config;
+  state: DaemonState;
+}
+
+export interface DigestOutput {
+  newState: DaemonState;
+  sent: DigestKind[];
+}
+
+const DIGEST_LABELS: Record<DigestKind, string> = {
+  daily: "日次レポート",
+  weekly: "週次レポート"
+};
+
+// 閾値の超過に関わらず、設定した時刻に使用状況のレポートを送信する
+export class DigestCommand extends BaseCommand<DigestInput, DigestOutput> {
+  private scheduler = new DigestScheduler();
+  private reportBuilder = new DigestReportBuilder();
+  private targetResolver = new NotificationTargetResolver();
+  private messageFormatter = new NotificationMessageFormatter();
+
+  constructor(private dependencies: CheckUsageDependencies) {
+    super();
+  }
+
+  async execute(input: DigestInput): Promise<Result<DigestOutput>> {
+    return this.safeExecute(async () => {
+      const { config, state } = input;
+      const { clock, logger, notificationService, threadedNotificationService, usageRepository } = this.dependencies;
+      const timeZone = config.timezone ?? TimeZone.systemDefault();
+      const now = clock.now();
+
+      // 初回起動時は直近の送信予定日を送信済みとして扱い、次の送信時刻から送信を始める
+      let newState = state;
+      for (const schedule of config.digests ?? []) {
+        if (newState.lastDigestDates?.[schedule.kind] === undefined) {
+          newState = this.recordSent(newState, schedule.kind, this.scheduler.latestOccurrence(schedule, now, timeZone));
+        }
+      }
+
+      const due = (config.digests ?? []).filter(schedule =>
+        this.scheduler.isDue(schedule, newState.lastDigestDates?.[schedule.kind], now, timeZone)
+      );
+      if (due.length === 0) {
+        return { newState, sent: [] };
+      }
+
+      const target = this.targetResolver.resolve(config, notificationService, threadedNotificationService);
+      if (!target) {
+        logger.warn("CCWATCH_SLACK_WEBHOOK_URL環境変数が設定されていないため、定期レポートをスキップします", {
+          component: 'digest'
+        });
+        return { newState, sent: [] };
+      }
+
+      const today = clock.getToday();
+      const dailyData = await usageRepository.fetchDailyUsageData(this.reportBuilder.earliestDate(today));
+
+      // 種類ごとに送信日を記録し、後の種類の送信に失敗しても送信済みの種類を再送しない
+      const sent: DigestKind[] = [];
+      for (const schedule of due) {
+        const report = this.reportBuilder.build(schedule.kind, dailyData.daily, today);
+        try {
+          await target.service.send(this.formatDigestMessage(report, config), target.destination, "digest");
+        } catch (error) {
+          logger.error(`${DIGEST_LABELS[schedule.kind]}の送信に失敗しました`, {
+            component: 'digest',
+            kind: schedule.kind,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          continue;
+        }
+
+        logger.info(`${DIGEST_LABELS[schedule.kind]}を送信しました`, {
+          component: 'digest',
+          kind: schedule.kind,
+          window: report.window.key,
+          cost: report.windowCost
+        });
+        newState = this.recordSent(newState, schedule.kind, this.scheduler.latestOccurrence(schedule, now, timeZone));
+        sent.push(schedule.kind);
+      }
+
+      return { newState, sent };
+    }, "定期レポートの送信に失敗しました");
+  }
+
+  private recordSent(state: DaemonState, kind: DigestKind, date: string): DaemonState {
+    return { ...state, lastDigestDates: { ...state.lastDigestDates, [kind]: date } };
+  }
+
+  private formatDigestMessage(report: DigestReport, config: Config): string {
+    const lines: string[] = [];
+    if (report.kind === "daily") {
+      lines.push(`• 昨日のコスト: $${report.windowCost.toFixed(2)} (前日比: ${this.messageFormatter.changeRate(report.windowCost, report.previousWindowCost)})`);
+    } else {
+      lines.push(`• 7日間のコスト: $${report.windowCost.toFixed(2)} (前の7日間比: ${this.messageFormatter.changeRate(report.windowCost, report.previousWindowCost)})`);
+    }
+    lines.push(`• 今月の累計: $${report.monthToDate.toFixed(2)} (先月同期間: $${report.lastMonthSamePeriod.toFixed(2)}、${this.messageFormatter.changeRate(report.monthToDate, report.lastMonthSamePeriod)})`);
+    if (report.forecast) {
+      lines.push(`• 月末予測: $${report.forecast.projectedTotal.toFixed(2)} (範囲: $${report.forecast.lowerBound.toFixed(2)}〜$${report.forecast.upperBound.toFixed(2)})`);
+    }
+    lines.push(`• 設定閾値: $${config.threshold.toFixed(2)}`);
+    lines.push(report.topModels.length > 0
+      ? `• 上位モデル: ${report.topModels.map(model => `${model.model} $${model.cost.toFixed(2)} (${Math.round(model.share * 100)}%)`).join(", ")}`
+      : `• 上位モデル: なし`);
+
+    return `📰 *Claude Code ${DIGEST_LABELS[report.kind]} (${report.window.key})* 📰
+
+📊 *${report.month.key}の使用状況（${report.month.end}まで）*
+${lines.join("\n")}
+
+引き続き使用状況を監視します。`;
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { MonthlySummaryCommand } from "./monthly-summary-command.ts";
+import { MockClock } from "../infrastructure/clock.ts";
+import { MockLogger } from "../infrastructure/logger.ts";
+import { MemoryStateRepository } from "../infrastructure/state-repository.ts";
+import { MockUsageRepository } from "../infrastructure/usage-repository.ts";
+import { MockNotificationService } from "../infrastructure/notification-service.ts";
+import { ResultUtils } from "../utils/result.ts";
+
+describe("MonthlySummaryCommand", () => {
+  let command: MonthlySummaryCommand;
+  let mockDependencies: any;
+
+  const summaryConfig = {
+    threshold: 100,
+    daemon: true,
+    interval: 3600,
+    webhookUrl: "https://hooks.slack.com/test",
+    monthlySummary: true
+  };
+
+  beforeEach(() => {
+    const usageRepository = new MockUsageRepository({
+      monthly: [
+        {
+          month: "2025-05",
+          totalCost: 40,
+          modelsUsed: ["claude-sonnet-4-20250514"],
+          modelBreakdowns: [{ model: "claude-sonnet-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 40 }]
+        },
+        {
+          month: "2025-06",
+          totalCost: 50,
+          modelsUsed: ["claude-opus-4-20250514", "claude-sonnet-4-20250514"],
+          modelBreakdowns: [
+            { model: "claude-sonnet-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 10 },
+            { model: "claude-opus-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 40 }
+          ]
+        },
+        {
+          month: "2025-07",
+          totalCost: 5,
+          modelsUsed: ["claude-sonnet-4-20250514"],
+          modelBreakdowns: [{ model: "claude-sonnet-4-20250514", inputTokens: 1000, outputTokens: 100, cost: 5 }]
+        }
+      ],
+      totals: { totalCost: 95 }
+    });
+    usageRepository.setMockDailyData({
+      daily: [
+        { date: "2025-06-03", totalCost: 20, modelsUsed: [], modelBreakdowns: [] },
+        { date: "2025-06-20", totalCost: 30, modelsUsed: [], modelBreakdowns: [] },
+        { date: "2025-07-01", totalCost: 5, modelsUsed: [], modelBreakdowns: [] }
+      ],
+      totals: { totalCost: 55 }
+    });
+
+    mockDependencies = {
+      clock: new MockClock(new Date("2025-07-01T09:00:00Z")),
+      logger: new MockLogger(),
+      stateRepository: new MemoryStateRepository(),
+      usageRepository,
+      notificationService: new MockNotificationService()
+    };
+
+    command = new MonthlySummaryCommand(mockDependencies);
+  });
+
+  test("月が変わったら前月のサマリーを送信する", async () => {
+    const state = { lastSummaryMonth: "2025-05", alertCounts: { "2025-06": 4, "2025-07": 1 } };
+
+    const result = await command.execute({ config: summaryConfig, state });
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.sent).toBe(true);
+      expect(result.data.newState.lastSummaryMonth).toBe("2025-06");
+    }
+
+    const sent = mockDependencies.notificationService.getLastMessage();
+    expect(sent.type).toBe("summary");
+    expect(sent.message).toContain("Claude Code 月次サマリー (2025-06)");
+    expect(sent.message).toContain("• 合計コスト: $50.00");
+    expect(sent.message).toContain("• 前月比: +25.0% (2025-05: $40.00)");
+    expect(sent.message).toContain("• 最も使用した日: 2025-06-20 ($30.00)");
+    expect(sent.message).toContain("• アラート送信数: 4件");
+    expect(sent.message).toContain("• claude-opus-4-20250514: $40.00 (80%)\n• claude-sonnet-4-20250514: $10.00 (20%)");
+  });
+
+  test("送信済みの月は再送しない", async () => {
+    const result = await command.execute({ config: summaryConfig, state: { lastSummaryMonth: "2025-06" } });
+
+    expect(ResultUtils.isSuccess(result) && result.data.sent).toBe(false);
+    expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+  });
+
+  test("前月のデータが無い場合は送信済みとして扱う", async () => {
+    mockDependencies.clock.setTime(new Date("2025-06-01T09:00:00Z"));
+    mockDependencies.usageRepository.setMockData({ monthly: [], totals: { totalCost: 0 } });
+
+    const result = await command.execute({ config: summaryConfig, state: { lastSummaryMonth: "2025-04" } });
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.sent).toBe(false);
+      expect(result.data.newState.lastSummaryMonth).toBe("2025-05");
+    }
+    expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+  });
+
+  test("Webhook未設定時はスキップして次回に持ち越す", async () => {
+    const { webhookUrl: _url, ...config } = summaryConfig;
+
+    const result = await command.execute({ config, state: { lastSummaryMonth: "2025-05" } });
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.sent).toBe(false);
+      expect(result.data.newState.lastSummaryMonth).toBe("2025-05");
+    }
+  });
+
+  test("初回起動時は前月を送信済みとして次の月替わりから送信する", async () => {
+    const first = await command.execute({ config: summaryConfig, state: {} });
+
+    expect(ResultUtils.isSuccess(first)).toBe(true);
+    if (!ResultUtils.isSuccess(first)) return;
+    expect(first.data.sent).toBe(false);
+    expect(first.data.newState.lastSummaryMonth).toBe("2025-06");
+    expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+
+    mockDependencies.clock.setTime(new Date("2025-08-01T09:00:00Z"));
+    const next = await command.execute({ config: summaryConfig, state: first.data.newState });
+
+    expect(ResultUtils.isSuccess(next) && next.data.sent).toBe(true);
+    expect(mockDependencies.notificationService.getLastMessage()?.message).toContain("Claude Code 月次サマリー (2025-07)");
+  });
+
+  test("月を指定した場合は送信せずにメッセージを返す", async () => {
+    const result = await command.execute({ config: summaryConfig, state: {}, month: "2025-05" });
+
+    expect(ResultUtils.isSuccess(result)).toBe(true);
+    if (ResultUtils.isSuccess(result)) {
+      expect(result.data.sent).toBe(false);
+      expect(result.data.message).toContain("Claude Code 月次サマリー (2025-05)");
+      expect(result.data.message).toContain("• 前月比: 比較データなし");
+      expect(result.data.message).toContain("• アラート送信数: 0件");
+    }
+    expect(mockDependencies.notificationService.sentMessages).toHaveLength(0);
+  });
+
+  test("指定した月のデータが無い場合はエラー", async () => {
+    const result = await command.execute({ config: summaryConfig, state: {}, month: "2024-01" });
+
+    expect(ResultUtils.isFailure(result)).toBe(true);
+    if (ResultUtils.isFailure(result)) {
+      expect(result.error.message).toContain("2024-01の使用データが見つかりません");
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { BaseCommand } from "./base-command.ts";
+import type { CheckUsageDependencies } from "./check-usage-command.ts";
+import type { Config, DaemonState, Result } from "../core/interfaces.ts";
+import { PeriodSummaryBuilder, type PeriodSummary } from "../core/period-summary.ts";
+import { NotificationTargetResolver } from "../core/notification-target.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+
+export interface MonthlySummaryInput {
+  config: Config;
+  state: DaemonState;
+  // 指定時はその月のサマリーを作成するだけで送信しない（CLIでの再表示用）
+  month?: string;
+}
+
+export interface MonthlySummaryOutput {
+  newState: DaemonState;
+  message?: string;
+  sent: boolean;
+}
+
+// 月が締まった時点で前月の使用状況をまとめて送信する
+export class MonthlySummaryCommand extends BaseCommand<MonthlySummaryInput, MonthlySummaryOutput> {
+  private summaryBuilder = new PeriodSummaryBuilder();
+  private targetResolver = new NotificationTargetResolver();
+  private messageFormatter = new NotificationMessageFormatter();
+
+  constructor(private dependencies: CheckUsageDependencies) {
+    super();
+  }
+
+  async execute(input: MonthlySummaryInput): Promise<Result<MonthlySummaryOutput>> {
+    return this.safeExecute(async () => {
+      const { config, state, month } = input;
+      const { clock, logger, notificationService, threadedNotificationService } = this.dependencies;
+
+      if (month) {
+        const summary = await this.buildSummary(month, state);
+        if (!summary) {
+          throw new Error(`${month}の使用データが見つかりません`);
+        }
+        return { newState: state, message: this.formatSummaryMessage(summary), sent: false };
+      }
+
+      const closedMonth = this.summaryBuilder.previousMonth(clock.getCurrentMonth());
+      if (state.lastSummaryMonth === closedMonth) {
+        return { newState: state, sent: false };
+      }
+      // 初回起動時は前月を送信済みとして扱い、次に月が変わった時点から送信を始める
+      if (state.lastSummaryMonth === undefined) {
+        return { newState: { ...state, lastSummaryMonth: closedMonth }, sent: false };
+      }
+
+      const target = this.targetResolver.resolve(config, notificationService, threadedNotificationService);
+      if (!target) {
+        logger.warn("CCWATCH_SLACK_WEBHOOK_URL環境変数が設定されていないため、月次サマリーをスキップします", {
+          component: 'monthly-summary'
+        });
+        return { newState: state, sent: false };
+      }
+
+      const summary = await this.buildSummary(closedMonth, state);
+      if (!summary) {
+        logger.info(`${closedMonth}の使用データが無いため月次サマリーを送信しません`, {
+          component: 'monthly-summary',
+          month: closedMonth
+        });
+        return { newState: { ...state, lastSummaryMonth: closedMonth }, sent: false };
+      }
+
+      const message = this.formatSummaryMessage(summary);
+      await target.service.send(message, target.destination, "summary");
+      logger.info(`${closedMonth}の月次サマリーを送信しました`, {
+        component: 'monthly-summary',
+        month: closedMonth,
+        cost: summary.totalCost
+      });
+
+      return { newState: { ...state, lastSummaryMonth: closedMonth }, message, sent: true };
+    }, "月次サマリーの作成に失敗しました");
+  }
+
+  private async buildSummary(month: string, state: DaemonState): Promise<PeriodSummary | undefined> {
+    const { usageRepository } = this.dependencies;
+    const usageData = await usageRepository.fetchUsageData();
+    if (!usageData.monthly.some(entry => entry.month === month)) {
+      return undefined;
+    }
+
+    const dailyData = await usageRepository.fetchDailyUsageData(`${month}-01`);
+    return this.summaryBuilder.build(month, usageData.monthly, dailyData.daily, state.alertCounts?.[month] ?? 0);
+  }
+
+  private formatSummaryMessage(summary: PeriodSummary): string {
+    const lines = [
+      `• 合計コスト: $${summary.totalCost.toFixed(2)}`,
+      summary.previousCost !== undefined
+        ? `• 前月比: ${this.messageFormatter.changeRate(summary.totalCost, summary.previousCost)} (${summary.previousMonth}: $${summary.previousCost.toFixed(2)})`
+        : `• 前月比: 比較データなし`,
+      summary.peakDay
+        ? `• 最も使用した日: ${summary.peakDay.date} ($${summary.peakDay.cost.toFixed(2)})`
+        : `• 最も使用した日: なし`,
+      `• 使用日数: ${summary.activeDays}日`,
+      `• アラート送信数: ${summary.alertCount ?? 0}件`
+    ];
+    const models = summary.models.length > 0
+      ? summary.models.map(model => `• ${model.model}: $${model.cost.toFixed(2)} (${Math.round(model.share * 100)}%)`)
+      : ["• なし"];
+
+    return `🗓️ *Claude Code 月次サマリー (${summary.month})* 🗓️
+
+📊 *${summary.month}の使用状況*
+${lines.join("\n")}
+
+🤖 *モデル別内訳*
+${models.join("\n")}`;
+  }
+}
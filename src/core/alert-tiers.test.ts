@@ -0,0 +1,79 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { AlertTierEvaluator } from "./alert-tiers.ts";
+import type { AlertTier } from "./interfaces.ts";
+
+describe("AlertTierEvaluator", () => {
+  let evaluator: AlertTierEvaluator;
+  const tiers: AlertTier[] = [
+    { percent: 100, severity: "critical" },
+    { percent: 50, severity: "info" },
+    { percent: 120, severity: "critical" },
+    { percent: 80, severity: "warning" }
+  ];
+
+  beforeEach(() => {
+    evaluator = new AlertTierEvaluator();
+  });
+
+  test("到達済みティアと次のティアの算出", () => {
+    const status = evaluator.evaluate(42, 50, tiers, "2025-07");
+
+    expect(status.reached.map(t => t.percent)).toEqual([50, 80]);
+    expect(status.newlyReached.map(t => t.percent)).toEqual([50, 80]);
+    expect(status.current?.percent).toBe(80);
+    expect(status.next?.percent).toBe(100);
+    expect(status.amountToNext).toBeCloseTo(8);
+  });
+
+  test("どのティアにも到達していない場合", () => {
+    const status = evaluator.evaluate(10, 50, tiers, "2025-07");
+
+    expect(status.reached).toEqual([]);
+    expect(status.current).toBeUndefined();
+    expect(status.next?.percent).toBe(50);
+    expect(status.amountToNext).toBeCloseTo(15);
+  });
+
+  test("最終ティア超過時は次のティアなし", () => {
+    const status = evaluator.evaluate(70, 50, tiers, "2025-07");
+
+    expect(status.current?.percent).toBe(120);
+    expect(status.next).toBeUndefined();
+    expect(status.amountToNext).toBeUndefined();
+  });
+
+  test("同一期間で通知済みのティアは新規到達に含めない", () => {
+    const state = { period: "2025-07", announcedPercents: [50, 80] };
+    const status = evaluator.evaluate(52, 50, tiers, "2025-07", state);
+
+    expect(status.newlyReached.map(t => t.percent)).toEqual([100]);
+  });
+
+  test("期間が変わると通知済みティアはリセットされる", () => {
+    const state = { period: "2025-06", announcedPercents: [50, 80, 100] };
+    const status = evaluator.evaluate(42, 50, tiers, "2025-07", state);
+
+    expect(status.newlyReached.map(t => t.percent)).toEqual([50, 80]);
+  });
+
+  test("通知済みティアの記録", () => {
+    const status = evaluator.evaluate(52, 50, tiers, "2025-07");
+    const state = evaluator.markAnnounced(status, "2025-07", { period: "2025-07", announcedPercents: [50] });
+
+    expect(state).toEqual({ period: "2025-07", announcedPercents: [50, 80, 100] });
+  });
+
+  test("新しい期間では以前の記録を引き継がない", () => {
+    const status = evaluator.evaluate(30, 50, tiers, "2025-08");
+    const state = evaluator.markAnnounced(status, "2025-08", { period: "2025-07", announcedPercents: [50, 80, 100] });
+
+    expect(state).toEqual({ period: "2025-08", announcedPercents: [50] });
+  });
+
+  test("割合からのデフォルト重要度", () => {
+    expect(AlertTierEvaluator.defaultSeverity(50)).toBe("info");
+    expect(AlertTierEvaluator.defaultSeverity(80)).toBe("warning");
+    expect(AlertTierEvaluator.defaultSeverity(100)).toBe("critical");
+    expect(AlertTierEvaluator.defaultSeverity(120)).toBe("critical");
+  });
+});
@@ -0,0 +1,55 @@
+import type { AlertTier, AlertSeverity, AlertTierState } from "./interfaces.ts";
+
+export interface AlertTierStatus {
+  readonly reached: AlertTier[];
+  readonly newlyReached: AlertTier[];
+  readonly current?: AlertTier;
+  readonly next?: AlertTier;
+  readonly amountToNext?: number;
+}
+
+export class AlertTierEvaluator {
+  evaluate(
+    cost: number,
+    threshold: number,
+    tiers: readonly AlertTier[],
+    period: string,
+    state?: AlertTierState
+  ): AlertTierStatus {
+    const sorted = [...tiers].sort((a, b) => a.percent - b.percent);
+    const reached = sorted.filter(tier => cost > this.tierAmount(threshold, tier));
+    const next = sorted.find(tier => cost <= this.tierAmount(threshold, tier));
+
+    // 期間が変わった場合は通知済みティアをリセット
+    const announced = state?.period === period ? state.announcedPercents : [];
+    const newlyReached = reached.filter(tier => !announced.includes(tier.percent));
+
+    return {
+      reached,
+      newlyReached,
+      current: reached[reached.length - 1],
+      next,
+      amountToNext: next ? this.tierAmount(threshold, next) - cost : undefined
+    };
+  }
+
+  markAnnounced(status: AlertTierStatus, period: string, state?: AlertTierState): AlertTierState {
+    const announced = state?.period === period ? state.announcedPercents : [];
+    const percents = new Set([...announced, ...status.reached.map(tier => tier.percent)]);
+
+    return {
+      period,
+      announcedPercents: [...percents].sort((a, b) => a - b)
+    };
+  }
+
+  tierAmount(threshold: number, tier: AlertTier): number {
+    return threshold * tier.percent / 100;
+  }
+
+  static defaultSeverity(percent: number): AlertSeverity {
+    if (percent >= 100) return "critical";
+    if (percent >= 80) return "warning";
+    return "info";
+  }
+}
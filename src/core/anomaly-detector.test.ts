@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { AnomalyDetector } from "./anomaly-detector.ts";
+import type { DailyUsage } from "./interfaces.ts";
+
+// todayの前日からさかのぼってcostsを割り当てる（costs[0]が最も古い日）
+function createHistory(today: string, costs: number[]): DailyUsage[] {
+  const base = new Date(`${today}T00:00:00Z`);
+  return costs.map((cost, index) => {
+    const date = new Date(base);
+    date.setUTCDate(base.getUTCDate() - (costs.length - index));
+    return {
+      date: date.toISOString().split('T')[0]!,
+      totalCost: cost,
+      modelsUsed: [],
+      modelBreakdowns: []
+    };
+  });
+}
+
+function withToday(daily: DailyUsage[], today: string, cost: number): DailyUsage[] {
+  return [...daily, { date: today, totalCost: cost, modelsUsed: [], modelBreakdowns: [] }];
+}
+
+describe("AnomalyDetector", () => {
+  let detector: AnomalyDetector;
+  const today = "2025-07-15";
+  // 中央値$3、MAD$1
+  const history = createHistory(today, Array.from({ length: 14 }, (_, i) => [2, 3, 4][i % 3]!));
+
+  beforeEach(() => {
+    detector = new AnomalyDetector();
+  });
+
+  test("通常範囲のコストは異常としない", () => {
+    const report = detector.detect(withToday(history, today, 4), today, 14, 3.5);
+
+    expect(report).toBeDefined();
+    expect(report!.median).toBe(3);
+    expect(report!.mad).toBe(1);
+    expect(report!.score).toBeCloseTo(0.6745);
+    expect(report!.isAnomaly).toBe(false);
+    expect(report!.historyDays).toBe(14);
+  });
+
+  test("急増したコストを異常として検出", () => {
+    const report = detector.detect(withToday(history, today, 15), today, 14, 3.5);
+
+    expect(report!.cost).toBe(15);
+    expect(report!.score).toBeCloseTo(12 * 0.6745);
+    expect(report!.isAnomaly).toBe(true);
+  });
+
+  test("コストが少ない日は異常としない", () => {
+    const report = detector.detect(withToday(history, today, 0), today, 14, 3.5);
+
+    expect(report!.score).toBeLessThan(0);
+    expect(report!.isAnomaly).toBe(false);
+  });
+
+  test("過去の外れ値の日を検出", () => {
+    const costs = Array.from({ length: 14 }, (_, i) => [2, 3, 4][i % 3]!);
+    costs[10] = 25;
+    const report = detector.detect(createHistory(today, costs), today, 14, 3.5);
+
+    expect(report!.outliers).toEqual([
+      { date: "2025-07-11", cost: 25, score: expect.any(Number) }
+    ]);
+  });
+
+  test("使用の無い日は0として扱う", () => {
+    // 使用があるのは2日のみ → 中央値0
+    const daily = [
+      { date: "2025-07-10", totalCost: 5, modelsUsed: [], modelBreakdowns: [] },
+      { date: "2025-07-12", totalCost: 3, modelsUsed: [], modelBreakdowns: [] }
+    ];
+
+    const report = detector.detect(withToday(daily, today, 4), today, 14, 3.5);
+
+    expect(report!.median).toBe(0);
+    expect(report!.mad).toBe(0);
+    // MADが0の場合は平均絶対偏差で代替する
+    expect(report!.score).toBeGreaterThan(0);
+  });
+
+  test("期間外の日次データは含めない", () => {
+    const daily = [
+      { date: "2025-06-01", totalCost: 100, modelsUsed: [], modelBreakdowns: [] },
+      ...history
+    ];
+
+    const report = detector.detect(withToday(daily, today, 4), today, 14, 3.5);
+
+    expect(report!.median).toBe(3);
+    expect(report!.outliers).toEqual([]);
+  });
+
+  test("使用履歴が無い場合は判定しない", () => {
+    expect(detector.detect(withToday([], today, 10), today, 30, 3.5)).toBeUndefined();
+  });
+
+  test("全日同額の場合はスコア0", () => {
+    const flat = createHistory(today, new Array(10).fill(2));
+
+    const report = detector.detect(withToday(flat, today, 10), today, 10, 3.5);
+
+    expect(report!.score).toBe(0);
+    expect(report!.isAnomaly).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import type { DailyUsage } from "./interfaces.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+
+export interface DailyAnomaly {
+  readonly date: string;
+  readonly cost: number;
+  readonly score: number;
+}
+
+export interface AnomalyReport {
+  readonly date: string;
+  readonly cost: number;
+  readonly median: number;
+  readonly mad: number;
+  readonly score: number;
+  readonly isAnomaly: boolean;
+  readonly historyDays: number;
+  // 過去N日間のうち同じ基準で外れ値となる日
+  readonly outliers: DailyAnomaly[];
+}
+
+export class AnomalyDetector {
+  private readonly MIN_HISTORY_DAYS = 7;
+  // 正規分布に対してMADを標準偏差相当に換算する係数
+  private readonly MAD_SCALE = 0.6745;
+  // MADが0の場合に使う平均絶対偏差の換算係数
+  private readonly MEAN_AD_SCALE = 1.253314;
+
+  // 今日を除く過去N日間の日次コスト（使用の無い日は0）の中央値とMADから、
+  // 修正zスコアで今日のコストが外れ値かを判定する。支出の急増のみを対象とする
+  detect(
+    daily: readonly DailyUsage[],
+    today: string,
+    lookbackDays: number,
+    threshold: number
+  ): AnomalyReport | undefined {
+    if (lookbackDays < this.MIN_HISTORY_DAYS) {
+      return undefined;
+    }
+
+    const history = this.collectHistory(daily, today, lookbackDays);
+    if (!history.some(day => day.cost > 0)) {
+      return undefined;
+    }
+
+    const costs = history.map(day => day.cost);
+    const median = this.median(costs);
+    const mad = this.median(costs.map(cost => Math.abs(cost - median)));
+    const scale = this.deviationScale(costs, median, mad);
+    const score = (cost: number) => (scale === 0 ? 0 : (cost - median) / scale);
+
+    const todayCost = daily
+      .filter(day => day.date === today)
+      .reduce((sum, day) => sum + day.totalCost, 0);
+    const todayScore = score(todayCost);
+
+    return {
+      date: today,
+      cost: todayCost,
+      median,
+      mad,
+      score: todayScore,
+      isAnomaly: todayScore > threshold,
+      historyDays: history.length,
+      outliers: history
+        .map(day => ({ ...day, score: score(day.cost) }))
+        .filter(day => day.score > threshold)
+    };
+  }
+
+  private collectHistory(daily: readonly DailyUsage[], today: string, lookbackDays: number): { date: string; cost: number }[] {
+    const history = Array.from({ length: lookbackDays }, (_, i) => ({
+      date: CalendarDate.addDays(today, i - lookbackDays),
+      cost: 0
+    }));
+    for (const day of daily) {
+      const index = lookbackDays + CalendarDate.diffDays(today, day.date);
+      if (index >= 0 && index < lookbackDays) {
+        history[index]!.cost += day.totalCost;
+      }
+    }
+    return history;
+  }
+
+  // 修正zスコアの分母。全日同額などで偏差が無い場合は0
+  private deviationScale(costs: number[], median: number, mad: number): number {
+    if (mad > 0) {
+      return mad / this.MAD_SCALE;
+    }
+    const meanAbsoluteDeviation = costs.reduce((sum, cost) => sum + Math.abs(cost - median), 0) / costs.length;
+    return meanAbsoluteDeviation * this.MEAN_AD_SCALE;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1]! + sorted[middle]!) / 2
+      : sorted[middle]!;
+  }
+}
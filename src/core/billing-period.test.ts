@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { BillingPeriodResolver } from "./billing-period.ts";
+import type { DailyUsage } from "./interfaces.ts";
+
+describe("BillingPeriodResolver", () => {
+  let resolver: BillingPeriodResolver;
+
+  beforeEach(() => {
+    resolver = new BillingPeriodResolver();
+  });
+
+  describe("期間の解決", () => {
+    test("暦月は従来どおりYYYY-MMをキーにする", () => {
+      expect(resolver.resolve({ type: "calendar" }, "2025-02-14")).toEqual({
+        key: "2025-02",
+        start: "2025-02-01",
+        end: "2025-02-28"
+      });
+    });
+
+    test("25日開始のサイクル（開始日以降）", () => {
+      expect(resolver.resolve({ type: "cycle", startDay: 25 }, "2025-07-25")).toEqual({
+        key: "2025-07-25〜2025-08-24",
+        start: "2025-07-25",
+        end: "2025-08-24"
+      });
+    });
+
+    test("25日開始のサイクル（開始日より前）", () => {
+      expect(resolver.resolve({ type: "cycle", startDay: 25 }, "2025-07-24")).toMatchObject({
+        start: "2025-06-25",
+        end: "2025-07-24"
+      });
+    });
+
+    test("サイクルは年をまたぐ", () => {
+      expect(resolver.resolve({ type: "cycle", startDay: 25 }, "2025-01-10")).toMatchObject({
+        start: "2024-12-25",
+        end: "2025-01-24"
+      });
+    });
+
+    test("月の日数を超える開始日は月末日から開始する", () => {
+      expect(resolver.resolve({ type: "cycle", startDay: 31 }, "2025-02-28")).toMatchObject({
+        start: "2025-02-28",
+        end: "2025-03-30"
+      });
+      expect(resolver.resolve({ type: "cycle", startDay: 31 }, "2025-02-27")).toMatchObject({
+        start: "2025-01-31",
+        end: "2025-02-27"
+      });
+    });
+
+    test("月曜開始の週", () => {
+      // 2025-07-16は水曜
+      expect(resolver.resolve({ type: "weekly", startDay: 1 }, "2025-07-16")).toEqual({
+        key: "2025-07-14〜2025-07-20",
+        start: "2025-07-14",
+        end: "2025-07-20"
+      });
+    });
+
+    test("開始曜日当日と月・年をまたぐ週", () => {
+      expect(resolver.resolve({ type: "weekly", startDay: 3 }, "2025-07-16").start).toBe("2025-07-16");
+      expect(resolver.resolve({ type: "weekly", startDay: 0 }, "2026-01-02")).toEqual({
+        key: "2025-12-28〜2026-01-03",
+        start: "2025-12-28",
+        end: "2026-01-03"
+      });
+    });
+
+    test("ローリング期間は今日を含む直近N日", () => {
+      expect(resolver.resolve({ type: "rolling", days: 7 }, "2025-07-03")).toEqual({
+        key: "直近7日間",
+        start: "2025-06-27",
+        end: "2025-07-03"
+      });
+    });
+
+    test("ローリング期間のキーは日付が変わっても同じ", () => {
+      expect(resolver.resolve({ type: "rolling", days: 30 }, "2025-07-04").key)
+        .toBe(resolver.resolve({ type: "rolling", days: 30 }, "2025-07-03").key);
+    });
+  });
+
+  describe("日次データの集計", () => {
+    const daily: DailyUsage[] = [
+      {
+        date: "2025-06-24",
+        totalCost: 100,
+        modelsUsed: ["claude-opus-4-20250514"],
+        modelBreakdowns: [{ model: "claude-opus-4-20250514", inputTokens: 1, outputTokens: 1, cost: 100 }]
+      },
+      {
+        date: "2025-06-25",
+        totalCost: 10,
+        modelsUsed: ["claude-sonnet-4-20250514"],
+        modelBreakdowns: [{ model: "claude-sonnet-4-20250514", inputTokens: 100, outputTokens: 50, cost: 10 }]
+      },
+      {
+        date: "2025-07-01",
+        totalCost: 15,
+        modelsUsed: ["claude-sonnet-4-20250514", "claude-opus-4-20250514"],
+        modelBreakdowns: [
+          { model: "claude-sonnet-4-20250514", inputTokens: 200, outputTokens: 100, cacheReadTokens: 30, cost: 5 },
+          { model: "claude-opus-4-20250514", inputTokens: 10, outputTokens: 5, cost: 10 }
+        ]
+      }
+    ];
+
+    test("期間内の日次データをモデル別に合算する", () => {
+      const range = resolver.resolve({ type: "cycle", startDay: 25 }, "2025-07-05");
+
+      const usage = resolver.aggregate(daily, range);
+
+      expect(usage.month).toBe("2025-06-25〜2025-07-24");
+      expect(usage.totalCost).toBe(25);
+      expect(usage.modelsUsed).toEqual(["claude-sonnet-4-20250514", "claude-opus-4-20250514"]);
+      expect(usage.modelBreakdowns).toEqual([
+        { model: "claude-sonnet-4-20250514", inputTokens: 300, outputTokens: 150, cacheReadTokens: 30, cost: 15 },
+        { model: "claude-opus-4-20250514", inputTokens: 10, outputTokens: 5, cost: 10 }
+      ]);
+    });
+
+    test("期間内にデータが無い場合は0", () => {
+      const range = resolver.resolve({ type: "rolling", days: 7 }, "2025-08-31");
+
+      expect(resolver.aggregate(daily, range)).toEqual({
+        month: "直近7日間",
+        totalCost: 0,
+        modelsUsed: [],
+        modelBreakdowns: []
+      });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import type { BillingPeriod, DailyUsage, ModelBreakdown, MonthlyUsage } from "./interfaces.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+
+export interface PeriodRange {
+  // 重複通知防止と表示に使う期間キー（暦月は "YYYY-MM"、ローリング期間は "直近N日間"、それ以外は "開始日〜終了日"）
+  readonly key: string;
+  readonly start: string;
+  readonly end: string;
+}
+
+export class BillingPeriodResolver {
+  resolve(period: BillingPeriod, today: string): PeriodRange {
+    switch (period.type) {
+      case "calendar":
+        return this.resolveCalendarMonth(today);
+      case "cycle":
+        return this.resolveCycle(period.startDay, today);
+      case "weekly":
+        return this.resolveWeek(period.startDay, today);
+      case "rolling":
+        // 範囲は毎日ずれるが、重複通知防止の単位が日ごとに切り替わらないようキーは固定する
+        return { key: `直近${period.days}日間`, start: CalendarDate.addDays(today, -(period.days - 1)), end: today };
+    }
+  }
+
+  // 日次データから期間内の使用量を月次データと同じ形に集計する
+  aggregate(daily: readonly DailyUsage[], range: PeriodRange): MonthlyUsage {
+    const days = daily.filter(day => day.date >= range.start && day.date <= range.end);
+    const modelsUsed = new Set<string>();
+    const breakdowns = new Map<string, ModelBreakdown>();
+
+    for (const day of days) {
+      day.modelsUsed.forEach(model => modelsUsed.add(model));
+      for (const breakdown of day.modelBreakdowns) {
+        const current = breakdowns.get(breakdown.model);
+        breakdowns.set(breakdown.model, current ? this.mergeBreakdowns(current, breakdown) : breakdown);
+      }
+    }
+
+    return {
+      month: range.key,
+      totalCost: days.reduce((sum, day) => sum + day.totalCost, 0),
+      modelsUsed: [...modelsUsed],
+      modelBreakdowns: [...breakdowns.values()]
+    };
+  }
+
+  private resolveCalendarMonth(today: string): PeriodRange {
+    const [year, month] = today.split('-').map(Number);
+    const start = `${today.substring(0, 7)}-01`;
+    const end = `${today.substring(0, 7)}-${String(CalendarDate.daysInMonth(year!, month!)).padStart(2, '0')}`;
+    return { key: today.substring(0, 7), start, end };
+  }
+
+  private resolveWeek(startDay: number, today: string): PeriodRange {
+    const start = CalendarDate.addDays(today, -((CalendarDate.dayOfWeek(today) - startDay + 7) % 7));
+    return this.toRange(start, CalendarDate.addDays(start, 6));
+  }
+
+  // 開始日が月の日数を超える場合（31日開始の2月など）は月末日から開始する
+  private resolveCycle(startDay: number, today: string): PeriodRange {
+    const [year, month, day] = today.split('-').map(Number);
+    const startsThisMonth = day! >= this.clampDay(year!, month!, startDay);
+    const start = startsThisMonth
+      ? this.cycleStart(year!, month!, startDay)
+      : this.cycleStart(month === 1 ? year! - 1 : year!, month === 1 ? 12 : month! - 1, startDay);
+
+    const [startYear, startMonth] = start.split('-').map(Number);
+    const next = startMonth === 12
+      ? this.cycleStart(startYear! + 1, 1, startDay)
+      : this.cycleStart(startYear!, startMonth! + 1, startDay);
+
+    return this.toRange(start, CalendarDate.addDays(next, -1));
+  }
+
+  private cycleStart(year: number, month: number, startDay: number): string {
+    const day = this.clampDay(year, month, startDay);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private clampDay(year: number, month: number, day: number): number {
+    return Math.min(day, CalendarDate.daysInMonth(year, month));
+  }
+
+  private toRange(start: string, end: string): PeriodRange {
+    return { key: `${start}〜${end}`, start, end };
+  }
+
+  private mergeBreakdowns(a: ModelBreakdown, b: ModelBreakdown): ModelBreakdown {
+    const cacheCreationTokens = (a.cacheCreationTokens ?? 0) + (b.cacheCreationTokens ?? 0);
+    const cacheReadTokens = (a.cacheReadTokens ?? 0) + (b.cacheReadTokens ?? 0);
+    return {
+      model: a.model,
+      inputTokens: a.inputTokens + b.inputTokens,
+      outputTokens: a.outputTokens + b.outputTokens,
+      ...(cacheCreationTokens > 0 && { cacheCreationTokens }),
+      ...(cacheReadTokens > 0 && { cacheReadTokens }),
+      cost: a.cost + b.cost
+    };
+  }
+}
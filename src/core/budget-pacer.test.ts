@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { BudgetPacer } from "./budget-pacer.ts";
+
+describe("BudgetPacer", () => {
+  let pacer: BudgetPacer;
+
+  beforeEach(() => {
+    pacer = new BudgetPacer();
+  });
+
+  test("暦日モードでの日割り予算", () => {
+    // 2025-07-15: 残り17日、前日までの使用$30 → 残り予算$34
+    const status = pacer.evaluate("calendar", 64, 32, 2, "2025-07-15", "2025-07-31");
+
+    expect(status).toBeDefined();
+    expect(status!.remainingBudget).toBeCloseTo(34);
+    expect(status!.remainingDays).toBe(17);
+    expect(status!.dailyBudget).toBeCloseTo(2);
+    expect(status!.overBudget).toBe(false);
+  });
+
+  test("本日の使用額が予算を超えた場合", () => {
+    const status = pacer.evaluate("calendar", 64, 35, 5, "2025-07-15", "2025-07-31");
+
+    expect(status!.overBudget).toBe(true);
+    expect(status!.todayCost).toBe(5);
+  });
+
+  test("営業日モードでは平日のみで割る", () => {
+    // 2025-07-15(火)〜07-31の平日は13日
+    const status = pacer.evaluate("workdays", 56, 30, 0, "2025-07-15", "2025-07-31");
+
+    expect(status!.remainingDays).toBe(13);
+    expect(status!.dailyBudget).toBeCloseTo(2);
+  });
+
+  test("営業日モードでは土日は評価しない", () => {
+    expect(pacer.evaluate("workdays", 50, 10, 3, "2025-07-19", "2025-07-31")).toBeUndefined();
+    expect(pacer.evaluate("workdays", 50, 10, 3, "2025-07-20", "2025-07-31")).toBeUndefined();
+  });
+
+  test("月末日は残り1日", () => {
+    const status = pacer.evaluate("calendar", 50, 45, 1, "2025-07-31", "2025-07-31");
+
+    expect(status!.remainingDays).toBe(1);
+    expect(status!.dailyBudget).toBeCloseTo(6);
+  });
+
+  test("前日までに予算を使い切った場合は予算0", () => {
+    const status = pacer.evaluate("calendar", 50, 60, 1, "2025-07-15", "2025-07-31");
+
+    expect(status!.remainingBudget).toBe(0);
+    expect(status!.dailyBudget).toBe(0);
+    expect(status!.overBudget).toBe(true);
+  });
+
+  test("請求サイクルの期間末までで割る", () => {
+    // 2025-07-15〜07-24は10日、前日までの使用$30 → 残り予算$20
+    const status = pacer.evaluate("calendar", 50, 30, 0, "2025-07-15", "2025-07-24");
+
+    expect(status!.remainingDays).toBe(10);
+    expect(status!.dailyBudget).toBeCloseTo(2);
+  });
+
+  test("平日判定", () => {
+    expect(pacer.isWorkingDay("2025-07-18")).toBe(true);  // 金
+    expect(pacer.isWorkingDay("2025-07-19")).toBe(false); // 土
+    expect(pacer.isWorkingDay("2025-07-20")).toBe(false); // 日
+    expect(pacer.isWorkingDay("2025-07-21")).toBe(true);  // 月
+  });
+});
@@ -0,0 +1,60 @@
+import type { PacingMode } from "./interfaces.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+
+export interface PacingStatus {
+  readonly mode: PacingMode;
+  readonly date: string;
+  readonly todayCost: number;
+  readonly dailyBudget: number;
+  readonly remainingBudget: number;
+  readonly remainingDays: number;
+  readonly overBudget: boolean;
+}
+
+export class BudgetPacer {
+  // 期間の閾値のうち前日までに使った残りを、今日から期間末までの残り日数で均等に割り当てる。
+  // workdaysモードでは土日を除いた日数で割り、土日は評価しない
+  evaluate(
+    mode: PacingMode,
+    threshold: number,
+    periodToDateCost: number,
+    todayCost: number,
+    today: string,
+    periodEnd: string
+  ): PacingStatus | undefined {
+    if (mode === "workdays" && !this.isWorkingDay(today)) {
+      return undefined;
+    }
+
+    const remainingBudget = Math.max(0, threshold - (periodToDateCost - todayCost));
+    const remainingDays = this.countRemainingDays(mode, today, periodEnd);
+    const dailyBudget = remainingBudget / remainingDays;
+
+    return {
+      mode,
+      date: today,
+      todayCost,
+      dailyBudget,
+      remainingBudget,
+      remainingDays,
+      overBudget: todayCost > dailyBudget
+    };
+  }
+
+  isWorkingDay(date: string): boolean {
+    const dayOfWeek = CalendarDate.dayOfWeek(date);
+    return dayOfWeek !== 0 && dayOfWeek !== 6;
+  }
+
+  // 今日から期間末までの日数（今日を含む）
+  private countRemainingDays(mode: PacingMode, today: string, periodEnd: string): number {
+    let days = 0;
+    for (let date = today; date <= periodEnd; date = CalendarDate.addDays(date, 1)) {
+      if (mode === "calendar" || this.isWorkingDay(date)) {
+        days++;
+      }
+    }
+    // 期間末日を過ぎている場合も0除算にしない
+    return Math.max(1, days);
+  }
+}
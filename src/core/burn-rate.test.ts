@@ -0,0 +1,54 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { BurnRateMonitor } from "./burn-rate.ts";
+
+describe("BurnRateMonitor", () => {
+  let monitor: BurnRateMonitor;
+  const current = { timestamp: "2025-07-15T12:00:00.000Z", period: "2025-07", cost: 45 };
+
+  beforeEach(() => {
+    monitor = new BurnRateMonitor();
+  });
+
+  test("前回チェックからの増加額を時間あたりに換算", () => {
+    const previous = { timestamp: "2025-07-15T11:30:00.000Z", period: "2025-07", cost: 35 };
+
+    expect(monitor.measure(previous, current)).toEqual({
+      costPerHour: 20,
+      costDelta: 10,
+      elapsedMinutes: 30
+    });
+  });
+
+  test("前回のサンプルが無い場合は算出しない", () => {
+    expect(monitor.measure(undefined, current)).toBeUndefined();
+  });
+
+  test("期間が切り替わった場合は算出しない", () => {
+    const previous = { timestamp: "2025-06-30T23:30:00.000Z", period: "2025-06", cost: 80 };
+
+    expect(monitor.measure(previous, { ...current, timestamp: "2025-07-01T00:30:00.000Z", cost: 1 })).toBeUndefined();
+  });
+
+  test("コストが減少した場合は算出しない", () => {
+    const previous = { timestamp: "2025-07-15T11:00:00.000Z", period: "2025-07", cost: 50 };
+
+    expect(monitor.measure(previous, current)).toBeUndefined();
+  });
+
+  test("間隔が短すぎる場合は前回のサンプルを基準に残す", () => {
+    const previous = { timestamp: "2025-07-15T11:59:30.000Z", period: "2025-07", cost: 40 };
+
+    expect(monitor.measure(previous, current)).toBeUndefined();
+    expect(monitor.nextSample(previous, current)).toBe(previous);
+    expect(monitor.nextSample({ ...previous, timestamp: "2025-07-15T11:00:00.000Z" }, current)).toBe(current);
+  });
+
+  test("クールダウン判定", () => {
+    const now = new Date("2025-07-15T12:00:00Z");
+
+    expect(monitor.isCoolingDown(undefined, now, 60)).toBe(false);
+    expect(monitor.isCoolingDown("2025-07-15T11:30:00.000Z", now, 60)).toBe(true);
+    expect(monitor.isCoolingDown("2025-07-15T11:00:00.000Z", now, 60)).toBe(false);
+    expect(monitor.isCoolingDown("2025-07-15T11:59:00.000Z", now, 0)).toBe(false);
+  });
+});
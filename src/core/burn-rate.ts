@@ -0,0 +1,55 @@
+import type { CostSample } from "./interfaces.ts";
+
+export interface BurnRateStatus {
+  readonly costPerHour: number;
+  readonly costDelta: number;
+  readonly elapsedMinutes: number;
+}
+
+export class BurnRateMonitor {
+  // 間隔が短すぎるサンプル同士では時間あたりの値が大きく振れるため評価しない
+  private readonly MIN_ELAPSED_MINUTES = 1;
+
+  // 前回チェック時からのコスト増加を時間あたりに換算する。
+  // 期間が切り替わった場合やコストが減少した場合（集計のやり直し等）は算出しない
+  measure(previous: CostSample | undefined, current: CostSample): BurnRateStatus | undefined {
+    if (!previous || previous.period !== current.period) {
+      return undefined;
+    }
+
+    const elapsedMinutes = this.elapsedMinutes(previous, current);
+    const costDelta = current.cost - previous.cost;
+    if (elapsedMinutes < this.MIN_ELAPSED_MINUTES || costDelta < 0) {
+      return undefined;
+    }
+
+    return {
+      costPerHour: costDelta / (elapsedMinutes / 60),
+      costDelta,
+      elapsedMinutes
+    };
+  }
+
+  // 次回の比較に使うサンプル（間隔が短すぎる場合は前回のサンプルを基準に残す）
+  nextSample(previous: CostSample | undefined, current: CostSample): CostSample {
+    if (
+      previous &&
+      previous.period === current.period &&
+      this.elapsedMinutes(previous, current) < this.MIN_ELAPSED_MINUTES
+    ) {
+      return previous;
+    }
+    return current;
+  }
+
+  isCoolingDown(lastAlertAt: string | undefined, now: Date, cooldownMinutes: number): boolean {
+    if (!lastAlertAt) {
+      return false;
+    }
+    return now.getTime() - new Date(lastAlertAt).getTime() < cooldownMinutes * 60000;
+  }
+
+  private elapsedMinutes(previous: CostSample, current: CostSample): number {
+    return (new Date(current.timestamp).getTime() - new Date(previous.timestamp).getTime()) / 60000;
+  }
+}
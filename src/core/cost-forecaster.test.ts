@@ -0,0 +1,115 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { CostForecaster } from "./cost-forecaster.ts";
+import type { DailyUsage } from "./interfaces.ts";
+import type { PeriodRange } from "./billing-period.ts";
+
+function createDaily(month: string, costs: number[]): DailyUsage[] {
+  return costs.map((cost, index) => ({
+    date: `${month}-${String(index + 1).padStart(2, '0')}`,
+    totalCost: cost,
+    modelsUsed: ["claude-sonnet-4-20250514"],
+    modelBreakdowns: []
+  }));
+}
+
+function monthRange(month: string, lastDay: number): PeriodRange {
+  return { key: month, start: `${month}-01`, end: `${month}-${lastDay}` };
+}
+
+describe("CostForecaster", () => {
+  let forecaster: CostForecaster;
+
+  beforeEach(() => {
+    forecaster = new CostForecaster();
+  });
+
+  test("一定ペースの場合は両モデルが一致する", () => {
+    // 7/1〜7/14は毎日$2、今日(7/15)は$2使用済み
+    const daily = createDaily("2025-07", new Array(15).fill(2));
+
+    const forecast = forecaster.forecast(daily, monthRange("2025-07", 31), "2025-07-15", 30);
+
+    expect(forecast).toBeDefined();
+    expect(forecast!.daysElapsed).toBe(15);
+    expect(forecast!.daysRemaining).toBe(16);
+    expect(forecast!.linearProjection).toBeCloseTo(62);
+    expect(forecast!.weightedProjection).toBeCloseTo(62);
+    expect(forecast!.projectedTotal).toBeCloseTo(62);
+    expect(forecast!.lowerBound).toBeCloseTo(62);
+    expect(forecast!.upperBound).toBeCloseTo(62);
+  });
+
+  test("増加トレンドの線形予測", () => {
+    // n日目に$n使用
+    const costs = Array.from({ length: 14 }, (_, i) => i + 1);
+    const daily = createDaily("2025-07", costs);
+    const monthToDate = costs.reduce((sum, cost) => sum + cost, 0);
+
+    const forecast = forecaster.forecast(daily, monthRange("2025-07", 31), "2025-07-15", monthToDate);
+
+    // 残り16日間(16日〜31日)の合計: 376
+    expect(forecast!.linearProjection).toBeCloseTo(monthToDate + 376);
+    // 直近重視モデルは直近の高い値に寄る
+    expect(forecast!.weightedProjection).toBeGreaterThan(monthToDate + 7.5 * 16);
+    expect(forecast!.projectedTotal).toBeGreaterThan(monthToDate);
+  });
+
+  test("使用の無い日は0として扱う", () => {
+    const daily: DailyUsage[] = [
+      { date: "2025-07-01", totalCost: 10, modelsUsed: [], modelBreakdowns: [] }
+    ];
+
+    const forecast = forecaster.forecast(daily, monthRange("2025-07", 31), "2025-07-11", 10);
+
+    expect(forecast).toBeDefined();
+    // 直近は使用が無いため、直近重視モデルはほぼ増加しない
+    expect(forecast!.weightedProjection).toBeCloseTo(10);
+    expect(forecast!.linearProjection).toBeGreaterThanOrEqual(10);
+  });
+
+  test("ばらつきがある場合は予測範囲を持つ", () => {
+    const daily = createDaily("2025-07", [1, 5, 2, 6, 1, 4, 2, 7, 1, 5]);
+
+    const forecast = forecaster.forecast(daily, monthRange("2025-07", 31), "2025-07-11", 34);
+
+    expect(forecast!.lowerBound).toBeLessThan(forecast!.projectedTotal);
+    expect(forecast!.upperBound).toBeGreaterThan(forecast!.projectedTotal);
+    expect(forecast!.lowerBound).toBeGreaterThanOrEqual(34);
+  });
+
+  test("月初（確定日なし）は予測しない", () => {
+    const daily = createDaily("2025-07", [3]);
+
+    expect(forecaster.forecast(daily, monthRange("2025-07", 31), "2025-07-01", 3)).toBeUndefined();
+  });
+
+  test("請求サイクルは月をまたいで予測する", () => {
+    // 6/25開始のサイクルで6/25〜7/4は毎日$2、今日(7/5)は$2使用済み
+    const daily = Array.from({ length: 11 }, (_, i) => {
+      const date = new Date(Date.UTC(2025, 5, 25 + i)).toISOString().split('T')[0]!;
+      return { date, totalCost: 2, modelsUsed: [], modelBreakdowns: [] };
+    });
+    const cycle = { key: "2025-06-25〜2025-07-24", start: "2025-06-25", end: "2025-07-24" };
+
+    const forecast = forecaster.forecast(daily, cycle, "2025-07-05", 22);
+
+    expect(forecast!.daysElapsed).toBe(11);
+    expect(forecast!.daysRemaining).toBe(19);
+    expect(forecast!.projectedTotal).toBeCloseTo(60);
+  });
+
+  test("対象月と今日が一致しない場合は予測しない", () => {
+    const daily = createDaily("2025-07", [3, 3]);
+
+    expect(forecaster.forecast(daily, monthRange("2025-07", 31), "2025-08-02", 6)).toBeUndefined();
+  });
+
+  test("月末日は残り日数0", () => {
+    const daily = createDaily("2025-02", new Array(28).fill(1));
+
+    const forecast = forecaster.forecast(daily, monthRange("2025-02", 28), "2025-02-28", 28);
+
+    expect(forecast!.daysRemaining).toBe(0);
+    expect(forecast!.projectedTotal).toBeCloseTo(28);
+  });
+});
@@ -0,0 +1,118 @@
+import type { DailyUsage } from "./interfaces.ts";
+import type { PeriodRange } from "./billing-period.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+
+export interface CostForecast {
+  readonly projectedTotal: number;
+  readonly lowerBound: number;
+  readonly upperBound: number;
+  readonly linearProjection: number;
+  readonly weightedProjection: number;
+  readonly daysElapsed: number;
+  readonly daysRemaining: number;
+}
+
+export class CostForecaster {
+  private readonly RECENT_DAYS = 7;
+  private readonly RECENT_DECAY = 0.8; // 直近ほど重みを大きくする減衰率
+  private readonly Z_SCORE = 1.96; // 95%信頼区間
+
+  // 期間内の日次コストから期間末時点の合計コストを予測する。
+  // 今日は集計途中のため回帰には前日までの確定日のみを使い、今日の使用分は期間累計に含める
+  forecast(
+    daily: readonly DailyUsage[],
+    period: PeriodRange,
+    today: string,
+    periodToDateCost: number
+  ): CostForecast | undefined {
+    if (today < period.start || today > period.end) {
+      return undefined;
+    }
+
+    const daysElapsed = CalendarDate.diffDays(period.start, today) + 1;
+    const daysInPeriod = CalendarDate.diffDays(period.start, period.end) + 1;
+    const completedCosts = this.collectCompletedDayCosts(daily, period.start, daysElapsed);
+
+    // 確定日が無い期間初日は予測不能
+    if (completedCosts.length === 0) {
+      return undefined;
+    }
+
+    const daysRemaining = daysInPeriod - daysElapsed;
+    const { slope, intercept } = this.fitLinearTrend(completedCosts);
+
+    let linearRemaining = 0;
+    for (let day = daysElapsed + 1; day <= daysInPeriod; day++) {
+      linearRemaining += Math.max(0, intercept + slope * day);
+    }
+    const weightedRemaining = this.weightedRecentAverage(completedCosts) * daysRemaining;
+
+    const linearProjection = periodToDateCost + linearRemaining;
+    const weightedProjection = periodToDateCost + weightedRemaining;
+    const margin = this.Z_SCORE * this.residualStdDev(completedCosts, slope, intercept) * Math.sqrt(daysRemaining);
+
+    return {
+      projectedTotal: (linearProjection + weightedProjection) / 2,
+      lowerBound: Math.max(periodToDateCost, Math.min(linearProjection, weightedProjection) - margin),
+      upperBound: Math.max(linearProjection, weightedProjection) + margin,
+      linearProjection,
+      weightedProjection,
+      daysElapsed,
+      daysRemaining
+    };
+  }
+
+  // 期間初日〜前日までの日次コスト（使用の無い日は0）
+  private collectCompletedDayCosts(daily: readonly DailyUsage[], start: string, daysElapsed: number): number[] {
+    const costs = new Array<number>(daysElapsed - 1).fill(0);
+    for (const day of daily) {
+      const index = CalendarDate.diffDays(start, day.date);
+      if (index >= 0 && index < costs.length) {
+        costs[index]! += day.totalCost;
+      }
+    }
+    return costs;
+  }
+
+  // 最小二乗法による日次コストの線形トレンド（xは期間初日を1とした日数）
+  private fitLinearTrend(costs: number[]): { slope: number; intercept: number } {
+    const n = costs.length;
+    const meanX = (n + 1) / 2;
+    const meanY = costs.reduce((sum, cost) => sum + cost, 0) / n;
+
+    let covariance = 0;
+    let variance = 0;
+    costs.forEach((cost, index) => {
+      const dx = index + 1 - meanX;
+      covariance += dx * (cost - meanY);
+      variance += dx * dx;
+    });
+
+    const slope = variance === 0 ? 0 : covariance / variance;
+    return { slope, intercept: meanY - slope * meanX };
+  }
+
+  private weightedRecentAverage(costs: number[]): number {
+    const recent = costs.slice(-this.RECENT_DAYS).reverse();
+    let weightedSum = 0;
+    let weightTotal = 0;
+    recent.forEach((cost, age) => {
+      const weight = Math.pow(this.RECENT_DECAY, age);
+      weightedSum += cost * weight;
+      weightTotal += weight;
+    });
+    return weightedSum / weightTotal;
+  }
+
+  private residualStdDev(costs: number[], slope: number, intercept: number): number {
+    if (costs.length < 3) {
+      return 0;
+    }
+    const squaredResiduals = costs.reduce((sum, cost, index) => {
+      const residual = cost - (intercept + slope * (index + 1));
+      return sum + residual * residual;
+    }, 0);
+    // 回帰で2自由度を消費
+    return Math.sqrt(squaredResiduals / (costs.length - 2));
+  }
+}
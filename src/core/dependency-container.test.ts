@@ -87,6 +87,20 @@ describe("DependencyContainer", () => {
       expect(retrievedClock.now().getTime()).toBe(123456789);
     });
 
+    test("設定のタイムゾーンで日付を判定する", () => {
+      process.env.NODE_ENV = "production";
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-31T16:00:00Z"));
+
+      try {
+        container.configure({ threshold: 50, daemon: false, interval: 3600, timezone: "Asia/Tokyo" });
+
+        expect(container.getClock().getToday()).toBe("2025-08-01");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
     test("リセット後のClock再生成", () => {
       const clock1 = container.getClock();
       container.reset();
@@ -225,6 +239,58 @@ describe("DependencyContainer", () => {
       expect(service1.constructor.name).toBe("SlackNotificationService");
     });
 
+    test("Discordが選択されている場合はDiscordNotificationServiceを返す", () => {
+      process.env.NODE_ENV = "production";
+      container.configure({ threshold: 50, daemon: false, interval: 3600, notifier: "discord" });
+
+      expect(container.getNotificationService().constructor.name).toBe("DiscordNotificationService");
+    });
+
+    test("Teamsが選択されている場合はTeamsNotificationServiceを返す", () => {
+      process.env.NODE_ENV = "production";
+      container.configure({ threshold: 50, daemon: false, interval: 3600, notifier: "teams" });
+
+      expect(container.getNotificationService().constructor.name).toBe("TeamsNotificationService");
+    });
+
+    test("汎用Webhookが選択されている場合はGenericWebhookNotificationServiceを返す", () => {
+      process.env.NODE_ENV = "production";
+      container.configure({ threshold: 50, daemon: false, interval: 3600, notifier: "webhook", webhook: { method: "PUT" } });
+
+      expect(container.getNotificationService().constructor.name).toBe("GenericWebhookNotificationService");
+    });
+
+    test("メールが選択されている場合はEmailNotificationServiceを返す", () => {
+      process.env.NODE_ENV = "production";
+      container.configure({
+        threshold: 50, daemon: false, interval: 3600, notifier: "email",
+        email: { host: "smtp.example.com", port: 587, from: "alerts@example.com", to: ["finance@example.com"] }
+      });
+
+      expect(container.getNotificationService().constructor.name).toBe("EmailNotificationService");
+    });
+
+    test("デスクトップが選択されている場合はDesktopNotificationServiceを返す", () => {
+      process.env.NODE_ENV = "production";
+      container.configure({ threshold: 50, daemon: false, interval: 3600, notifier: "desktop" });
+
+      expect(container.getNotificationService().constructor.name).toBe("DesktopNotificationService");
+    });
+
+    test("ntfy・Gotifyが選択されている場合はPushNotificationServiceを返す", () => {
+      process.env.NODE_ENV = "production";
+      container.configure({ threshold: 50, daemon: false, interval: 3600, notifier: "gotify", push: { token: "app-token" } });
+
+      expect(container.getNotificationService().constructor.name).toBe("PushNotificationService");
+    });
+
+    test("スクリプトが選択されている場合はScriptNotificationServiceを返す", () => {
+      process.env.NODE_ENV = "production";
+      container.configure({ threshold: 50, daemon: false, interval: 3600, notifier: "script", script: { command: "./pause-ci.sh", timeout: 30 } });
+
+      expect(container.getNotificationService().constructor.name).toBe("ScriptNotificationService");
+    });
+
     test("テストモードでMockNotificationServiceを返す", () => {
       process.env.NODE_ENV = "test";
       
@@ -245,6 +311,24 @@ describe("DependencyContainer", () => {
     });
   });
 
+  describe("ThreadedNotificationService依存性", () => {
+    test("ボットトークン設定時はSlack Web APIで送信する", () => {
+      process.env.NODE_ENV = "production";
+      container.configure({ threshold: 50, daemon: false, interval: 3600, slackBotToken: "xoxb-test", slackChannel: "C123" });
+
+      const dependencies = container.getDependencies();
+
+      expect(dependencies.threadedNotificationService?.constructor.name).toBe("SlackWebApiNotificationService");
+    });
+
+    test("ボットトークン未設定時は含めない", () => {
+      process.env.NODE_ENV = "test";
+      container.configure({ threshold: 50, daemon: false, interval: 3600 });
+
+      expect(container.getDependencies().threadedNotificationService).toBeUndefined();
+    });
+  });
+
   describe("依存性の注入と取得", () => {
     test("全ての依存性が正しく注入される", () => {
       process.env.NODE_ENV = "test";
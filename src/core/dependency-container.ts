@@ -1,9 +1,11 @@
 import type { 
+  Config,
   Clock, 
   Logger, 
   StateRepository, 
   UsageDataRepository, 
-  NotificationService 
+  NotificationService,
+  ThreadedNotificationService
 } from "./interfaces.ts";
 
 import { SystemClock, MockClock } from "../infrastructure/clock.ts";
@@ -11,6 +13,15 @@ import { ConsoleLogger, MockLogger } from "../infrastructure/logger.ts";
 import { FileStateRepository, MemoryStateRepository } from "../infrastructure/state-repository.ts";
 import { CCUsageRepository, MockUsageRepository } from "../infrastructure/usage-repository.ts";
 import { SlackNotificationService, MockNotificationService } from "../infrastructure/notification-service.ts";
+import { DiscordNotificationService } from "../infrastructure/discord-notification-service.ts";
+import { TeamsNotificationService } from "../infrastructure/teams-notification-service.ts";
+import { GenericWebhookNotificationService } from "../infrastructure/generic-webhook-notification-service.ts";
+import { EmailNotificationService } from "../infrastructure/email-notification-service.ts";
+import { DesktopNotificationService } from "../infrastructure/desktop-notification-service.ts";
+import { PushNotificationService } from "../infrastructure/push-notification-service.ts";
+import { ScriptNotificationService } from "../infrastructure/script-notification-service.ts";
+import { NodeCommandExecutor, SpawnCommandExecutor } from "../infrastructure/command-executor.ts";
+import { SlackWebApiNotificationService, MockThreadedNotificationService } from "../infrastructure/slack-web-api.ts";
 
 export interface Dependencies {
   clock: Clock;
@@ -18,6 +29,7 @@ export interface Dependencies {
   stateRepository: StateRepository;
   usageRepository: UsageDataRepository;
   notificationService: NotificationService;
+  threadedNotificationService?: ThreadedNotificationService;
 }
 
 export class DependencyContainer {
@@ -27,6 +39,8 @@ export class DependencyContainer {
   private _stateRepository: StateRepository | null = null;
   private _usageRepository: UsageDataRepository | null = null;
   private _notificationService: NotificationService | null = null;
+  private _threadedNotificationService: ThreadedNotificationService | null = null;
+  private config: Config | null = null;
 
   private constructor() {}
 
@@ -37,19 +51,26 @@ export class DependencyContainer {
     return DependencyContainer.instance;
   }
 
+  // 設定に依存する実装（タイムゾーン等）の生成前に呼び出す
+  configure(config: Config): void {
+    this.config = config;
+  }
+
   getDependencies(useStructuredLogging: boolean = false): Dependencies {
     return {
       clock: this.getClock(),
       logger: this.getLogger(),
       stateRepository: this.getStateRepository(),
       usageRepository: this.getUsageRepository(),
-      notificationService: this.getNotificationService()
+      notificationService: this.getNotificationService(),
+      ...(this.config?.slackBotToken && { threadedNotificationService: this.getThreadedNotificationService() })
     };
   }
 
   getClock(): Clock {
     if (!this._clock) {
-      this._clock = this.isTestMode() ? new MockClock(new Date()) : new SystemClock();
+      const timeZone = this.config?.timezone;
+      this._clock = this.isTestMode() ? new MockClock(new Date(), timeZone) : new SystemClock(timeZone);
     }
     return this._clock;
   }
@@ -94,7 +115,7 @@ export class DependencyContainer {
       if (this.isTestMode()) {
         this._usageRepository = new MockUsageRepository({ monthly: [], totals: { totalCost: 0 } });
       } else {
-        this._usageRepository = new CCUsageRepository(this.getLogger());
+        this._usageRepository = new CCUsageRepository(this.getLogger(), undefined, undefined, this.config?.timezone);
       }
     }
     return this._usageRepository;
@@ -108,6 +129,20 @@ export class DependencyContainer {
     if (!this._notificationService) {
       if (this.isTestMode()) {
         this._notificationService = new MockNotificationService();
+      } else if (this.config?.notifier === "discord") {
+        this._notificationService = new DiscordNotificationService(this.getLogger());
+      } else if (this.config?.notifier === "teams") {
+        this._notificationService = new TeamsNotificationService(this.getLogger());
+      } else if (this.config?.notifier === "webhook") {
+        this._notificationService = new GenericWebhookNotificationService(this.getLogger(), this.config.webhook);
+      } else if (this.config?.notifier === "email" && this.config.email) {
+        this._notificationService = new EmailNotificationService(this.getLogger(), this.config.email);
+      } else if (this.config?.notifier === "desktop") {
+        this._notificationService = new DesktopNotificationService(this.getLogger(), new NodeCommandExecutor(), this.config.desktopReport);
+      } else if (this.config?.notifier === "ntfy" || this.config?.notifier === "gotify") {
+        this._notificationService = new PushNotificationService(this.getLogger(), this.config.notifier, this.config.push);
+      } else if (this.config?.notifier === "script" && this.config.script) {
+        this._notificationService = new ScriptNotificationService(this.getLogger(), new SpawnCommandExecutor(), this.config.script.timeout);
       } else {
         this._notificationService = new SlackNotificationService(this.getLogger());
       }
@@ -119,6 +154,18 @@ export class DependencyContainer {
     this._notificationService = service;
   }
 
+  // ボットトークン（configure()で設定）でSlack Web APIに送信する通知サービス
+  getThreadedNotificationService(): ThreadedNotificationService {
+    if (!this._threadedNotificationService) {
+      if (this.isTestMode()) {
+        this._threadedNotificationService = new MockThreadedNotificationService();
+      } else {
+        this._threadedNotificationService = new SlackWebApiNotificationService(this.config?.slackBotToken ?? "", this.getLogger());
+      }
+    }
+    return this._threadedNotificationService;
+  }
+
   // テスト用: 依存関係を上書き
   setDependencies(dependencies: Dependencies): void {
     this._clock = dependencies.clock;
@@ -126,6 +173,7 @@ export class DependencyContainer {
     this._stateRepository = dependencies.stateRepository;
     this._usageRepository = dependencies.usageRepository;
     this._notificationService = dependencies.notificationService;
+    this._threadedNotificationService = dependencies.threadedNotificationService ?? null;
   }
 
   // テスト用: リセット
@@ -135,6 +183,8 @@ export class DependencyContainer {
     this._stateRepository = null;
     this._usageRepository = null;
     this._notificationService = null;
+    this._threadedNotificationService = null;
+    this.config = null;
   }
 
   private isTestMode(): boolean {
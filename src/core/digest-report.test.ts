@@ -0,0 +1,92 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { DigestReportBuilder } from "./digest-report.ts";
+import type { DailyUsage } from "./interfaces.ts";
+
+function createDay(date: string, opus: number, sonnet: number): DailyUsage {
+  return {
+    date,
+    totalCost: opus + sonnet,
+    modelsUsed: ["claude-opus-4-20250514", "claude-sonnet-4-20250514"],
+    modelBreakdowns: [
+      { model: "claude-opus-4-20250514", inputTokens: 100, outputTokens: 10, cost: opus },
+      { model: "claude-sonnet-4-20250514", inputTokens: 100, outputTokens: 10, cost: sonnet }
+    ]
+  };
+}
+
+// startから毎日opus/sonnetのコストを使用した日次データ
+function createDays(start: string, count: number, opus: number, sonnet: number): DailyUsage[] {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(`${start}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + i);
+    return createDay(date.toISOString().split('T')[0]!, opus, sonnet);
+  });
+}
+
+describe("DigestReportBuilder", () => {
+  let builder: DigestReportBuilder;
+
+  // 6月は毎日$2、7/1〜7/15は毎日$3（opus $2 + sonnet $1）
+  const daily = [
+    ...createDays("2025-06-01", 30, 1, 1),
+    ...createDays("2025-07-01", 15, 2, 1)
+  ];
+
+  beforeEach(() => {
+    builder = new DigestReportBuilder();
+  });
+
+  test("日次レポートは前日と前々日を比較する", () => {
+    const report = builder.build("daily", daily, "2025-07-15");
+
+    expect(report.window).toEqual({ key: "2025-07-14", start: "2025-07-14", end: "2025-07-14" });
+    expect(report.windowCost).toBe(3);
+    expect(report.previousWindowCost).toBe(3);
+  });
+
+  test("週次レポートは前日までの7日間と、その前の7日間", () => {
+    const report = builder.build("weekly", daily, "2025-07-15");
+
+    expect(report.window.key).toBe("2025-07-08〜2025-07-14");
+    expect(report.windowCost).toBe(21);
+    // 7/1〜7/7は$3×7
+    expect(report.previousWindowCost).toBe(21);
+  });
+
+  test("今月の累計と先月同期間", () => {
+    const report = builder.build("daily", daily, "2025-07-15");
+
+    expect(report.month).toEqual({ key: "2025-07", start: "2025-07-01", end: "2025-07-14" });
+    expect(report.monthToDate).toBe(42);
+    expect(report.lastMonthSamePeriod).toBe(28);
+  });
+
+  test("上位モデルと割合", () => {
+    const report = builder.build("daily", daily, "2025-07-15");
+
+    expect(report.topModels).toHaveLength(2);
+    expect(report.topModels[0]!.model).toBe("claude-opus-4-20250514");
+    expect(report.topModels[0]!.cost).toBe(28);
+    expect(report.topModels[0]!.share).toBeCloseTo(2 / 3);
+  });
+
+  test("月末予測は今日の使用分を含める", () => {
+    const report = builder.build("daily", daily, "2025-07-15");
+
+    expect(report.forecast?.projectedTotal).toBeCloseTo(93);
+  });
+
+  test("月初は前月全体を対象にする", () => {
+    const report = builder.build("daily", daily, "2025-07-01");
+
+    expect(report.month).toEqual({ key: "2025-06", start: "2025-06-01", end: "2025-06-30" });
+    expect(report.monthToDate).toBe(60);
+    expect(report.forecast).toBeUndefined();
+  });
+
+  test("必要な日次データの開始日", () => {
+    expect(builder.earliestDate("2025-07-15")).toBe("2025-06-01");
+    expect(builder.earliestDate("2025-07-01")).toBe("2025-05-01");
+    expect(builder.earliestDate("2025-07-10")).toBe("2025-06-01");
+  });
+});
@@ -0,0 +1,92 @@
+import type { DailyUsage, DigestKind } from "./interfaces.ts";
+import { BillingPeriodResolver, type PeriodRange } from "./billing-period.ts";
+import { CostForecaster, type CostForecast } from "./cost-forecaster.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+
+export interface ModelShare {
+  readonly model: string;
+  readonly cost: number;
+  readonly share: number;
+}
+
+export interface DigestReport {
+  readonly kind: DigestKind;
+  // レポート対象期間（日次は前日、週次は前日までの7日間）と、その直前の同じ長さの期間
+  readonly window: PeriodRange;
+  readonly windowCost: number;
+  readonly previousWindowCost: number;
+  // 前日が属する月の前日までの累計と、先月の同じ日までの累計
+  readonly month: PeriodRange;
+  readonly monthToDate: number;
+  readonly lastMonthSamePeriod: number;
+  readonly forecast?: CostForecast;
+  readonly topModels: ModelShare[];
+}
+
+const TOP_MODEL_COUNT = 3;
+
+export class DigestReportBuilder {
+  private periodResolver = new BillingPeriodResolver();
+  private forecaster = new CostForecaster();
+
+  // 今日は集計途中のため、比較には前日までの確定日を使う
+  build(kind: DigestKind, daily: readonly DailyUsage[], today: string): DigestReport {
+    const yesterday = CalendarDate.addDays(today, -1);
+    const days = kind === "daily" ? 1 : 7;
+    const window = this.range(CalendarDate.addDays(today, -days), yesterday);
+    const previousWindow = this.range(CalendarDate.addDays(today, -days * 2), CalendarDate.addDays(today, -days - 1));
+
+    const calendarMonth = this.periodResolver.resolve({ type: "calendar" }, yesterday);
+    const month = { ...calendarMonth, end: yesterday };
+    const monthUsage = this.periodResolver.aggregate(daily, month);
+
+    // 月末予測は今日の月を対象に今日の使用分を含めて行う
+    const currentMonth = this.periodResolver.resolve({ type: "calendar" }, today);
+    const currentMonthCost = this.periodResolver.aggregate(daily, currentMonth).totalCost;
+
+    return {
+      kind,
+      window,
+      windowCost: this.sumCost(daily, window),
+      previousWindowCost: this.sumCost(daily, previousWindow),
+      month,
+      monthToDate: monthUsage.totalCost,
+      lastMonthSamePeriod: this.sumCost(daily, this.samePeriodLastMonth(yesterday)),
+      forecast: this.forecaster.forecast(daily, currentMonth, today, currentMonthCost),
+      topModels: monthUsage.modelBreakdowns
+        .filter(breakdown => breakdown.cost > 0)
+        .sort((a, b) => b.cost - a.cost)
+        .slice(0, TOP_MODEL_COUNT)
+        .map(breakdown => ({
+          model: breakdown.model,
+          cost: breakdown.cost,
+          share: monthUsage.totalCost > 0 ? breakdown.cost / monthUsage.totalCost : 0
+        }))
+    };
+  }
+
+  // レポートに必要な日次データの開始日（先月の1日、または前の7日間の開始日のうち早い方）
+  earliestDate(today: string): string {
+    const lastMonthStart = this.samePeriodLastMonth(CalendarDate.addDays(today, -1)).start;
+    const previousWeekStart = CalendarDate.addDays(today, -14);
+    return lastMonthStart < previousWeekStart ? lastMonthStart : previousWeekStart;
+  }
+
+  // 先月の1日から同じ日まで（先月に同じ日が無い場合は月末まで）
+  private samePeriodLastMonth(date: string): PeriodRange {
+    const [year, month, day] = date.split('-').map(Number);
+    const lastYear = month === 1 ? year! - 1 : year!;
+    const lastMonth = month === 1 ? 12 : month! - 1;
+    const prefix = `${lastYear}-${String(lastMonth).padStart(2, '0')}`;
+    const endDay = Math.min(day!, CalendarDate.daysInMonth(lastYear, lastMonth));
+    return this.range(`${prefix}-01`, `${prefix}-${String(endDay).padStart(2, '0')}`);
+  }
+
+  private sumCost(daily: readonly DailyUsage[], range: PeriodRange): number {
+    return this.periodResolver.aggregate(daily, range).totalCost;
+  }
+
+  private range(start: string, end: string): PeriodRange {
+    return { key: start === end ? start : `${start}〜${end}`, start, end };
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { DigestScheduler } from "./digest-schedule.ts";
+
+describe("DigestScheduler", () => {
+  let scheduler: DigestScheduler;
+  const daily = { kind: "daily" as const, minute: 9 * 60 };
+  // 月曜9:00
+  const weekly = { kind: "weekly" as const, minute: 9 * 60, day: 1 };
+
+  beforeEach(() => {
+    scheduler = new DigestScheduler();
+  });
+
+  test("日次は送信時刻を過ぎていれば今日、前なら昨日", () => {
+    expect(scheduler.latestOccurrence(daily, new Date("2025-07-15T09:00:00Z"), "UTC")).toBe("2025-07-15");
+    expect(scheduler.latestOccurrence(daily, new Date("2025-07-15T08:59:00Z"), "UTC")).toBe("2025-07-14");
+  });
+
+  test("週次は直近の指定曜日", () => {
+    // 2025-07-15は火曜
+    expect(scheduler.latestOccurrence(weekly, new Date("2025-07-15T12:00:00Z"), "UTC")).toBe("2025-07-14");
+    // 月曜の送信時刻前は先週の月曜
+    expect(scheduler.latestOccurrence(weekly, new Date("2025-07-14T08:00:00Z"), "UTC")).toBe("2025-07-07");
+  });
+
+  test("タイムゾーンの現地時刻で判定", () => {
+    // UTC 0:30 = 東京 9:30
+    expect(scheduler.latestOccurrence(daily, new Date("2025-07-15T00:30:00Z"), "Asia/Tokyo")).toBe("2025-07-15");
+  });
+
+  test("送信済みの判定", () => {
+    const now = new Date("2025-07-15T12:00:00Z");
+
+    expect(scheduler.isDue(daily, undefined, now, "UTC")).toBe(true);
+    expect(scheduler.isDue(daily, "2025-07-14", now, "UTC")).toBe(true);
+    expect(scheduler.isDue(daily, "2025-07-15", now, "UTC")).toBe(false);
+    expect(scheduler.isDue(weekly, "2025-07-14", now, "UTC")).toBe(false);
+    expect(scheduler.isDue(weekly, "2025-07-07", now, "UTC")).toBe(true);
+  });
+});
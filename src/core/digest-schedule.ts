@@ -0,0 +1,23 @@
+import type { DigestSchedule } from "./interfaces.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+import { TimeZone } from "../utils/time-zone.ts";
+
+export class DigestScheduler {
+  // 現在時刻以前で直近の送信予定日（timeZoneの暦日）
+  latestOccurrence(schedule: DigestSchedule, now: Date, timeZone: string): string {
+    const today = TimeZone.formatDate(now, timeZone);
+    const [hours = 0, minutes = 0] = TimeZone.formatTime(now, timeZone).split(':').map(Number);
+    let date = hours * 60 + minutes >= schedule.minute ? today : CalendarDate.addDays(today, -1);
+
+    if (schedule.kind === "weekly") {
+      const day = schedule.day ?? 1;
+      date = CalendarDate.addDays(date, -((CalendarDate.dayOfWeek(date) - day + 7) % 7));
+    }
+    return date;
+  }
+
+  // 直近の送信予定日より前にしか送信していなければ送信する（デーモン停止中の分はまとめて1回）
+  isDue(schedule: DigestSchedule, lastSentDate: string | undefined, now: Date, timeZone: string): boolean {
+    return lastSentDate === undefined || lastSentDate < this.latestOccurrence(schedule, now, timeZone);
+  }
+}
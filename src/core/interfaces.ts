@@ -21,12 +21,122 @@ export interface StateRepository {
 
 export interface UsageDataRepository {
   fetchUsageData(): Promise<CCUsageData>;
+  fetchDailyUsageData(since?: string): Promise<CCDailyUsageData>;
+  fetchBlocksData(activeOnly?: boolean): Promise<CCBlocksData>;
 }
 
 export interface NotificationService {
-  send(message: string, webhookUrl: string): Promise<void>;
+  send(message: string | NotificationMessage, webhookUrl: string, type?: NotificationType): Promise<void>;
 }
 
+// スレッドへの返信や送信済みメッセージの更新ができる通知サービス（Slack Web API）。
+// post/updateは送信したメッセージのID（Slackのts）を返す
+export interface ThreadedNotificationService extends NotificationService {
+  post(message: string | NotificationMessage, channel: string, threadId?: string): Promise<string>;
+  update(message: string | NotificationMessage, channel: string, messageId: string): Promise<void>;
+  pin(channel: string, messageId: string): Promise<void>;
+}
+
+// 送信先の形式に依存しない構造化された通知メッセージ。
+// 各通知サービスが送信先の形式（Slack Block Kitなど）に変換し、変換できない場合はテキストにする
+export interface NotificationMessage {
+  readonly icon: string;
+  readonly title: string;
+  readonly severity?: AlertSeverity;
+  readonly heading?: string;
+  readonly fields: readonly NotificationField[];
+  readonly progress?: NotificationProgress;
+  readonly sections?: readonly NotificationSection[];
+  readonly footer?: string;
+  // テンプレートで送信する送信先（汎用Webhook）向けの元の数値
+  readonly usage?: NotificationUsage;
+}
+
+export interface NotificationUsage {
+  readonly cost: number;
+  readonly threshold: number;
+  readonly month: string;
+  readonly models: readonly { readonly model: string; readonly cost: number }[];
+}
+
+export interface NotificationField {
+  readonly label: string;
+  readonly value: string;
+}
+
+export interface NotificationSection {
+  readonly title: string;
+  readonly lines: readonly string[];
+}
+
+// 閾値などの上限に対する使用量
+export interface NotificationProgress {
+  readonly label: string;
+  readonly current: number;
+  readonly limit: number;
+}
+
+// Incoming Webhookの送信先サービス
+export type NotifierType = "slack" | "discord" | "teams" | "webhook" | "email" | "desktop" | "ntfy" | "gotify" | "script";
+
+export type WebhookMethod = "POST" | "PUT" | "PATCH";
+
+// メール通知のSMTPサーバーと宛先
+export interface EmailSettings {
+  readonly host: string;
+  readonly port: number;
+  // 接続時からTLSを使う（ポート465）。falseの場合はstarttlsに従う
+  readonly secure?: boolean;
+  // 平文で接続した後にSTARTTLSで暗号化する（サーバーが対応していない場合はエラー）
+  readonly starttls?: boolean;
+  readonly username?: string;
+  readonly password?: string;
+  readonly from: string;
+  readonly to: readonly string[];
+  readonly cc?: readonly string[];
+}
+
+// プッシュ通知（ntfy / Gotify）の送信設定
+export interface PushSettings {
+  // ntfyのアクセストークン（任意）、Gotifyのアプリトークン（必須）
+  readonly token?: string;
+  // 通知をタップしたときに開くURL
+  readonly click?: string;
+  // ntfyのタグ（絵文字のショートコードはタイトルの前に表示される）
+  readonly tags?: readonly string[];
+}
+
+// 通知ごとに実行するコマンド（シェル経由で実行する）
+export interface ScriptHook {
+  readonly command: string;
+  // この秒数を超えたらコマンドを停止して送信失敗とする
+  readonly timeout: number;
+}
+
+// 汎用Webhookのリクエスト。bodyの文字列中の{{cost}}などのプレースホルダーを通知ごとに置き換える
+export interface WebhookTemplate {
+  readonly method?: WebhookMethod;
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly body?: unknown;
+}
+
+// 通知の種類（閾値超過とは別の種類の通知を区別するために使用する）
+export type NotificationType =
+  | "threshold"
+  | "model"
+  | "token"
+  | "forecast"
+  | "pacing"
+  | "burn-rate"
+  | "block"
+  | "anomaly"
+  | "weekly"
+  | "recovery"
+  | "period-reset"
+  | "held"
+  | "digest"
+  | "summary";
+
 // Result type for better error handling
 export type Result<T, E = Error> = 
   | { success: true; data: T }
@@ -36,6 +146,111 @@ export type Result<T, E = Error> =
 export interface DaemonState {
   readonly lastNotificationDate?: string;
   readonly lastExceedanceDate?: string;
+  readonly alertTierState?: AlertTierState;
+  readonly lastForecastAlertPeriod?: string;
+  readonly lastPacingAlertDate?: string;
+  // モデル別閾値ごとの最終通知日（キーは閾値設定のモデル名）
+  readonly modelNotificationDates?: Readonly<Record<string, string>>;
+  // トークン上限の種類ごとの最終通知日
+  readonly tokenNotificationDates?: Readonly<Partial<Record<TokenQuotaType, string>>>;
+  readonly blockAlertState?: BlockAlertState;
+  // 消費ペース算出用の前回チェック時のコスト
+  readonly lastCostSample?: CostSample;
+  readonly lastBurnRateAlertAt?: string;
+  readonly lastAnomalyAlertDate?: string;
+  readonly weeklyAlertState?: WeeklyAlertState;
+  // 閾値に対する直近の状態（超過→回復、期間の切り替えの検出に使用する）
+  readonly thresholdStatus?: ThresholdStatusState;
+  readonly cadenceState?: CadenceState;
+  // 静かな時間帯に保留した通知（時間帯の終了後にまとめて送信する）
+  readonly heldNotifications?: readonly HeldNotification[];
+  // 定期レポートの種類ごとの最終送信日（送信予定日）
+  readonly lastDigestDates?: Readonly<Partial<Record<DigestKind, string>>>;
+  // 月（YYYY-MM）ごとに送信したアラート数（月次サマリー用）
+  readonly alertCounts?: Readonly<Record<string, number>>;
+  readonly lastSummaryMonth?: string;
+  readonly notificationThread?: NotificationThreadState;
+}
+
+// Slack Web APIで送信したメッセージ。期間の最初の閾値超過通知をスレッドの親とし、
+// 状況メッセージはピン留めして毎回のチェックで更新する
+export interface NotificationThreadState {
+  readonly channel: string;
+  readonly period?: string;
+  readonly threadId?: string;
+  readonly statusMessageId?: string;
+}
+
+export interface HeldNotification {
+  readonly type: NotificationType;
+  readonly message: string;
+  readonly heldAt: string;
+}
+
+// 閾値超過通知の再通知ポリシー
+export type NotificationCadence =
+  | { readonly type: "once-per-period" }
+  | { readonly type: "daily" }
+  | { readonly type: "interval"; readonly hours: number }
+  | { readonly type: "escalating"; readonly hours: readonly number[] }
+  | { readonly type: "cost-growth"; readonly amount: number };
+
+// 閾値超過通知の送信履歴と次回通知可能な日時
+export interface CadenceState {
+  readonly policy: string;
+  readonly period: string;
+  readonly lastAlertAt: string;
+  readonly lastAlertCost: number;
+  readonly alertCount: number;
+  readonly nextAlertAt?: string;
+  readonly nextAlertCost?: number;
+}
+
+export type ThresholdStatus = "ok" | "exceeded";
+
+export interface ThresholdStatusState {
+  readonly period: string;
+  readonly status: ThresholdStatus;
+  // 現在の状態になった日時（ISO 8601）
+  readonly since: string;
+}
+
+export interface CostSample {
+  readonly timestamp: string;
+  readonly period: string;
+  readonly cost: number;
+}
+
+// 消費ペース（$/時間）の上限と、アラート後に再通知しない時間
+export interface BurnRateLimit {
+  readonly costPerHour: number;
+  readonly cooldownMinutes: number;
+}
+
+// 日次コストの異常検知（過去N日間の中央値・MADによる修正zスコア）
+export interface AnomalyDetection {
+  readonly lookbackDays: number;
+  readonly threshold: number;
+}
+
+// 5時間ブロックの上限（未指定の項目は判定しない）
+export interface BlockLimits {
+  readonly tokenLimit?: number;
+  readonly costLimit?: number;
+}
+
+export type BlockAlertKind = "cost" | "tokens" | "projected-cost" | "projected-tokens";
+
+// ブロックごとに通知済みのアラート種別を記録
+export interface BlockAlertState {
+  readonly blockId: string;
+  readonly alerts: readonly BlockAlertKind[];
+}
+
+// 期間ごとに通知済みのアラートティア（閾値に対する%）を記録
+export interface AlertTierState {
+  readonly period: string;
+  readonly announcedPercents: readonly number[];
 }
 
 export interface CCUsageData {
@@ -43,6 +258,48 @@ export interface CCUsageData {
   readonly totals: { totalCost: number };
 }
 
+export interface CCDailyUsageData {
+  readonly daily: DailyUsage[];
+  readonly totals: { totalCost: number };
+}
+
+export interface CCBlocksData {
+  readonly blocks: SessionBlock[];
+}
+
+// ccusageの5時間課金ブロック
+export interface SessionBlock {
+  readonly id: string;
+  readonly startTime: string;
+  readonly endTime: string;
+  readonly actualEndTime?: string | null;
+  readonly isActive: boolean;
+  readonly isGap?: boolean;
+  readonly entries: number;
+  readonly tokenCounts: {
+    readonly inputTokens: number;
+    readonly outputTokens: number;
+    readonly cacheCreationInputTokens: number;
+    readonly cacheReadInputTokens: number;
+  };
+  readonly totalTokens: number;
+  readonly costUSD: number;
+  readonly models: string[];
+  readonly burnRate?: { readonly tokensPerMinute: number; readonly costPerHour: number } | null;
+  readonly projection?: {
+    readonly totalTokens: number;
+    readonly totalCost: number;
+    readonly remainingMinutes: number;
+  } | null;
+}
+
+export interface DailyUsage {
+  readonly date: string;
+  readonly totalCost: number;
+  readonly modelsUsed: string[];
+  readonly modelBreakdowns: ModelBreakdown[];
+}
+
 export interface MonthlyUsage {
   readonly month: string;
   readonly totalCost: number;
@@ -54,14 +311,129 @@ export interface ModelBreakdown {
   readonly model: string;
   readonly inputTokens: number;
   readonly outputTokens: number;
+  readonly cacheCreationTokens?: number;
+  readonly cacheReadTokens?: number;
   readonly cost: number;
 }
 
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export interface AlertTier {
+  readonly percent: number;
+  readonly severity: AlertSeverity;
+  readonly message?: string;
+}
+
+// モデル名またはモデルファミリー（部分一致）ごとの閾値
+export interface ModelThreshold {
+  readonly model: string;
+  readonly threshold: number;
+}
+
+// トークン数による上限（入力・出力・合計）
+export type TokenQuotaType = "input" | "output" | "total";
+
+export interface TokenQuota {
+  readonly type: TokenQuotaType;
+  readonly limit: number;
+}
+
+// 日割り予算の配分方法（暦日 or 平日のみ）
+export type PacingMode = "calendar" | "workdays";
+
+// 集計期間（暦月、指定日開始の請求サイクル、指定曜日開始の週、直近N日間のローリング期間）
+export type BillingPeriod =
+  | { readonly type: "calendar" }
+  | { readonly type: "cycle"; readonly startDay: number }
+  | { readonly type: "weekly"; readonly startDay: number }
+  | { readonly type: "rolling"; readonly days: number };
+
+// 週単位の上限（曜日は0: 日曜 〜 6: 土曜、タイムゾーン未指定時は全体の設定に従う）
+export interface WeeklyLimits {
+  readonly startDay: number;
+  readonly costLimit?: number;
+  readonly tokenLimit?: number;
+  readonly timezone?: string;
+}
+
+export type WeeklyAlertKind = "cost" | "tokens";
+
+// 週ごとに通知済みのアラート種別を記録
+export interface WeeklyAlertState {
+  readonly week: string;
+  readonly alerts: readonly WeeklyAlertKind[];
+}
+
+// 通知を保留する時間帯（曜日は開始時刻の曜日、終了が開始以前の場合は翌日に終わる）
+export interface QuietWindow {
+  readonly days: readonly number[];
+  // 0:00からの分（終了は24:00 = 1440まで）
+  readonly startMinute: number;
+  readonly endMinute: number;
+}
+
+export interface QuietHours {
+  readonly windows: readonly QuietWindow[];
+  readonly timezone?: string;
+  // criticalの通知は静かな時間帯でも送信する
+  readonly allowCritical: boolean;
+}
+
+export type DigestKind = "daily" | "weekly";
+
+// デーモンモードで送信する定期レポートの送信時刻
+export interface DigestSchedule {
+  readonly kind: DigestKind;
+  // 0:00からの分
+  readonly minute: number;
+  // 週次レポートの送信曜日（0: 日曜 〜 6: 土曜）
+  readonly day?: number;
+}
+
 export interface Config {
   readonly threshold: number;
   readonly daemon: boolean;
   readonly interval: number;
-  readonly slackWebhookUrl?: string;
+  // Incoming WebhookのURL。送信形式はnotifier（未指定時はURLのホストから判定）で決まる
+  readonly webhookUrl?: string;
+  readonly notifier?: NotifierType;
+  // notifierがwebhookの場合のリクエスト（設定ファイルでのみ指定可能）
+  readonly webhook?: WebhookTemplate;
+  // notifierがemailの場合の送信設定（設定ファイルで指定し、パスワードはCCWATCH_SMTP_PASSWORDでも指定可能）
+  readonly email?: EmailSettings;
+  // notifierがntfy・gotifyの場合の送信設定（トークンはCCWATCH_PUSH_TOKENでも指定可能）
+  readonly push?: PushSettings;
+  // notifierがscriptの場合に実行するコマンド
+  readonly script?: ScriptHook;
+  // notifierがdesktopの場合に「レポートを開く」アクションで開くURLまたはファイル
+  readonly desktopReport?: string;
+  // 設定時はIncoming WebhookではなくSlack Web APIでchannelに送信する
+  readonly slackBotToken?: string;
+  readonly slackChannel?: string;
+  readonly alertTiers?: readonly AlertTier[];
+  readonly forecast?: boolean;
+  readonly pacing?: PacingMode;
+  readonly modelThresholds?: readonly ModelThreshold[];
+  readonly tokenQuotas?: readonly TokenQuota[];
+  readonly period?: BillingPeriod;
+  // 日付・月の境界を判定するIANAタイムゾーン（未指定時はシステムのタイムゾーン）
+  readonly timezone?: string;
+  // 5時間ブロック監視（設定時のみアクティブブロックを取得する）
+  readonly blocks?: BlockLimits;
+  readonly burnRate?: BurnRateLimit;
+  readonly anomaly?: AnomalyDetection;
+  readonly weekly?: WeeklyLimits;
+  // 閾値内への回復、新しい期間の開始を通知する
+  readonly notifyRecovery?: boolean;
+  readonly notifyPeriodReset?: boolean;
+  // 閾値超過の再通知ポリシー（未指定時は1日1回）
+  readonly cadence?: NotificationCadence;
+  readonly quietHours?: QuietHours;
+  readonly digests?: readonly DigestSchedule[];
+  // 月が変わった時点で前月のサマリーを送信する（デーモンモード）
+  readonly monthlySummary?: boolean;
+  // 指定した過去の月（YYYY-MM）のサマリーを表示して終了する
+  readonly summaryMonth?: string;
 }
 
 export interface ValidationError {
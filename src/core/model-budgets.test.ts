@@ -0,0 +1,58 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { ModelBudgetEvaluator } from "./model-budgets.ts";
+import type { ModelBreakdown } from "./interfaces.ts";
+
+describe("ModelBudgetEvaluator", () => {
+  let evaluator: ModelBudgetEvaluator;
+  const breakdowns: ModelBreakdown[] = [
+    { model: "claude-opus-4-20250514", inputTokens: 1000, outputTokens: 500, cost: 18 },
+    { model: "claude-3-opus-20240229", inputTokens: 200, outputTokens: 100, cost: 4 },
+    { model: "claude-sonnet-4-20250514", inputTokens: 5000, outputTokens: 2000, cost: 12 }
+  ];
+
+  beforeEach(() => {
+    evaluator = new ModelBudgetEvaluator();
+  });
+
+  test("モデルファミリー単位でコストを合算", () => {
+    const [opus] = evaluator.evaluate(breakdowns, [{ model: "opus", threshold: 20 }]);
+
+    expect(opus!.cost).toBe(22);
+    expect(opus!.exceeded).toBe(true);
+    expect(opus!.matchedModels).toEqual(["claude-opus-4-20250514", "claude-3-opus-20240229"]);
+  });
+
+  test("モデル名の完全指定", () => {
+    const [sonnet] = evaluator.evaluate(breakdowns, [{ model: "claude-sonnet-4-20250514", threshold: 15 }]);
+
+    expect(sonnet!.cost).toBe(12);
+    expect(sonnet!.exceeded).toBe(false);
+  });
+
+  test("大文字小文字を区別しない", () => {
+    const [opus] = evaluator.evaluate(breakdowns, [{ model: "Opus-4", threshold: 10 }]);
+
+    expect(opus!.cost).toBe(18);
+    expect(opus!.exceeded).toBe(true);
+  });
+
+  test("該当モデルが無い場合はコスト0", () => {
+    const [haiku] = evaluator.evaluate(breakdowns, [{ model: "haiku", threshold: 5 }]);
+
+    expect(haiku!.cost).toBe(0);
+    expect(haiku!.exceeded).toBe(false);
+    expect(haiku!.matchedModels).toEqual([]);
+  });
+
+  test("複数の閾値を設定順に評価", () => {
+    const statuses = evaluator.evaluate(breakdowns, [
+      { model: "sonnet", threshold: 10 },
+      { model: "opus", threshold: 30 }
+    ]);
+
+    expect(statuses.map(status => [status.model, status.exceeded])).toEqual([
+      ["sonnet", true],
+      ["opus", false]
+    ]);
+  });
+});
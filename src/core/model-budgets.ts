@@ -0,0 +1,31 @@
+import type { ModelBreakdown, ModelThreshold } from "./interfaces.ts";
+
+export interface ModelBudgetStatus {
+  readonly model: string;
+  readonly threshold: number;
+  readonly cost: number;
+  readonly exceeded: boolean;
+  readonly matchedModels: string[];
+}
+
+export class ModelBudgetEvaluator {
+  // モデル名は大文字小文字を区別せず部分一致で判定する（"opus"でOpus系全体を対象にできる）
+  evaluate(breakdowns: readonly ModelBreakdown[], thresholds: readonly ModelThreshold[]): ModelBudgetStatus[] {
+    return thresholds.map(rule => {
+      const matched = breakdowns.filter(breakdown => this.matches(breakdown.model, rule.model));
+      const cost = matched.reduce((sum, breakdown) => sum + breakdown.cost, 0);
+
+      return {
+        model: rule.model,
+        threshold: rule.threshold,
+        cost,
+        exceeded: cost > rule.threshold,
+        matchedModels: matched.map(breakdown => breakdown.model)
+      };
+    });
+  }
+
+  private matches(modelName: string, pattern: string): boolean {
+    return modelName.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
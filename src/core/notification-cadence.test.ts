@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { NotificationCadenceEvaluator, type CadenceContext } from "./notification-cadence.ts";
+
+describe("NotificationCadenceEvaluator", () => {
+  let evaluator: NotificationCadenceEvaluator;
+
+  const context: CadenceContext = {
+    period: "2025-07",
+    now: new Date("2025-07-15T12:00:00Z"),
+    today: "2025-07-15",
+    cost: 45,
+    timeZone: "UTC"
+  };
+
+  function later(hours: number, overrides: Partial<CadenceContext> = {}): CadenceContext {
+    return { ...context, now: new Date(context.now.getTime() + hours * 3600000), ...overrides };
+  }
+
+  beforeEach(() => {
+    evaluator = new NotificationCadenceEvaluator();
+  });
+
+  test("ポリシーの表記", () => {
+    expect(evaluator.describe({ type: "daily" })).toBe("daily");
+    expect(evaluator.describe({ type: "interval", hours: 6 })).toBe("interval:6h");
+    expect(evaluator.describe({ type: "escalating", hours: [1, 4, 24] })).toBe("escalating:1h,4h,24h");
+    expect(evaluator.describe({ type: "cost-growth", amount: 10 })).toBe("cost-growth:$10");
+  });
+
+  test("1日1回は最終通知日で判定し、翌日0時まで待つ", () => {
+    const decision = evaluator.decide({ type: "daily" }, { ...context, lastNotificationDate: "2025-07-15" });
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.nextAlertAt?.toISOString()).toBe("2025-07-16T00:00:00.000Z");
+    expect(evaluator.decide({ type: "daily" }, { ...context, lastNotificationDate: "2025-07-14" }).allowed).toBe(true);
+  });
+
+  test("期間内1回", () => {
+    const cadence = { type: "once-per-period" as const };
+    const state = evaluator.record(cadence, context);
+
+    expect(state.nextAlertAt).toBeUndefined();
+    expect(evaluator.decide(cadence, later(240, { state })).allowed).toBe(false);
+    expect(evaluator.decide(cadence, later(480, { state, period: "2025-08" })).allowed).toBe(true);
+  });
+
+  test("N時間ごと", () => {
+    const cadence = { type: "interval" as const, hours: 6 };
+    const state = evaluator.record(cadence, context);
+
+    expect(state).toEqual({
+      policy: "interval:6h",
+      period: "2025-07",
+      lastAlertAt: "2025-07-15T12:00:00.000Z",
+      lastAlertCost: 45,
+      alertCount: 1,
+      nextAlertAt: "2025-07-15T18:00:00.000Z"
+    });
+    expect(evaluator.decide(cadence, later(5, { state })).allowed).toBe(false);
+    expect(evaluator.decide(cadence, later(6, { state })).allowed).toBe(true);
+  });
+
+  test("段階的に間隔を伸ばし、最後の間隔を繰り返す", () => {
+    const cadence = { type: "escalating" as const, hours: [1, 4, 24] };
+
+    const first = evaluator.record(cadence, context);
+    expect(first.nextAlertAt).toBe("2025-07-15T13:00:00.000Z");
+
+    const second = evaluator.record(cadence, later(1, { state: first }));
+    expect(second.alertCount).toBe(2);
+    expect(second.nextAlertAt).toBe("2025-07-15T17:00:00.000Z");
+
+    const third = evaluator.record(cadence, later(5, { state: second }));
+    expect(third.nextAlertAt).toBe("2025-07-16T17:00:00.000Z");
+
+    const fourth = evaluator.record(cadence, later(29, { state: third }));
+    expect(fourth.nextAlertAt).toBe("2025-07-17T17:00:00.000Z");
+  });
+
+  test("コストの増加額で再通知", () => {
+    const cadence = { type: "cost-growth" as const, amount: 10 };
+    const state = evaluator.record(cadence, context);
+
+    expect(state.nextAlertCost).toBe(55);
+
+    const decision = evaluator.decide(cadence, later(1, { state, cost: 54 }));
+    expect(decision.allowed).toBe(false);
+    expect(decision.nextAlertCost).toBe(55);
+    expect(evaluator.decide(cadence, later(1, { state, cost: 56 })).allowed).toBe(true);
+  });
+
+  test("ポリシーを変更した場合は履歴を引き継がない", () => {
+    const state = evaluator.record({ type: "interval", hours: 24 }, context);
+
+    const decision = evaluator.decide({ type: "interval", hours: 1 }, later(0.5, { state }));
+
+    expect(decision.allowed).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import type { CadenceState, NotificationCadence } from "./interfaces.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+import { TimeZone } from "../utils/time-zone.ts";
+
+export interface CadenceContext {
+  readonly period: string;
+  readonly now: Date;
+  readonly today: string;
+  readonly cost: number;
+  readonly timeZone: string;
+  // 1日1回ポリシーは従来どおり最終通知日で判定する
+  readonly lastNotificationDate?: string;
+  readonly state?: CadenceState;
+}
+
+export interface CadenceDecision {
+  readonly policy: string;
+  readonly allowed: boolean;
+  // 通知できない場合に、次に通知可能になる日時またはコスト
+  readonly nextAlertAt?: Date;
+  readonly nextAlertCost?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class NotificationCadenceEvaluator {
+  describe(cadence: NotificationCadence): string {
+    switch (cadence.type) {
+      case "interval":
+        return `interval:${cadence.hours}h`;
+      case "escalating":
+        return `escalating:${cadence.hours.map(hours => `${hours}h`).join(",")}`;
+      case "cost-growth":
+        return `cost-growth:$${cadence.amount}`;
+      default:
+        return cadence.type;
+    }
+  }
+
+  decide(cadence: NotificationCadence, context: CadenceContext): CadenceDecision {
+    const policy = this.describe(cadence);
+
+    if (cadence.type === "daily") {
+      const allowed = context.lastNotificationDate !== context.today;
+      return {
+        policy,
+        allowed,
+        ...(!allowed && { nextAlertAt: this.nextDayStart(context) })
+      };
+    }
+
+    // 期間またはポリシーが変わった場合は履歴を引き継がない
+    const state = this.currentState(policy, context);
+    if (!state) {
+      return { policy, allowed: true };
+    }
+
+    switch (cadence.type) {
+      case "once-per-period":
+        return { policy, allowed: false };
+      case "cost-growth": {
+        const nextAlertCost = state.nextAlertCost ?? state.lastAlertCost + cadence.amount;
+        return { policy, allowed: context.cost > nextAlertCost, nextAlertCost };
+      }
+      default: {
+        const nextAlertAt = state.nextAlertAt ? new Date(state.nextAlertAt) : undefined;
+        return {
+          policy,
+          allowed: !nextAlertAt || context.now.getTime() >= nextAlertAt.getTime(),
+          ...(nextAlertAt && { nextAlertAt })
+        };
+      }
+    }
+  }
+
+  // 通知送信後の状態（次回通知可能な日時を含む）
+  record(cadence: NotificationCadence, context: CadenceContext): CadenceState {
+    const policy = this.describe(cadence);
+    const alertCount = (this.currentState(policy, context)?.alertCount ?? 0) + 1;
+    const nextAlertAt = this.nextAlertAt(cadence, context, alertCount);
+
+    return {
+      policy,
+      period: context.period,
+      lastAlertAt: context.now.toISOString(),
+      lastAlertCost: context.cost,
+      alertCount,
+      ...(nextAlertAt && { nextAlertAt: nextAlertAt.toISOString() }),
+      ...(cadence.type === "cost-growth" && { nextAlertCost: context.cost + cadence.amount })
+    };
+  }
+
+  // エスカレーションは通知回数に応じて間隔を伸ばし、最後の間隔を以降も使う
+  private nextAlertAt(cadence: NotificationCadence, context: CadenceContext, alertCount: number): Date | undefined {
+    switch (cadence.type) {
+      case "daily":
+        return this.nextDayStart(context);
+      case "interval":
+        return new Date(context.now.getTime() + cadence.hours * HOUR_MS);
+      case "escalating": {
+        const hours = cadence.hours[Math.min(alertCount, cadence.hours.length) - 1]!;
+        return new Date(context.now.getTime() + hours * HOUR_MS);
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private currentState(policy: string, context: CadenceContext): CadenceState | undefined {
+    const state = context.state;
+    return state && state.period === context.period && state.policy === policy ? state : undefined;
+  }
+
+  private nextDayStart(context: CadenceContext): Date {
+    return TimeZone.startOfDay(CalendarDate.addDays(context.today, 1), context.timeZone);
+  }
+}
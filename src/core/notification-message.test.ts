@@ -0,0 +1,61 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { NotificationMessageFormatter } from "./notification-message.ts";
+import type { NotificationMessage } from "./interfaces.ts";
+
+describe("NotificationMessageFormatter", () => {
+  let formatter: NotificationMessageFormatter;
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    heading: "2025-07の使用状況",
+    fields: [
+      { label: "現在のコスト", value: "$45.50" },
+      { label: "設定閾値", value: "$40.00" }
+    ],
+    progress: { label: "閾値に対する割合", current: 45.5, limit: 40 },
+    sections: [{ title: "🤖 モデル別内訳", lines: ["• claude-sonnet-4-20250514: $45.50 (100%)"] }],
+    footer: "適切な使用量管理をお願いします。"
+  };
+
+  beforeEach(() => {
+    formatter = new NotificationMessageFormatter();
+  });
+
+  test("構造化メッセージをテキストに変換する", () => {
+    expect(formatter.toText(message)).toBe(`🚨 *Claude Code使用料金が閾値を超過しました* 🚨
+
+📊 *2025-07の使用状況*
+• 現在のコスト: $45.50
+• 設定閾値: $40.00
+• 閾値に対する割合: ▓▓▓▓▓▓▓▓▓▓ 113.8%
+
+*🤖 モデル別内訳*
+• claude-sonnet-4-20250514: $45.50 (100%)
+
+適切な使用量管理をお願いします。`);
+  });
+
+  test("テキストはそのまま返す", () => {
+    expect(formatter.toText("テストメッセージ")).toBe("テストメッセージ");
+  });
+
+  test("装飾の無いタイトル", () => {
+    expect(formatter.title(message)).toBe("Claude Code使用料金が閾値を超過しました");
+    expect(formatter.title("🗓️ *Claude Code 月次サマリー (2025-06)*\n• 合計コスト: $12.00")).toBe("Claude Code 月次サマリー (2025-06)");
+  });
+
+  test("プログレスバー", () => {
+    expect(formatter.progressBar({ label: "割合", current: 0, limit: 40 })).toBe("░░░░░░░░░░ 0.0%");
+    expect(formatter.progressBar({ label: "割合", current: 30, limit: 40 })).toBe("▓▓▓▓▓▓▓▓░░ 75.0%");
+    expect(formatter.progressBar({ label: "割合", current: 80, limit: 40 })).toBe("▓▓▓▓▓▓▓▓▓▓ 200.0%");
+  });
+
+  test("増減率", () => {
+    expect(formatter.changeRate(12, 10)).toBe("+20.0%");
+    expect(formatter.changeRate(10, 10)).toBe("+0.0%");
+    expect(formatter.changeRate(7.5, 10)).toBe("-25.0%");
+    expect(formatter.changeRate(5, 0)).toBe("比較データなし");
+  });
+});
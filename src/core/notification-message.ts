@@ -0,0 +1,57 @@
+import type { NotificationMessage, NotificationProgress } from "./interfaces.ts";
+
+const PROGRESS_BAR_WIDTH = 10;
+
+export class NotificationMessageFormatter {
+  // 構造化メッセージを送信できない送信先・クライアント向けのテキスト（Slackのmrkdwn記法）
+  toText(message: string | NotificationMessage): string {
+    if (typeof message === "string") {
+      return message;
+    }
+
+    const lines = message.fields.map(field => `• ${field.label}: ${field.value}`);
+    if (message.progress) {
+      lines.push(`• ${message.progress.label}: ${this.progressBar(message.progress)}`);
+    }
+
+    const blocks = [`${message.icon} *${message.title}* ${message.icon}`];
+    if (message.heading) {
+      lines.unshift(`📊 *${message.heading}*`);
+    }
+    if (lines.length > 0) {
+      blocks.push(lines.join("\n"));
+    }
+    for (const section of message.sections ?? []) {
+      blocks.push(`*${section.title}*\n${section.lines.join("\n")}`);
+    }
+    if (message.footer) {
+      blocks.push(message.footer);
+    }
+    return blocks.join("\n\n");
+  }
+
+  // 件名などに使う装飾の無いタイトル。テキスト通知は1行目から*太字*と前後の絵文字を除く
+  title(message: string | NotificationMessage): string {
+    if (typeof message !== "string") {
+      return message.title;
+    }
+    const firstLine = message.split("\n")[0] ?? "";
+    return firstLine.replace(/\*/g, "").replace(/^[\p{Extended_Pictographic}\uFE0F\s]+|[\p{Extended_Pictographic}\uFE0F\s]+$/gu, "").trim() || firstLine;
+  }
+
+  // "▓▓▓▓▓▓▓▓░░ 80%" 形式。上限を超えた分はバーに含めず割合のみで示す
+  progressBar(progress: NotificationProgress): string {
+    const ratio = progress.limit > 0 ? progress.current / progress.limit : 0;
+    const filled = Math.min(PROGRESS_BAR_WIDTH, Math.max(0, Math.round(ratio * PROGRESS_BAR_WIDTH)));
+    return `${"▓".repeat(filled)}${"░".repeat(PROGRESS_BAR_WIDTH - filled)} ${(ratio * 100).toFixed(1)}%`;
+  }
+
+  // "+12.5%" 形式の増減率。比較対象が0の場合は増減率を出さない
+  changeRate(current: number, previous: number): string {
+    if (previous === 0) {
+      return "比較データなし";
+    }
+    const change = ((current - previous) / previous) * 100;
+    return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+  }
+}
@@ -0,0 +1,40 @@
+import type { Config, NotificationService, ThreadedNotificationService } from "./interfaces.ts";
+
+export interface NotificationTarget {
+  readonly service: NotificationService;
+  // Incoming WebhookのURL（メール通知の場合は宛先、スクリプト通知の場合はコマンド）、またはSlack Web APIで送信するチャンネル
+  readonly destination: string;
+}
+
+export class NotificationTargetResolver {
+  // ボットトークン設定時はSlack Web APIでチャンネルに、それ以外はIncoming Webhookに送信する
+  resolve(
+    config: Config,
+    notificationService: NotificationService,
+    threadedNotificationService?: ThreadedNotificationService
+  ): NotificationTarget | undefined {
+    if (threadedNotificationService && config.slackChannel) {
+      return { service: threadedNotificationService, destination: config.slackChannel };
+    }
+    const destination = this.destination(config);
+    if (destination) {
+      return { service: notificationService, destination };
+    }
+    return undefined;
+  }
+
+  // notificationServiceの送信先。メール通知は設定の宛先（To）をカンマ区切りで、スクリプト通知は実行するコマンドを渡す。
+  // デスクトップ通知はこのマシン自身に表示するため送信先の設定を持たない
+  destination(config: Config): string | undefined {
+    if (config.notifier === "desktop") {
+      return "desktop";
+    }
+    if (config.notifier === "email") {
+      return config.email && config.email.to.length > 0 ? config.email.to.join(", ") : undefined;
+    }
+    if (config.notifier === "script") {
+      return config.script?.command;
+    }
+    return config.webhookUrl;
+  }
+}
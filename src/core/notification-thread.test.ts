@@ -0,0 +1,56 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { NotificationThreadPolicy } from "./notification-thread.ts";
+
+describe("NotificationThreadPolicy", () => {
+  let policy: NotificationThreadPolicy;
+
+  beforeEach(() => {
+    policy = new NotificationThreadPolicy();
+  });
+
+  test("期間の最初の閾値超過通知でスレッドを開始する", () => {
+    expect(policy.target(undefined, "C123", "2025-07", "threshold")).toEqual({ startsThread: true });
+    expect(policy.target(undefined, "C123", "2025-07", "forecast")).toEqual({ startsThread: false });
+  });
+
+  test("同じ期間の以降の通知はスレッドに返信する", () => {
+    const thread = { channel: "C123", period: "2025-07", threadId: "1720000000.000100" };
+
+    expect(policy.target(thread, "C123", "2025-07", "threshold")).toEqual({ threadId: "1720000000.000100", startsThread: false });
+    expect(policy.target(thread, "C123", "2025-07", "model")).toEqual({ threadId: "1720000000.000100", startsThread: false });
+  });
+
+  test("期間やチャンネルが変わるとスレッドを開始し直す", () => {
+    const thread = { channel: "C123", period: "2025-06", threadId: "1717000000.000100" };
+
+    expect(policy.target(thread, "C123", "2025-07", "threshold")).toEqual({ startsThread: true });
+    expect(policy.target({ ...thread, period: "2025-07" }, "C999", "2025-07", "threshold")).toEqual({ startsThread: true });
+  });
+
+  test("スレッドの開始時も状況メッセージは引き継ぐ", () => {
+    const thread = { channel: "C123", period: "2025-06", threadId: "1717000000.000100", statusMessageId: "1716000000.000100" };
+
+    expect(policy.startThread(thread, "C123", "2025-07", "1720000000.000100")).toEqual({
+      channel: "C123",
+      period: "2025-07",
+      threadId: "1720000000.000100",
+      statusMessageId: "1716000000.000100"
+    });
+    expect(policy.startThread(thread, "C999", "2025-07", "1720000000.000100")).toEqual({
+      channel: "C999",
+      period: "2025-07",
+      threadId: "1720000000.000100"
+    });
+  });
+
+  test("状況メッセージはチャンネルごと", () => {
+    const thread = { channel: "C123", statusMessageId: "1716000000.000100" };
+
+    expect(policy.statusMessageId(thread, "C123")).toBe("1716000000.000100");
+    expect(policy.statusMessageId(thread, "C999")).toBeUndefined();
+    expect(policy.withStatusMessage(undefined, "C123", "1720000000.000200")).toEqual({
+      channel: "C123",
+      statusMessageId: "1720000000.000200"
+    });
+  });
+});
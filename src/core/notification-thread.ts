@@ -0,0 +1,51 @@
+import type { NotificationThreadState, NotificationType } from "./interfaces.ts";
+
+export interface ThreadTarget {
+  // 返信先のスレッド（未指定時はチャンネルに投稿する）
+  readonly threadId?: string;
+  // 投稿したメッセージを期間のスレッドの親にする
+  readonly startsThread: boolean;
+}
+
+export class NotificationThreadPolicy {
+  // 期間の最初の閾値超過通知でスレッドを開始し、同じ期間の以降の通知はそのスレッドに返信する。
+  // スレッドが無い間の他の種類の通知はチャンネルに投稿する
+  target(
+    thread: NotificationThreadState | undefined,
+    channel: string,
+    period: string,
+    type: NotificationType
+  ): ThreadTarget {
+    const threadId = thread?.channel === channel && thread.period === period ? thread.threadId : undefined;
+    if (threadId) {
+      return { threadId, startsThread: false };
+    }
+    return { startsThread: type === "threshold" };
+  }
+
+  startThread(
+    thread: NotificationThreadState | undefined,
+    channel: string,
+    period: string,
+    threadId: string
+  ): NotificationThreadState {
+    return { ...this.forChannel(thread, channel), period, threadId };
+  }
+
+  // 更新対象の状況メッセージ（チャンネルが変わった場合は新しく投稿する）
+  statusMessageId(thread: NotificationThreadState | undefined, channel: string): string | undefined {
+    return thread?.channel === channel ? thread.statusMessageId : undefined;
+  }
+
+  withStatusMessage(
+    thread: NotificationThreadState | undefined,
+    channel: string,
+    statusMessageId: string
+  ): NotificationThreadState {
+    return { ...this.forChannel(thread, channel), statusMessageId };
+  }
+
+  private forChannel(thread: NotificationThreadState | undefined, channel: string): NotificationThreadState {
+    return thread?.channel === channel ? thread : { channel };
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { PeriodSummaryBuilder } from "./period-summary.ts";
+import type { DailyUsage, MonthlyUsage } from "./interfaces.ts";
+
+function createMonth(month: string, models: Record<string, number>): MonthlyUsage {
+  const modelBreakdowns = Object.entries(models).map(([model, cost]) => ({
+    model,
+    inputTokens: 1000,
+    outputTokens: 100,
+    cost
+  }));
+  return {
+    month,
+    totalCost: modelBreakdowns.reduce((sum, breakdown) => sum + breakdown.cost, 0),
+    modelsUsed: Object.keys(models),
+    modelBreakdowns
+  };
+}
+
+function createDay(date: string, cost: number): DailyUsage {
+  return { date, totalCost: cost, modelsUsed: [], modelBreakdowns: [] };
+}
+
+describe("PeriodSummaryBuilder", () => {
+  let builder: PeriodSummaryBuilder;
+
+  const monthly: MonthlyUsage[] = [
+    createMonth("2025-05", { "claude-sonnet-4-20250514": 40 }),
+    createMonth("2025-06", { "claude-sonnet-4-20250514": 15, "claude-opus-4-20250514": 45 })
+  ];
+
+  beforeEach(() => {
+    builder = new PeriodSummaryBuilder();
+  });
+
+  test("合計・モデル別内訳・前月比較", () => {
+    const summary = builder.build("2025-06", monthly, [], 3);
+
+    expect(summary).toBeDefined();
+    expect(summary!.totalCost).toBe(60);
+    expect(summary!.models.map(model => model.model)).toEqual(["claude-opus-4-20250514", "claude-sonnet-4-20250514"]);
+    expect(summary!.models[0]!.share).toBeCloseTo(0.75);
+    expect(summary!.models[0]!.tokens).toBe(1100);
+    expect(summary!.previousMonth).toBe("2025-05");
+    expect(summary!.previousCost).toBe(40);
+    expect(summary!.alertCount).toBe(3);
+  });
+
+  test("対象月の日別データから最も使用した日を求める", () => {
+    const daily = [
+      createDay("2025-05-31", 99),
+      createDay("2025-06-01", 10),
+      createDay("2025-06-12", 25),
+      createDay("2025-06-30", 0),
+      createDay("2025-07-01", 50)
+    ];
+
+    const summary = builder.build("2025-06", monthly, daily);
+
+    expect(summary!.peakDay).toEqual({ date: "2025-06-12", cost: 25 });
+    expect(summary!.activeDays).toBe(2);
+  });
+
+  test("前月のデータが無い場合は比較しない", () => {
+    const summary = builder.build("2025-05", monthly, []);
+
+    expect(summary!.previousMonth).toBe("2025-04");
+    expect(summary!.previousCost).toBeUndefined();
+    expect(summary!.peakDay).toBeUndefined();
+  });
+
+  test("対象月のデータが無い場合", () => {
+    expect(builder.build("2025-07", monthly, [])).toBeUndefined();
+  });
+
+  test("1月の前月は前年の12月", () => {
+    expect(builder.previousMonth("2025-01")).toBe("2024-12");
+  });
+});
@@ -0,0 +1,73 @@
+import type { DailyUsage, MonthlyUsage } from "./interfaces.ts";
+import { BillingPeriodResolver } from "./billing-period.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+
+export interface ModelSummary {
+  readonly model: string;
+  readonly cost: number;
+  readonly share: number;
+  readonly tokens: number;
+}
+
+export interface PeriodSummary {
+  readonly month: string;
+  readonly totalCost: number;
+  readonly models: ModelSummary[];
+  readonly peakDay?: { readonly date: string; readonly cost: number };
+  readonly activeDays: number;
+  readonly previousMonth: string;
+  // 前月の使用データが無い場合はundefined
+  readonly previousCost?: number;
+  readonly alertCount?: number;
+}
+
+export class PeriodSummaryBuilder {
+  private periodResolver = new BillingPeriodResolver();
+
+  // 対象月の使用データが無い場合はundefined
+  build(
+    month: string,
+    monthly: readonly MonthlyUsage[],
+    daily: readonly DailyUsage[],
+    alertCount?: number
+  ): PeriodSummary | undefined {
+    const usage = monthly.find(entry => entry.month === month);
+    if (!usage) {
+      return undefined;
+    }
+
+    const range = this.periodResolver.resolve({ type: "calendar" }, `${month}-01`);
+    const days = daily.filter(day => day.date >= range.start && day.date <= range.end && day.totalCost > 0);
+    const peak = days.reduce<DailyUsage | undefined>(
+      (max, day) => (!max || day.totalCost > max.totalCost ? day : max),
+      undefined
+    );
+
+    const previousMonth = this.previousMonth(month);
+    const previous = monthly.find(entry => entry.month === previousMonth);
+
+    return {
+      month,
+      totalCost: usage.totalCost,
+      models: [...usage.modelBreakdowns]
+        .sort((a, b) => b.cost - a.cost)
+        .map(breakdown => ({
+          model: breakdown.model,
+          cost: breakdown.cost,
+          share: usage.totalCost > 0 ? breakdown.cost / usage.totalCost : 0,
+          tokens: breakdown.inputTokens + breakdown.outputTokens +
+            (breakdown.cacheCreationTokens ?? 0) + (breakdown.cacheReadTokens ?? 0)
+        })),
+      ...(peak && { peakDay: { date: peak.date, cost: peak.totalCost } }),
+      activeDays: days.length,
+      previousMonth,
+      ...(previous && { previousCost: previous.totalCost }),
+      ...(alertCount !== undefined && { alertCount })
+    };
+  }
+
+  // "YYYY-MM" の前月
+  previousMonth(month: string): string {
+    return CalendarDate.addDays(`${month}-01`, -1).substring(0, 7);
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { QuietHoursPolicy } from "./quiet-hours.ts";
+import type { QuietHours } from "./interfaces.ts";
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+describe("QuietHoursPolicy", () => {
+  let policy: QuietHoursPolicy;
+
+  // 毎晩22:00〜翌7:00、土日は終日
+  const quietHours: QuietHours = {
+    windows: [
+      { days: ALL_DAYS, startMinute: 22 * 60, endMinute: 7 * 60 },
+      { days: [0, 6], startMinute: 0, endMinute: 1440 }
+    ],
+    allowCritical: true
+  };
+
+  beforeEach(() => {
+    policy = new QuietHoursPolicy();
+  });
+
+  test("日付をまたぐ時間帯", () => {
+    // 2025-07-15は火曜
+    expect(policy.isQuiet(quietHours, new Date("2025-07-15T23:30:00Z"), "UTC")).toBe(true);
+    expect(policy.isQuiet(quietHours, new Date("2025-07-15T03:00:00Z"), "UTC")).toBe(true);
+    expect(policy.isQuiet(quietHours, new Date("2025-07-15T07:00:00Z"), "UTC")).toBe(false);
+    expect(policy.isQuiet(quietHours, new Date("2025-07-15T21:59:00Z"), "UTC")).toBe(false);
+  });
+
+  test("曜日ごとの時間帯", () => {
+    // 土曜の昼
+    expect(policy.isQuiet(quietHours, new Date("2025-07-19T12:00:00Z"), "UTC")).toBe(true);
+  });
+
+  test("前日の曜日から続く時間帯", () => {
+    const weekdayNights: QuietHours = {
+      windows: [{ days: [1, 2, 3, 4, 5], startMinute: 22 * 60, endMinute: 7 * 60 }],
+      allowCritical: false
+    };
+
+    // 金曜22時開始の時間帯は土曜7時まで
+    expect(policy.isQuiet(weekdayNights, new Date("2025-07-19T06:00:00Z"), "UTC")).toBe(true);
+    // 日曜22時は対象外、月曜6時も日曜開始のため対象外
+    expect(policy.isQuiet(weekdayNights, new Date("2025-07-20T23:00:00Z"), "UTC")).toBe(false);
+    expect(policy.isQuiet(weekdayNights, new Date("2025-07-21T06:00:00Z"), "UTC")).toBe(false);
+  });
+
+  test("タイムゾーンの現地時刻で判定", () => {
+    // UTC 14:00 = 東京 23:00
+    expect(policy.isQuiet(quietHours, new Date("2025-07-15T14:00:00Z"), "Asia/Tokyo")).toBe(true);
+    expect(policy.isQuiet(quietHours, new Date("2025-07-15T14:00:00Z"), "UTC")).toBe(false);
+  });
+
+  test("criticalは設定時のみ保留しない", () => {
+    const night = new Date("2025-07-15T23:30:00Z");
+
+    expect(policy.shouldHold(quietHours, night, "UTC", "critical")).toBe(false);
+    expect(policy.shouldHold(quietHours, night, "UTC", "warning")).toBe(true);
+    expect(policy.shouldHold({ ...quietHours, allowCritical: false }, night, "UTC", "critical")).toBe(true);
+  });
+
+  test("保留した通知をまとめる", () => {
+    const message = policy.combine([
+      { type: "threshold", message: "閾値超過", heldAt: "2025-07-15T23:10:00Z" },
+      { type: "model", message: "モデル別閾値超過", heldAt: "2025-07-16T02:10:00Z" }
+    ], "UTC");
+
+    expect(message).toContain("静かな時間帯に保留した通知 (2件)");
+    expect(message).toContain("🕒 2025-07-15 23:10 の通知\n閾値超過");
+    expect(message).toContain("🕒 2025-07-16 02:10 の通知\nモデル別閾値超過");
+  });
+});
@@ -0,0 +1,46 @@
+import type { AlertSeverity, HeldNotification, QuietHours, QuietWindow } from "./interfaces.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+import { TimeZone } from "../utils/time-zone.ts";
+
+export class QuietHoursPolicy {
+  // 現地時刻（timeZone）でいずれかの時間帯に含まれるか
+  isQuiet(quietHours: QuietHours, now: Date, timeZone: string): boolean {
+    const today = TimeZone.formatDate(now, timeZone);
+    const [hours = 0, minutes = 0] = TimeZone.formatTime(now, timeZone).split(':').map(Number);
+    const minute = hours * 60 + minutes;
+    const dayOfWeek = CalendarDate.dayOfWeek(today);
+    const previousDay = (dayOfWeek + 6) % 7;
+
+    return quietHours.windows.some(window => {
+      if (!this.crossesMidnight(window)) {
+        return window.days.includes(dayOfWeek) && minute >= window.startMinute && minute < window.endMinute;
+      }
+      return (window.days.includes(dayOfWeek) && minute >= window.startMinute) ||
+        (window.days.includes(previousDay) && minute < window.endMinute);
+    });
+  }
+
+  shouldHold(quietHours: QuietHours, now: Date, timeZone: string, severity?: AlertSeverity): boolean {
+    if (quietHours.allowCritical && severity === "critical") {
+      return false;
+    }
+    return this.isQuiet(quietHours, now, timeZone);
+  }
+
+  // 保留した通知を保留時刻付きで1つのメッセージにまとめる
+  combine(held: readonly HeldNotification[], timeZone: string): string {
+    const sections = held.map(notification => {
+      const heldAt = new Date(notification.heldAt);
+      const time = `${TimeZone.formatDate(heldAt, timeZone)} ${TimeZone.formatTime(heldAt, timeZone)}`;
+      return `🕒 ${time} の通知\n${notification.message}`;
+    });
+
+    return `🌅 *静かな時間帯に保留した通知 (${held.length}件)* 🌅
+
+${sections.join("\n\n――――――――――\n\n")}`;
+  }
+
+  private crossesMidnight(window: QuietWindow): boolean {
+    return window.endMinute <= window.startMinute;
+  }
+}
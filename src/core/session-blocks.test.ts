@@ -0,0 +1,100 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SessionBlockEvaluator } from "./session-blocks.ts";
+import type { SessionBlock } from "./interfaces.ts";
+
+function createBlock(overrides: Partial<SessionBlock> = {}): SessionBlock {
+  return {
+    id: "2025-07-15T10:00:00.000Z",
+    startTime: "2025-07-15T10:00:00.000Z",
+    endTime: "2025-07-15T15:00:00.000Z",
+    actualEndTime: "2025-07-15T11:55:00.000Z",
+    isActive: true,
+    isGap: false,
+    entries: 42,
+    tokenCounts: {
+      inputTokens: 1_000_000,
+      outputTokens: 200_000,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0
+    },
+    totalTokens: 1_200_000,
+    costUSD: 12,
+    models: ["claude-opus-4-20250514"],
+    burnRate: null,
+    projection: null,
+    ...overrides
+  };
+}
+
+describe("SessionBlockEvaluator", () => {
+  let evaluator: SessionBlockEvaluator;
+  // ブロック開始から2時間経過
+  const now = new Date("2025-07-15T12:00:00Z");
+
+  beforeEach(() => {
+    evaluator = new SessionBlockEvaluator();
+  });
+
+  test("アクティブなブロックを検索（ギャップは除外）", () => {
+    const blocks = [
+      createBlock({ id: "old", isActive: false }),
+      createBlock({ id: "gap", isGap: true }),
+      createBlock({ id: "active" })
+    ];
+
+    expect(evaluator.findActive(blocks)?.id).toBe("active");
+    expect(evaluator.findActive([createBlock({ isActive: false })])).toBeUndefined();
+  });
+
+  test("経過時間とペースからブロック終了時を予測", () => {
+    const status = evaluator.evaluate(createBlock(), {}, now);
+
+    expect(status.elapsedMinutes).toBe(120);
+    expect(status.remainingMinutes).toBe(180);
+    expect(status.projectedCost).toBeCloseTo(30);
+    expect(status.projectedTokens).toBe(3_000_000);
+    expect(status.triggered).toEqual([]);
+  });
+
+  test("ccusageの予測値を優先する", () => {
+    const block = createBlock({ projection: { totalTokens: 2_000_000, totalCost: 20, remainingMinutes: 180 } });
+
+    const status = evaluator.evaluate(block, {}, now);
+
+    expect(status.projectedCost).toBe(20);
+    expect(status.projectedTokens).toBe(2_000_000);
+  });
+
+  test("実績で超過した項目は予測超過に含めない", () => {
+    const status = evaluator.evaluate(createBlock(), { costLimit: 10, tokenLimit: 2_000_000 }, now);
+
+    expect(status.triggered).toEqual(["cost", "projected-tokens"]);
+  });
+
+  test("上限内の予測は通知対象外", () => {
+    const status = evaluator.evaluate(createBlock(), { costLimit: 50, tokenLimit: 5_000_000 }, now);
+
+    expect(status.triggered).toEqual([]);
+  });
+
+  test("同じブロック内で通知済みの種別は除外", () => {
+    const status = evaluator.evaluate(createBlock(), { costLimit: 10, tokenLimit: 2_000_000 }, now);
+
+    expect(evaluator.pendingAlerts(status, { blockId: status.blockId, alerts: ["cost"] })).toEqual(["projected-tokens"]);
+    // 別ブロックの記録は引き継がない
+    expect(evaluator.pendingAlerts(status, { blockId: "previous", alerts: ["cost"] })).toEqual(["cost", "projected-tokens"]);
+  });
+
+  test("通知済み種別の記録", () => {
+    const status = evaluator.evaluate(createBlock(), { costLimit: 10 }, now);
+
+    expect(evaluator.markAnnounced(status, { blockId: status.blockId, alerts: ["projected-cost"] })).toEqual({
+      blockId: status.blockId,
+      alerts: ["projected-cost", "cost"]
+    });
+    expect(evaluator.markAnnounced(status, { blockId: "previous", alerts: ["tokens"] })).toEqual({
+      blockId: status.blockId,
+      alerts: ["cost"]
+    });
+  });
+});
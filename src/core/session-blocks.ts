@@ -0,0 +1,93 @@
+import type { BlockAlertKind, BlockAlertState, BlockLimits, SessionBlock } from "./interfaces.ts";
+
+export interface SessionBlockStatus {
+  readonly blockId: string;
+  readonly startTime: string;
+  readonly endTime: string;
+  readonly cost: number;
+  readonly tokens: number;
+  readonly elapsedMinutes: number;
+  readonly remainingMinutes: number;
+  readonly projectedCost: number;
+  readonly projectedTokens: number;
+  readonly models: string[];
+  // 現在該当している上限超過（実績で超過済みの項目は予測超過に含めない）
+  readonly triggered: BlockAlertKind[];
+}
+
+export class SessionBlockEvaluator {
+  findActive(blocks: readonly SessionBlock[]): SessionBlock | undefined {
+    return blocks.find(block => block.isActive && !block.isGap);
+  }
+
+  evaluate(block: SessionBlock, limits: BlockLimits, now: Date): SessionBlockStatus {
+    const start = new Date(block.startTime).getTime();
+    const end = new Date(block.endTime).getTime();
+    const elapsedMinutes = Math.max(0, (now.getTime() - start) / 60000);
+    const remainingMinutes = Math.max(0, (end - now.getTime()) / 60000);
+
+    const { projectedCost, projectedTokens } = this.project(block, elapsedMinutes, remainingMinutes);
+
+    const triggered: BlockAlertKind[] = [];
+    if (limits.costLimit !== undefined) {
+      if (block.costUSD > limits.costLimit) triggered.push("cost");
+      else if (projectedCost > limits.costLimit) triggered.push("projected-cost");
+    }
+    if (limits.tokenLimit !== undefined) {
+      if (block.totalTokens > limits.tokenLimit) triggered.push("tokens");
+      else if (projectedTokens > limits.tokenLimit) triggered.push("projected-tokens");
+    }
+
+    return {
+      blockId: block.id,
+      startTime: block.startTime,
+      endTime: block.endTime,
+      cost: block.costUSD,
+      tokens: block.totalTokens,
+      elapsedMinutes,
+      remainingMinutes,
+      projectedCost,
+      projectedTokens,
+      models: block.models,
+      triggered
+    };
+  }
+
+  // 同じブロック内で未通知のアラート種別
+  pendingAlerts(status: SessionBlockStatus, state?: BlockAlertState): BlockAlertKind[] {
+    const announced = state?.blockId === status.blockId ? state.alerts : [];
+    return status.triggered.filter(kind => !announced.includes(kind));
+  }
+
+  markAnnounced(status: SessionBlockStatus, state?: BlockAlertState): BlockAlertState {
+    const announced = state?.blockId === status.blockId ? state.alerts : [];
+    return {
+      blockId: status.blockId,
+      alerts: [...new Set([...announced, ...status.triggered])]
+    };
+  }
+
+  // ccusageの予測値を優先し、無い場合は経過時間あたりのペースでブロック終了時まで延長する
+  private project(
+    block: SessionBlock,
+    elapsedMinutes: number,
+    remainingMinutes: number
+  ): { projectedCost: number; projectedTokens: number } {
+    if (block.projection) {
+      return {
+        projectedCost: block.projection.totalCost,
+        projectedTokens: block.projection.totalTokens
+      };
+    }
+
+    if (elapsedMinutes === 0) {
+      return { projectedCost: block.costUSD, projectedTokens: block.totalTokens };
+    }
+
+    const factor = (elapsedMinutes + remainingMinutes) / elapsedMinutes;
+    return {
+      projectedCost: block.costUSD * factor,
+      projectedTokens: Math.round(block.totalTokens * factor)
+    };
+  }
+}
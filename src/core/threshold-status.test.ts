@@ -0,0 +1,58 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { ThresholdStatusTracker } from "./threshold-status.ts";
+
+describe("ThresholdStatusTracker", () => {
+  let tracker: ThresholdStatusTracker;
+  const now = "2025-07-15T12:00:00.000Z";
+
+  beforeEach(() => {
+    tracker = new ThresholdStatusTracker();
+  });
+
+  test("初回は閾値内なら遷移なし", () => {
+    const change = tracker.update(undefined, "2025-07", false, now);
+
+    expect(change.current).toEqual({ period: "2025-07", status: "ok", since: now });
+    expect(change.transition).toBeUndefined();
+  });
+
+  test("初回から超過している場合は超過への遷移", () => {
+    expect(tracker.update(undefined, "2025-07", true, now).transition).toBe("exceeded");
+  });
+
+  test("閾値内から超過へ", () => {
+    const previous = { period: "2025-07", status: "ok" as const, since: "2025-07-01T00:00:00.000Z" };
+
+    const change = tracker.update(previous, "2025-07", true, now);
+
+    expect(change.transition).toBe("exceeded");
+    expect(change.current).toEqual({ period: "2025-07", status: "exceeded", since: now });
+  });
+
+  test("超過から閾値内への回復（閾値の引き上げなど）", () => {
+    const previous = { period: "2025-07", status: "exceeded" as const, since: "2025-07-10T00:00:00.000Z" };
+
+    const change = tracker.update(previous, "2025-07", false, now);
+
+    expect(change.transition).toBe("recovered");
+    expect(change.previous).toBe(previous);
+  });
+
+  test("状態が変わらない場合は遷移日時を保持する", () => {
+    const previous = { period: "2025-07", status: "exceeded" as const, since: "2025-07-10T00:00:00.000Z" };
+
+    const change = tracker.update(previous, "2025-07", true, now);
+
+    expect(change.transition).toBeUndefined();
+    expect(change.current).toBe(previous);
+  });
+
+  test("期間が変わった場合は期間の切り替え", () => {
+    const previous = { period: "2025-06", status: "exceeded" as const, since: "2025-06-20T00:00:00.000Z" };
+
+    const change = tracker.update(previous, "2025-07", false, "2025-07-01T00:05:00.000Z");
+
+    expect(change.transition).toBe("period-reset");
+    expect(change.current).toEqual({ period: "2025-07", status: "ok", since: "2025-07-01T00:05:00.000Z" });
+  });
+});
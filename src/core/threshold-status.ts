@@ -0,0 +1,42 @@
+import type { ThresholdStatusState } from "./interfaces.ts";
+
+export type ThresholdTransition = "exceeded" | "recovered" | "period-reset";
+
+export interface ThresholdStatusChange {
+  readonly previous?: ThresholdStatusState;
+  readonly current: ThresholdStatusState;
+  readonly transition?: ThresholdTransition;
+}
+
+export class ThresholdStatusTracker {
+  // 前回の状態と比較して遷移を判定する（期間が変わった場合は超過・回復より期間の切り替えを優先する）
+  update(
+    previous: ThresholdStatusState | undefined,
+    period: string,
+    exceeded: boolean,
+    now: string
+  ): ThresholdStatusChange {
+    const status = exceeded ? "exceeded" : "ok";
+
+    if (!previous) {
+      return {
+        current: { period, status, since: now },
+        ...(exceeded && { transition: "exceeded" as const })
+      };
+    }
+
+    if (previous.period !== period) {
+      return { previous, current: { period, status, since: now }, transition: "period-reset" };
+    }
+
+    if (previous.status === status) {
+      return { previous, current: previous };
+    }
+
+    return {
+      previous,
+      current: { period, status, since: now },
+      transition: exceeded ? "exceeded" : "recovered"
+    };
+  }
+}
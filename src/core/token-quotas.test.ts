@@ -0,0 +1,52 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { TokenQuotaEvaluator } from "./token-quotas.ts";
+import type { ModelBreakdown } from "./interfaces.ts";
+
+describe("TokenQuotaEvaluator", () => {
+  let evaluator: TokenQuotaEvaluator;
+
+  const breakdowns: ModelBreakdown[] = [
+    { model: "claude-opus-4-20250514", inputTokens: 1000, outputTokens: 500, cost: 10 },
+    {
+      model: "claude-sonnet-4-20250514",
+      inputTokens: 2000,
+      outputTokens: 1500,
+      cacheCreationTokens: 300,
+      cacheReadTokens: 700,
+      cost: 5
+    }
+  ];
+
+  beforeEach(() => {
+    evaluator = new TokenQuotaEvaluator();
+  });
+
+  test("全モデルのトークンを合算する", () => {
+    expect(evaluator.sumTokens(breakdowns)).toEqual({
+      input: 4000,
+      output: 2000,
+      total: 6000
+    });
+  });
+
+  test("種類ごとに上限を判定する", () => {
+    const statuses = evaluator.evaluate(breakdowns, [
+      { type: "input", limit: 5000 },
+      { type: "output", limit: 1500 },
+      { type: "total", limit: 6000 }
+    ]);
+
+    expect(statuses).toEqual([
+      { type: "input", limit: 5000, used: 4000, exceeded: false },
+      { type: "output", limit: 1500, used: 2000, exceeded: true },
+      { type: "total", limit: 6000, used: 6000, exceeded: false }
+    ]);
+  });
+
+  test("内訳が無い場合は0", () => {
+    const statuses = evaluator.evaluate([], [{ type: "total", limit: 1 }]);
+
+    expect(statuses[0]!.used).toBe(0);
+    expect(statuses[0]!.exceeded).toBe(false);
+  });
+});
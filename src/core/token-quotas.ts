@@ -0,0 +1,38 @@
+import type { ModelBreakdown, TokenQuota, TokenQuotaType } from "./interfaces.ts";
+
+export interface TokenUsage {
+  readonly input: number;
+  readonly output: number;
+  readonly total: number;
+}
+
+export interface TokenQuotaStatus {
+  readonly type: TokenQuotaType;
+  readonly limit: number;
+  readonly used: number;
+  readonly exceeded: boolean;
+}
+
+export class TokenQuotaEvaluator {
+  evaluate(breakdowns: readonly ModelBreakdown[], quotas: readonly TokenQuota[]): TokenQuotaStatus[] {
+    const usage = this.sumTokens(breakdowns);
+
+    return quotas.map(quota => ({
+      type: quota.type,
+      limit: quota.limit,
+      used: usage[quota.type],
+      exceeded: usage[quota.type] > quota.limit
+    }));
+  }
+
+  // キャッシュの作成・読み込みトークンは入力側として数える（ccusageが出力する場合のみ）
+  sumTokens(breakdowns: readonly ModelBreakdown[]): TokenUsage {
+    let input = 0;
+    let output = 0;
+    for (const breakdown of breakdowns) {
+      input += breakdown.inputTokens + (breakdown.cacheCreationTokens ?? 0) + (breakdown.cacheReadTokens ?? 0);
+      output += breakdown.outputTokens;
+    }
+    return { input, output, total: input + output };
+  }
+}
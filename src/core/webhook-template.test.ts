@@ -0,0 +1,70 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { WebhookTemplateRenderer } from "./webhook-template.ts";
+import type { NotificationMessage } from "./interfaces.ts";
+
+describe("WebhookTemplateRenderer", () => {
+  let renderer: WebhookTemplateRenderer;
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    fields: [{ label: "現在のコスト", value: "$45.50" }],
+    usage: {
+      cost: 45.5,
+      threshold: 40,
+      month: "2025-07",
+      models: [{ model: "claude-opus-4-20250514", cost: 30 }, { model: "claude-sonnet-4-20250514", cost: 15.5 }]
+    }
+  };
+
+  beforeEach(() => {
+    renderer = new WebhookTemplateRenderer();
+  });
+
+  test("文字列全体のプレースホルダーは値の型のまま置き換える", () => {
+    const body = renderer.render(
+      { alert: { amount: "{{cost}}", limit: "{{ threshold }}", breakdown: "{{models}}" }, level: "{{severity}}" },
+      renderer.values(message, "threshold")
+    );
+
+    expect(body).toEqual({
+      alert: {
+        amount: 45.5,
+        limit: 40,
+        breakdown: [
+          { model: "claude-opus-4-20250514", cost: 30 },
+          { model: "claude-sonnet-4-20250514", cost: 15.5 }
+        ]
+      },
+      level: "critical"
+    });
+  });
+
+  test("文字列の一部のプレースホルダーは文字列として埋め込む", () => {
+    const body = renderer.render(
+      ["[{{severity}}] {{month}}: ${{cost}} / ${{threshold}} (+{{excess}})", "{{models}}"].map(text => `${text}!`),
+      renderer.values(message, "threshold")
+    );
+
+    expect(body).toEqual([
+      "[critical] 2025-07: $45.5 / $40 (+5.5)!",
+      "claude-opus-4-20250514 ($30.00), claude-sonnet-4-20250514 ($15.50)!"
+    ]);
+  });
+
+  test("テキスト通知では使用量のプレースホルダーは値を持たない", () => {
+    const values = renderer.values("📈 *Claude Code 日次ダイジェスト* 📈\n• 合計: $12.00", "digest");
+
+    expect(values.title).toBe("Claude Code 日次ダイジェスト");
+    expect(values.text).toBe("📈 *Claude Code 日次ダイジェスト* 📈\n• 合計: $12.00");
+    expect(renderer.render({ cost: "{{cost}}", note: "cost={{cost}}", type: "{{type}}" }, values))
+      .toEqual({ cost: null, note: "cost=", type: "digest" });
+  });
+
+  test("未知のプレースホルダー", () => {
+    expect(renderer.unknownPlaceholders({ a: "{{cost}}", b: ["{{amount}} {{user.name}}"], c: 1 }))
+      .toEqual(["amount", "user.name"]);
+    expect(renderer.unknownPlaceholders({ a: "{{cost}}", b: true, c: null })).toEqual([]);
+  });
+});
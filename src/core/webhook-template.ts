@@ -0,0 +1,99 @@
+import type { NotificationMessage, NotificationType } from "./interfaces.ts";
+import { NotificationMessageFormatter } from "./notification-message.ts";
+
+export const WEBHOOK_PLACEHOLDERS = [
+  'text', 'title', 'type', 'severity', 'cost', 'threshold', 'excess', 'month', 'models'
+] as const;
+
+export type WebhookPlaceholder = typeof WEBHOOK_PLACEHOLDERS[number];
+export type WebhookValues = Record<WebhookPlaceholder, unknown>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+// 設定の検証で使う値（全プレースホルダーが値を持つ通知）
+const SAMPLE_VALUES: WebhookValues = {
+  text: "sample",
+  title: "sample",
+  type: "threshold",
+  severity: "critical",
+  cost: 1,
+  threshold: 1,
+  excess: 0,
+  month: "2025-01",
+  models: []
+};
+
+export class WebhookTemplateRenderer {
+  private formatter = new NotificationMessageFormatter();
+
+  // テンプレート中の未知のプレースホルダー（設定の読み込み時に検証する）
+  unknownPlaceholders(template: unknown): string[] {
+    const unknown = new Set<string>();
+    this.render(template, SAMPLE_VALUES, name => unknown.add(name));
+    return [...unknown];
+  }
+
+  // 文字列全体が1つのプレースホルダーの場合は値の型（数値・配列など）のまま置き換え、
+  // 文字列の一部の場合は文字列として埋め込む。値が無いプレースホルダーはnull（埋め込みでは空文字）になる
+  render(template: unknown, values: WebhookValues, onUnknown?: (name: string) => void): unknown {
+    if (typeof template === "string") {
+      const whole = template.match(WHOLE_PLACEHOLDER_PATTERN);
+      if (whole) {
+        return this.lookup(whole[1]!, values, onUnknown) ?? null;
+      }
+      return template.replace(PLACEHOLDER_PATTERN, (_, name: string) =>
+        this.embed(this.lookup(name, values, onUnknown))
+      );
+    }
+    if (Array.isArray(template)) {
+      return template.map(item => this.render(item, values, onUnknown));
+    }
+    if (typeof template === "object" && template !== null) {
+      return Object.fromEntries(
+        Object.entries(template).map(([key, value]) => [key, this.render(value, values, onUnknown)])
+      );
+    }
+    return template;
+  }
+
+  values(message: string | NotificationMessage, type?: NotificationType): WebhookValues {
+    const text = this.formatter.toText(message);
+    const usage = typeof message === "string" ? undefined : message.usage;
+    return {
+      text,
+      title: this.formatter.title(message),
+      type,
+      severity: typeof message === "string" ? undefined : message.severity,
+      cost: usage?.cost,
+      threshold: usage?.threshold,
+      excess: usage && usage.cost - usage.threshold,
+      month: usage?.month,
+      models: usage?.models
+    };
+  }
+
+  private lookup(name: string, values: WebhookValues, onUnknown?: (name: string) => void): unknown {
+    if (!(WEBHOOK_PLACEHOLDERS as readonly string[]).includes(name)) {
+      onUnknown?.(name);
+      return undefined;
+    }
+    return values[name as WebhookPlaceholder];
+  }
+
+  // 文字列に埋め込む形式（環境変数などテキストで値を渡す場合にも使う）
+  embed(value: unknown): string {
+    if (value === undefined || value === null) {
+      return "";
+    }
+    if (Array.isArray(value)) {
+      // モデル別内訳は"モデル名 ($1.23)"のカンマ区切り
+      return value
+        .map(item => typeof item === "object" && item !== null && "model" in item
+          ? `${item.model} ($${Number(item.cost).toFixed(2)})`
+          : String(item))
+        .join(", ");
+    }
+    return typeof value === "number" ? String(Math.round(value * 100) / 100) : String(value);
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { WeeklyLimitEvaluator } from "./weekly-limits.ts";
+import type { DailyUsage } from "./interfaces.ts";
+
+function createDay(date: string, cost: number, tokens: number): DailyUsage {
+  return {
+    date,
+    totalCost: cost,
+    modelsUsed: ["claude-sonnet-4-20250514"],
+    modelBreakdowns: [
+      { model: "claude-sonnet-4-20250514", inputTokens: tokens / 2, outputTokens: tokens / 2, cost }
+    ]
+  };
+}
+
+describe("WeeklyLimitEvaluator", () => {
+  let evaluator: WeeklyLimitEvaluator;
+
+  // 2025-07-13(日)〜07-16(水)
+  const daily: DailyUsage[] = [
+    createDay("2025-07-13", 50, 5_000_000),
+    createDay("2025-07-14", 10, 1_000_000),
+    createDay("2025-07-15", 12, 2_000_000),
+    createDay("2025-07-16", 8, 1_000_000)
+  ];
+
+  beforeEach(() => {
+    evaluator = new WeeklyLimitEvaluator();
+  });
+
+  test("月曜開始の週の使用量とリセットまでの時間", () => {
+    const status = evaluator.evaluate(
+      daily,
+      { startDay: 1, costLimit: 25, tokenLimit: 10_000_000 },
+      new Date("2025-07-16T12:00:00Z"),
+      "UTC"
+    );
+
+    expect(status.week.key).toBe("2025-07-14〜2025-07-20");
+    expect(status.cost).toBeCloseTo(30);
+    expect(status.tokens).toBe(4_000_000);
+    expect(status.resetAt.toISOString()).toBe("2025-07-21T00:00:00.000Z");
+    expect(status.resetInMinutes).toBe(4 * 1440 + 12 * 60);
+    expect(status.exceeded).toEqual(["cost"]);
+  });
+
+  test("日曜開始の週は日曜の使用量を含む", () => {
+    const status = evaluator.evaluate(
+      daily,
+      { startDay: 0, costLimit: 100, tokenLimit: 5_000_000 },
+      new Date("2025-07-16T12:00:00Z"),
+      "UTC"
+    );
+
+    expect(status.week.start).toBe("2025-07-13");
+    expect(status.cost).toBeCloseTo(80);
+    expect(status.exceeded).toEqual(["tokens"]);
+  });
+
+  test("タイムゾーンで週の境界とリセット時刻が決まる", () => {
+    // UTCでは日曜だが東京では月曜
+    const now = new Date("2025-07-20T16:00:00Z");
+
+    expect(evaluator.currentWeek({ startDay: 1 }, now, "UTC").start).toBe("2025-07-14");
+    expect(evaluator.currentWeek({ startDay: 1 }, now, "Asia/Tokyo").start).toBe("2025-07-21");
+
+    const status = evaluator.evaluate([], { startDay: 1, costLimit: 10 }, now, "Asia/Tokyo");
+    expect(status.resetAt.toISOString()).toBe("2025-07-27T15:00:00.000Z");
+  });
+
+  test("同じ週の中では種別ごとに一度だけ通知する", () => {
+    const status = evaluator.evaluate(
+      daily,
+      { startDay: 0, costLimit: 25, tokenLimit: 5_000_000 },
+      new Date("2025-07-16T12:00:00Z"),
+      "UTC"
+    );
+
+    expect(evaluator.pendingAlerts(status)).toEqual(["cost", "tokens"]);
+
+    const state = evaluator.markAnnounced(status, { week: status.week.key, alerts: ["cost"] });
+    expect(state).toEqual({ week: "2025-07-13〜2025-07-19", alerts: ["cost", "tokens"] });
+    expect(evaluator.pendingAlerts(status, state)).toEqual([]);
+  });
+
+  test("週が変わると再度通知する", () => {
+    const status = evaluator.evaluate(
+      daily,
+      { startDay: 1, costLimit: 25 },
+      new Date("2025-07-16T12:00:00Z"),
+      "UTC"
+    );
+
+    expect(evaluator.pendingAlerts(status, { week: "2025-07-07〜2025-07-13", alerts: ["cost"] })).toEqual(["cost"]);
+  });
+});
@@ -0,0 +1,61 @@
+import type { DailyUsage, WeeklyAlertKind, WeeklyAlertState, WeeklyLimits } from "./interfaces.ts";
+import { BillingPeriodResolver, type PeriodRange } from "./billing-period.ts";
+import { TokenQuotaEvaluator } from "./token-quotas.ts";
+import { CalendarDate } from "../utils/calendar-date.ts";
+import { TimeZone } from "../utils/time-zone.ts";
+
+export interface WeeklyLimitStatus {
+  readonly week: PeriodRange;
+  readonly cost: number;
+  readonly tokens: number;
+  readonly resetAt: Date;
+  readonly resetInMinutes: number;
+  readonly exceeded: WeeklyAlertKind[];
+}
+
+export class WeeklyLimitEvaluator {
+  private periodResolver = new BillingPeriodResolver();
+  private tokenQuotaEvaluator = new TokenQuotaEvaluator();
+
+  // 今週（timeZoneでの曜日・日付境界）の日次データを集計して上限と比較する
+  evaluate(daily: readonly DailyUsage[], limits: WeeklyLimits, now: Date, timeZone: string): WeeklyLimitStatus {
+    const week = this.currentWeek(limits, now, timeZone);
+    const usage = this.periodResolver.aggregate(daily, week);
+    const tokens = this.tokenQuotaEvaluator.sumTokens(usage.modelBreakdowns).total;
+
+    const exceeded: WeeklyAlertKind[] = [];
+    if (limits.costLimit !== undefined && usage.totalCost > limits.costLimit) exceeded.push("cost");
+    if (limits.tokenLimit !== undefined && tokens > limits.tokenLimit) exceeded.push("tokens");
+
+    const resetAt = TimeZone.startOfDay(CalendarDate.addDays(week.end, 1), timeZone);
+    return {
+      week,
+      cost: usage.totalCost,
+      tokens,
+      resetAt,
+      resetInMinutes: Math.max(0, (resetAt.getTime() - now.getTime()) / 60000),
+      exceeded
+    };
+  }
+
+  currentWeek(limits: WeeklyLimits, now: Date, timeZone: string): PeriodRange {
+    return this.periodResolver.resolve(
+      { type: "weekly", startDay: limits.startDay },
+      TimeZone.formatDate(now, timeZone)
+    );
+  }
+
+  // 同じ週の中で未通知のアラート種別
+  pendingAlerts(status: WeeklyLimitStatus, state?: WeeklyAlertState): WeeklyAlertKind[] {
+    const announced = state?.week === status.week.key ? state.alerts : [];
+    return status.exceeded.filter(kind => !announced.includes(kind));
+  }
+
+  markAnnounced(status: WeeklyLimitStatus, state?: WeeklyAlertState): WeeklyAlertState {
+    const announced = state?.week === status.week.key ? state.alerts : [];
+    return {
+      week: status.week.key,
+      alerts: [...new Set([...announced, ...status.exceeded])]
+    };
+  }
+}
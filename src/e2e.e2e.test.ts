@@ -1,9 +1,12 @@
 #!/usr/bin/env node
 
 import { test, expect, vi } from "vitest";
-import { execSync, spawn } from "node:child_process";
-import { existsSync, unlinkSync, writeFileSync, readFileSync } from "node:fs";
+import { execSync, exec, spawn } from "node:child_process";
+import { existsSync, unlinkSync, writeFileSync, readFileSync, mkdtempSync, rmSync } from "node:fs";
+import { createServer, type AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { promisify } from "node:util";
 
 // E2E テスト用のヘルパー関数
 function getTestStateFile(): string {
@@ -61,6 +64,83 @@ function setupE2EEnvironment(): { mockScript: string; cleanup: () => void } {
   };
 }
 
+interface ReceivedMail {
+  auth?: string;
+  from: string;
+  recipients: string[];
+  data: string;
+}
+
+// 受信したメールを記録するだけのローカルSMTPサーバー
+async function startSmtpSink(): Promise<{ port: number; messages: ReceivedMail[]; close: () => Promise<void> }> {
+  const messages: ReceivedMail[] = [];
+  const server = createServer(socket => {
+    let buffer = "";
+    let inData = false;
+    let mail: ReceivedMail = { from: "", recipients: [], data: "" };
+    let auth: string | undefined;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply("220 localhost ESMTP sink");
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.substring(0, index);
+        buffer = buffer.substring(index + 2);
+
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            messages.push({ ...mail, auth });
+            mail = { from: "", recipients: [], data: "" };
+            reply("250 OK queued");
+          } else {
+            mail.data += `${line.startsWith("..") ? line.substring(1) : line}\r\n`;
+          }
+          continue;
+        }
+
+        const command = line.toUpperCase();
+        if (command.startsWith("EHLO")) {
+          reply("250-localhost");
+          reply("250-AUTH PLAIN LOGIN");
+          reply("250 8BITMIME");
+        } else if (command.startsWith("AUTH PLAIN")) {
+          auth = Buffer.from(line.substring("AUTH PLAIN ".length), "base64").toString("utf8");
+          reply("235 Authentication successful");
+        } else if (command.startsWith("MAIL FROM:")) {
+          mail.from = line.substring("MAIL FROM:".length);
+          reply("250 OK");
+        } else if (command.startsWith("RCPT TO:")) {
+          mail.recipients.push(line.substring("RCPT TO:".length));
+          reply("250 OK");
+        } else if (command === "DATA") {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (command === "QUIT") {
+          reply("221 Bye");
+          socket.end();
+        } else {
+          reply("502 Command not implemented");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+function decodeMimePart(data: string, contentType: string): string {
+  const part = data.split(/--ccwatch-[0-9a-f]+/).find(section => section.includes(`Content-Type: ${contentType}`))!;
+  return Buffer.from(part.split("\r\n\r\n")[1]!.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
 // E2E テスト開始
 test("E2E - 単発実行モード（基本動作）", async () => {
   const { cleanup } = setupE2EEnvironment();
@@ -164,7 +244,7 @@ test("E2E - デーモンモード（短時間実行）", async () => {
   }
 }, 10000); // 10秒のタイムアウト
 
-test("E2E - 不正なSlack URL", async () => {
+test("E2E - 不正なWebhook URL", async () => {
   try {
     execSync("bun run dist/index.js 50", { 
       encoding: "utf8",
@@ -173,7 +253,7 @@ test("E2E - 不正なSlack URL", async () => {
     throw new Error("Should have thrown an error");
   } catch (error: any) {
     expect(error.status).toBe(1);
-    expect(error.stderr.toString()).toContain("Slack webhook URL");
+    expect(error.stderr.toString()).toContain("Invalid webhook URL");
   }
 });
 
@@ -243,4 +323,80 @@ test.skip("E2E - 型チェック実行", async () => {
     // 型エラーがある場合はテスト失敗
     throw new Error(`Type check failed: ${error.stdout}`);
   }
-});
\ No newline at end of file
+});
+
+test("E2E - メール通知（ローカルSMTPサーバー）", async () => {
+  const sink = await startSmtpSink();
+  const home = mkdtempSync(join(tmpdir(), "ccwatch-e2e-"));
+  const month = `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}`;
+
+  // このテスト専用のccusageモック（月次の使用量のみ返す）
+  const mockScript = join(home, "ccusage");
+  writeFileSync(mockScript, `#!/usr/bin/env node
+console.log(JSON.stringify({
+  monthly: [{
+    month: "${month}",
+    totalCost: 45.67,
+    modelsUsed: ["claude-opus-4-20250514", "claude-sonnet-4-20250514"],
+    modelBreakdowns: [
+      { modelName: "claude-opus-4-20250514", inputTokens: 1000, outputTokens: 2000, cost: 30.00 },
+      { modelName: "claude-sonnet-4-20250514", inputTokens: 1000, outputTokens: 2000, cost: 15.67 }
+    ]
+  }],
+  totals: { totalCost: 45.67 }
+}));
+`);
+  execSync(`chmod +x ${mockScript}`);
+
+  const configFile = join(home, "ccwatch.json");
+  writeFileSync(configFile, JSON.stringify({
+    email: {
+      host: "127.0.0.1",
+      port: sink.port,
+      starttls: false,
+      username: "ccwatch",
+      from: "ccwatch <alerts@example.com>",
+      to: ["finance@example.com"],
+      cc: ["dev@example.com"]
+    }
+  }));
+
+  try {
+    // SMTPサーバーが応答できるようにイベントループを止めずに実行する
+    await promisify(exec)(`bun dist/index.js 40 --config ${configFile}`, {
+      encoding: "utf8",
+      timeout: 20000,
+      env: {
+        ...process.env,
+        HOME: home,
+        PATH: `${home}:${process.env.PATH}`,
+        CCWATCH_SLACK_WEBHOOK_URL: undefined,
+        CCWATCH_WEBHOOK_URL: undefined,
+        CCWATCH_SMTP_PASSWORD: "secret"
+      }
+    });
+
+    expect(sink.messages).toHaveLength(1);
+
+    const mail = sink.messages[0]!;
+    expect(mail.auth).toBe("\0ccwatch\0secret");
+    expect(mail.from).toBe("<alerts@example.com>");
+    expect(mail.recipients).toEqual(["<finance@example.com>", "<dev@example.com>"]);
+    expect(mail.data).toContain("To: finance@example.com\r\nCc: dev@example.com\r\n");
+    expect(mail.data).toContain("Content-Type: multipart/alternative");
+
+    const text = decodeMimePart(mail.data, "text/plain");
+    expect(text).toContain("Claude Code使用料金が閾値を超過しました");
+    expect(text).toContain("現在のコスト: $45.67");
+    expect(text).toContain("設定閾値: $40.00");
+    expect(text).toContain("超過額: $5.67");
+    expect(text).toMatch(/claude-opus-4-20250514\s+\$30\.00\s+66%/);
+
+    const html = decodeMimePart(mail.data, "text/html");
+    expect(html).toContain("🤖 モデル別内訳");
+    expect(html).toMatch(/<td[^>]*>claude-sonnet-4-20250514<\/td><td[^>]*>\$15\.67<\/td><td[^>]*>34%<\/td>/);
+  } finally {
+    await sink.close();
+    rmSync(home, { recursive: true, force: true });
+  }
+});
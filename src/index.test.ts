@@ -80,6 +80,38 @@ describe("Application", () => {
     if (originalEnv) process.env.CCWATCH_SLACK_WEBHOOK_URL = originalEnv;
   });
 
+  test("単発実行モード - 月末予測の範囲を出力", async () => {
+    const originalArgv = process.argv;
+    const originalExit = process.exit;
+    const originalEnv = process.env.CCWATCH_SLACK_WEBHOOK_URL;
+
+    let exitCode = -1;
+    process.exit = vi.fn((code: number) => { exitCode = code; }) as any;
+    process.argv = ["bun", "main.ts", "100", "--forecast"];
+    delete process.env.CCWATCH_SLACK_WEBHOOK_URL;
+    mockDependencies.usageRepository.setMockDailyData({
+      daily: Array.from({ length: 15 }, (_, i) => ({
+        date: `2025-07-${String(i + 1).padStart(2, '0')}`,
+        totalCost: i === 14 ? 3.5 : 3,
+        modelsUsed: ["claude-sonnet-4-20250514"],
+        modelBreakdowns: []
+      })),
+      totals: { totalCost: 45.50 }
+    });
+
+    await app.run();
+
+    expect(exitCode).toBe(-1); // 正常終了
+    const summary = mockDependencies.logger.logs.find((log: any) => log.message === "単発実行完了");
+    expect(summary?.context?.projectedTotal).toBeCloseTo(93.5);
+    expect(summary?.context?.projectedLowerBound).toBeLessThanOrEqual(summary?.context?.projectedTotal);
+    expect(summary?.context?.projectedUpperBound).toBeGreaterThanOrEqual(summary?.context?.projectedTotal);
+
+    process.argv = originalArgv;
+    process.exit = originalExit;
+    if (originalEnv) process.env.CCWATCH_SLACK_WEBHOOK_URL = originalEnv;
+  });
+
   test("設定エラー時", async () => {
     const originalArgv = process.argv;
     const originalExit = process.exit;
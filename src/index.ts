@@ -2,6 +2,7 @@ import { ArgumentParser } from "./cli/argument-parser.ts";
 import { DependencyContainer } from "./core/dependency-container.ts";
 import { CheckUsageCommand } from "./commands/check-usage-command.ts";
 import { DaemonCommand } from "./commands/daemon-command.ts";
+import { MonthlySummaryCommand } from "./commands/monthly-summary-command.ts";
 import { ResultUtils } from "./utils/result.ts";
 
 export class Application {
@@ -22,10 +23,13 @@ export class Application {
 
     const config = configResult.data;
     const useStructuredLogging = process.env.CCWATCH_STRUCTURED_LOGGING === 'true';
+    this.container.configure(config);
     const dependencies = this.container.getDependencies(useStructuredLogging);
 
     try {
-      if (config.daemon) {
+      if (config.summaryMonth) {
+        await this.runSummaryMode(config, dependencies);
+      } else if (config.daemon) {
         await this.runDaemonMode(config, dependencies);
       } else {
         await this.runOnceMode(config, dependencies);
@@ -54,6 +58,19 @@ export class Application {
     });
   }
 
+  // 過去の月のサマリーを表示する（通知は送信しない）
+  private async runSummaryMode(config: any, dependencies: any): Promise<void> {
+    const state = await dependencies.stateRepository.load();
+    const summaryCommand = new MonthlySummaryCommand(dependencies);
+    const result = await summaryCommand.execute({ config, state, month: config.summaryMonth });
+
+    if (ResultUtils.isFailure(result)) {
+      throw result.error;
+    }
+
+    console.log(result.data.message);
+  }
+
   private async runOnceMode(config: any, dependencies: any): Promise<void> {
     dependencies.logger.info(`Claude Code使用量監視開始 (閾値: $${config.threshold})`, {
       threshold: config.threshold,
@@ -71,7 +88,7 @@ export class Application {
       throw result.error;
     }
 
-    const { newState, thresholdExceeded, notificationSent } = result.data;
+    const { newState, thresholdExceeded, notificationSent, forecast, tokenStatuses, blockStatus, weeklyStatus, heldNotificationCount } = result.data;
     
     // 状態保存
     await dependencies.stateRepository.save(newState);
@@ -79,6 +96,15 @@ export class Application {
     dependencies.logger.info("単発実行完了", {
       thresholdExceeded,
       notificationSent,
+      ...(tokenStatuses && { tokenQuotaExceeded: tokenStatuses.some(status => status.exceeded) }),
+      ...(forecast && {
+        projectedTotal: forecast.projectedTotal,
+        projectedLowerBound: forecast.lowerBound,
+        projectedUpperBound: forecast.upperBound
+      }),
+      ...(blockStatus && { blockCost: blockStatus.cost, blockTokens: blockStatus.tokens }),
+      ...(heldNotificationCount && { heldNotificationCount }),
+      ...(weeklyStatus && { weeklyCost: weeklyStatus.cost, weeklyTokens: weeklyStatus.tokens }),
       component: 'application'
     });
   }
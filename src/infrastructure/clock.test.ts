@@ -74,6 +74,21 @@ describe("SystemClock", () => {
   });
 });
 
+describe("SystemClock - タイムゾーン", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("指定タイムゾーンの日付で判定する", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-07-31T16:00:00Z"));
+
+    expect(new SystemClock("Asia/Tokyo").getToday()).toBe("2025-08-01");
+    expect(new SystemClock("Asia/Tokyo").getCurrentMonth()).toBe("2025-08");
+    expect(new SystemClock("UTC").getToday()).toBe("2025-07-31");
+  });
+});
+
 describe("MockClock", () => {
   let clock: MockClock;
   let fixedTime: Date;
@@ -227,4 +242,79 @@ describe("MockClock", () => {
     // 最後の時刻が保持されている
     expect(testClock.now()).toEqual(times[2]);
   });
-});
\ No newline at end of file
+});
+
+describe("MockClock - タイムゾーン", () => {
+  test("東京では09:00 UTCではなく00:00 JSTに日付が変わる", () => {
+    const clock = new MockClock(new Date("2025-07-14T14:59:59Z"), "Asia/Tokyo");
+    expect(clock.getToday()).toBe("2025-07-14");
+
+    clock.setTime(new Date("2025-07-14T15:00:00Z"));
+    expect(clock.getToday()).toBe("2025-07-15");
+
+    // UTCではまだ前日
+    expect(new MockClock(new Date("2025-07-14T15:00:00Z")).getToday()).toBe("2025-07-14");
+  });
+
+  test("東京の月境界", () => {
+    const clock = new MockClock(new Date("2025-07-31T14:59:59Z"), "Asia/Tokyo");
+    expect(clock.getCurrentMonth()).toBe("2025-07");
+
+    clock.setTime(new Date("2025-07-31T15:00:00Z"));
+    expect(clock.getCurrentMonth()).toBe("2025-08");
+    expect(clock.getToday()).toBe("2025-08-01");
+  });
+
+  test("東京の年境界", () => {
+    const clock = new MockClock(new Date("2025-12-31T15:00:00Z"), "Asia/Tokyo");
+
+    expect(clock.getCurrentMonth()).toBe("2026-01");
+    expect(clock.getToday()).toBe("2026-01-01");
+  });
+
+  test("夏時間開始日（America/New_York）", () => {
+    // 2025-03-09 02:00 EST → 03:00 EDT
+    const clock = new MockClock(new Date("2025-03-09T04:59:59Z"), "America/New_York");
+    expect(clock.getToday()).toBe("2025-03-08");
+
+    clock.setTime(new Date("2025-03-09T05:00:00Z")); // 00:00 EST
+    expect(clock.getToday()).toBe("2025-03-09");
+
+    clock.setTime(new Date("2025-03-10T03:59:59Z")); // 23:59:59 EDT
+    expect(clock.getToday()).toBe("2025-03-09");
+
+    clock.setTime(new Date("2025-03-10T04:00:00Z")); // 00:00 EDT
+    expect(clock.getToday()).toBe("2025-03-10");
+  });
+
+  test("夏時間終了日（America/New_York）", () => {
+    // 2025-11-02 02:00 EDT → 01:00 EST
+    const clock = new MockClock(new Date("2025-11-02T03:59:59Z"), "America/New_York");
+    expect(clock.getToday()).toBe("2025-11-01");
+
+    clock.setTime(new Date("2025-11-02T04:00:00Z")); // 00:00 EDT
+    expect(clock.getToday()).toBe("2025-11-02");
+
+    clock.setTime(new Date("2025-11-03T04:59:59Z")); // 23:59:59 EST
+    expect(clock.getToday()).toBe("2025-11-02");
+
+    clock.setTime(new Date("2025-11-03T05:00:00Z")); // 00:00 EST
+    expect(clock.getToday()).toBe("2025-11-03");
+  });
+
+  test("夏時間中の月境界（Europe/London）", () => {
+    // 2025-08-01 00:00 BST = 2025-07-31 23:00 UTC
+    const clock = new MockClock(new Date("2025-07-31T22:59:59Z"), "Europe/London");
+    expect(clock.getCurrentMonth()).toBe("2025-07");
+
+    clock.setTime(new Date("2025-07-31T23:00:00Z"));
+    expect(clock.getCurrentMonth()).toBe("2025-08");
+  });
+
+  test("UTCより遅れたタイムゾーンの月境界", () => {
+    const clock = new MockClock(new Date("2025-08-01T06:59:59Z"), "America/Los_Angeles");
+
+    expect(clock.getCurrentMonth()).toBe("2025-07");
+    expect(clock.getToday()).toBe("2025-07-31");
+  });
+});
@@ -1,36 +1,40 @@
 import type { Clock } from "../core/interfaces.ts";
+import { TimeZone } from "../utils/time-zone.ts";
 
+// 日付・月の境界は指定したタイムゾーン（未指定時はシステムのタイムゾーン）で判定する
 export class SystemClock implements Clock {
+  constructor(private timeZone: string = TimeZone.systemDefault()) {}
+
   now(): Date {
     return new Date();
   }
 
   getCurrentMonth(): string {
-    return this.now().toISOString().substring(0, 7);
+    return this.getToday().substring(0, 7);
   }
 
   getToday(): string {
-    return this.now().toISOString().split('T')[0]!;
+    return TimeZone.formatDate(this.now(), this.timeZone);
   }
 }
 
-// テスト用のモック実装
+// テスト用のモック実装（タイムゾーン未指定時はUTC）
 export class MockClock implements Clock {
-  constructor(private fixedTime: Date) {}
+  constructor(private fixedTime: Date, private timeZone: string = "UTC") {}
 
   now(): Date {
     return new Date(this.fixedTime);
   }
 
   getCurrentMonth(): string {
-    return this.now().toISOString().substring(0, 7);
+    return this.getToday().substring(0, 7);
   }
 
   getToday(): string {
-    return this.now().toISOString().split('T')[0]!;
+    return TimeZone.formatDate(this.now(), this.timeZone);
   }
 
   setTime(time: Date): void {
     this.fixedTime = time;
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeEach } from "vitest";
-import { NodeCommandExecutor, MockCommandExecutor } from "./command-executor.ts";
+import { NodeCommandExecutor, SpawnCommandExecutor, MockCommandExecutor, CommandExitError } from "./command-executor.ts";
 
 describe("NodeCommandExecutor", () => {
   let executor: NodeCommandExecutor;
@@ -36,6 +36,25 @@ describe("NodeCommandExecutor", () => {
     ).rejects.toThrow();
   });
 
+  test("標準入力と追加の環境変数", async () => {
+    const result = await executor.execute('printf "%s:" "$CCWATCH_TEST_VALUE"; cat', {
+      input: "from stdin",
+      env: { CCWATCH_TEST_VALUE: "from env" }
+    });
+
+    expect(result).toBe("from env:from stdin");
+  });
+
+  test("終了コードとタイムアウトはCommandExitError", async () => {
+    const exited = await executor.execute("exit 3").catch(error => error);
+    expect(exited).toBeInstanceOf(CommandExitError);
+    expect(exited).toMatchObject({ exitCode: 3, signal: null, timedOut: false });
+
+    const timedOut = await executor.execute("sleep 5", { timeout: 200 }).catch(error => error);
+    expect(timedOut).toBeInstanceOf(CommandExitError);
+    expect(timedOut).toMatchObject({ exitCode: null, signal: "SIGTERM", timedOut: true });
+  });
+
   test("デフォルトオプション", async () => {
     // デフォルトオプションで実行（encoding: utf8, maxBuffer: 10MB）
     const result = await executor.execute("echo 'default test'");
@@ -45,6 +64,59 @@ describe("NodeCommandExecutor", () => {
   });
 });
 
+describe("SpawnCommandExecutor", () => {
+  let executor: SpawnCommandExecutor;
+
+  beforeEach(() => {
+    executor = new SpawnCommandExecutor();
+  });
+
+  test("標準入力と追加の環境変数", async () => {
+    const result = await executor.execute('printf "%s:" "$CCWATCH_TEST_VALUE"; cat', {
+      input: "from stdin",
+      env: { CCWATCH_TEST_VALUE: "from env" }
+    });
+
+    expect(result).toBe("from env:from stdin");
+  });
+
+  test("終了コードとタイムアウトはCommandExitError", async () => {
+    const exited = await executor.execute("exit 3").catch(error => error);
+    expect(exited).toBeInstanceOf(CommandExitError);
+    expect(exited).toMatchObject({ exitCode: 3, signal: null, timedOut: false });
+
+    const startedAt = Date.now();
+    const timedOut = await executor.execute("sleep 5; echo late", { timeout: 200 }).catch(error => error);
+    expect(timedOut).toBeInstanceOf(CommandExitError);
+    expect(timedOut).toMatchObject({ exitCode: null, signal: "SIGTERM", timedOut: true });
+    expect(Date.now() - startedAt).toBeLessThan(3000);
+  });
+
+  test("SIGTERMを無視するコマンドもタイムアウト後に強制終了する", async () => {
+    const startedAt = Date.now();
+    const timedOut = await executor.execute("trap '' TERM; sleep 10", { timeout: 200 }).catch(error => error);
+
+    expect(timedOut).toBeInstanceOf(CommandExitError);
+    expect(timedOut).toMatchObject({ exitCode: null, timedOut: true });
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  test("実行中もイベントループを止めない", async () => {
+    let ticked = false;
+    setTimeout(() => { ticked = true; }, 10);
+
+    const running = executor.execute("sleep 0.3; echo done");
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(ticked).toBe(true);
+    expect((await running).trim()).toBe("done");
+  });
+
+  test("maxBuffer制限の確認", async () => {
+    await expect(executor.execute("echo 'this is a test'", { maxBuffer: 5 })).rejects.toThrow("maxBuffer");
+  });
+});
+
 describe("MockCommandExecutor", () => {
   let mockExecutor: MockCommandExecutor;
 
@@ -174,6 +246,13 @@ describe("MockCommandExecutor", () => {
       expect(executedCommands).toEqual(["error-command"]);
     });
 
+    test("設定したエラーの発生と実行時のオプションの記録", async () => {
+      mockExecutor.setMockError("failing-command", new CommandExitError("Command failed", 2, null, false));
+
+      await expect(mockExecutor.execute("failing-command", { input: "{}" })).rejects.toThrow("Command failed");
+      expect(mockExecutor.getExecutedOptions()).toEqual([{ input: "{}" }]);
+    });
+
     test("大きなレスポンスデータ", async () => {
       const largeResponse = "x".repeat(1024 * 1024); // 1MB
       
@@ -6,6 +6,23 @@ export interface CommandOptions {
   maxBuffer?: number;
   timeout?: number;
   encoding?: BufferEncoding;
+  // 標準入力に渡す内容
+  input?: string;
+  // 現在の環境変数に追加する環境変数
+  env?: Record<string, string>;
+}
+
+// コマンドが0以外の終了コードで終了した、またはシグナル（タイムアウトを含む）で停止した
+export class CommandExitError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number | null,
+    public readonly signal: string | null,
+    public readonly timedOut: boolean
+  ) {
+    super(message);
+    this.name = 'CommandExitError';
+  }
 }
 
 export class NodeCommandExecutor implements CommandExecutor {
@@ -16,10 +33,17 @@ export class NodeCommandExecutor implements CommandExecutor {
       const result = execSync(command, {
         encoding: options.encoding || "utf8",
         maxBuffer: options.maxBuffer || 10 * 1024 * 1024, // 10MB default
-        timeout: options.timeout
+        timeout: options.timeout,
+        input: options.input,
+        env: options.env && { ...process.env, ...options.env }
       });
       return result;
     } catch (error) {
+      // execSyncのエラーは終了コード（status）とシグナルを持つ
+      const { status, signal, code } = (error ?? {}) as { status?: number | null; signal?: string | null; code?: string };
+      if (error instanceof Error && (status !== undefined || signal !== undefined)) {
+        throw new CommandExitError(error.message, status ?? null, signal ?? null, code === "ETIMEDOUT");
+      }
       if (error instanceof Error) {
         throw error;
       }
@@ -28,17 +52,111 @@ export class NodeCommandExecutor implements CommandExecutor {
   }
 }
 
+// 停止要求（SIGTERM）から強制終了（SIGKILL）までの猶予
+const KILL_GRACE_PERIOD_MS = 2000;
+
+// 子プロセスの終了を待つ間もイベントループを止めない実行（デーモン実行中に任意のコマンドを呼び出す通知用）
+export class SpawnCommandExecutor implements CommandExecutor {
+  async execute(command: string, options: CommandOptions = {}): Promise<string> {
+    const { spawn } = await import("child_process");
+    const maxBuffer = options.maxBuffer || 10 * 1024 * 1024; // 10MB default
+
+    return new Promise((resolve, reject) => {
+      // タイムアウト時にコマンドが起動した子プロセスもまとめて停止できるようプロセスグループを分ける
+      const child = spawn("/bin/sh", ["-c", command], {
+        stdio: ["pipe", "pipe", "inherit"],
+        env: options.env ? { ...process.env, ...options.env } : process.env,
+        detached: true
+      });
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let timedOut = false;
+      let failure: Error | undefined;
+      let settled = false;
+      let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (code: number | null, signal: string | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        clearTimeout(killTimer);
+        if (failure) {
+          reject(failure);
+        } else if (timedOut) {
+          reject(new CommandExitError(`Command timed out after ${options.timeout}ms: ${command}`, null, signal ?? "SIGTERM", true));
+        } else if (code !== 0) {
+          reject(new CommandExitError(`Command failed: ${command}`, code, signal, false));
+        } else {
+          resolve(Buffer.concat(chunks).toString(options.encoding || "utf8"));
+        }
+      };
+      const signalGroup = (signal: NodeJS.Signals) => {
+        try {
+          process.kill(-child.pid!, signal);
+        } catch {
+          child.kill(signal);
+        }
+      };
+      // SIGTERMを無視するコマンドは猶予期間の後にSIGKILLで停止し、終了を待たずに結果を返す
+      const stop = () => {
+        signalGroup("SIGTERM");
+        killTimer ??= setTimeout(() => {
+          signalGroup("SIGKILL");
+          finish(null, "SIGKILL");
+        }, KILL_GRACE_PERIOD_MS);
+      };
+      const timer = options.timeout
+        ? setTimeout(() => {
+            timedOut = true;
+            stop();
+          }, options.timeout)
+        : undefined;
+
+      child.stdout.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBuffer) {
+          failure ??= new Error(`stdout maxBuffer length exceeded: ${command}`);
+          stop();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      // 標準入力を読まずに終了したコマンドへの書き込みエラーは終了コードで判定する
+      child.stdin.on("error", () => {});
+      child.stdin.end(options.input);
+
+      child.on("error", error => {
+        failure ??= error;
+        finish(null, null);
+      });
+      child.on("close", finish);
+    });
+  }
+}
+
 export class MockCommandExecutor implements CommandExecutor {
   private mockResponses = new Map<string, string>();
+  private mockErrors = new Map<string, Error>();
   private executedCommands: string[] = [];
+  private executedOptions: Array<CommandOptions | undefined> = [];
 
   setMockResponse(command: string, response: string): void {
     this.mockResponses.set(command, response);
   }
 
+  setMockError(command: string, error: Error): void {
+    this.mockErrors.set(command, error);
+  }
+
   async execute(command: string, options?: CommandOptions): Promise<string> {
     this.executedCommands.push(command);
-    
+    this.executedOptions.push(options);
+
+    const error = this.mockErrors.get(command);
+    if (error) {
+      throw error;
+    }
+
     const response = this.mockResponses.get(command);
     if (response === undefined) {
       throw new Error(`No mock response set for command: ${command}`);
@@ -51,8 +169,14 @@ export class MockCommandExecutor implements CommandExecutor {
     return [...this.executedCommands];
   }
 
+  getExecutedOptions(): Array<CommandOptions | undefined> {
+    return [...this.executedOptions];
+  }
+
   clear(): void {
     this.mockResponses.clear();
+    this.mockErrors.clear();
     this.executedCommands = [];
+    this.executedOptions = [];
   }
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { DesktopNotificationService } from "./desktop-notification-service.ts";
+import { MockCommandExecutor } from "./command-executor.ts";
+import { MockLogger } from "./logger.ts";
+import type { NotificationMessage } from "../core/interfaces.ts";
+
+describe("DesktopNotificationService", () => {
+  let executor: MockCommandExecutor;
+  let mockLogger: MockLogger;
+  let service: DesktopNotificationService;
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    heading: "2025-07の使用状況",
+    fields: [
+      { label: "現在のコスト", value: "$45.50" },
+      { label: "設定閾値", value: "$40.00" }
+    ],
+    progress: { label: "閾値に対する割合", current: 45.5, limit: 40 },
+    sections: [{ title: "🤖 モデル別内訳", lines: ["• claude-sonnet-4-20250514: $45.50 (100%)"] }]
+  };
+
+  beforeEach(() => {
+    executor = new MockCommandExecutor();
+    mockLogger = new MockLogger();
+    service = new DesktopNotificationService(mockLogger, executor);
+  });
+
+  test("notify-sendで重要度に応じた緊急度の通知を表示する", async () => {
+    const command = service.command(message);
+    executor.setMockResponse(command, "");
+
+    await service.send(message, "desktop", "threshold");
+
+    expect(executor.getExecutedCommands()).toEqual([
+      "'notify-send' '--app-name=ccwatch' '--urgency=critical' '--icon=dialog-error' '--category=ccwatch.alert' '--' " +
+      "'🚨 Claude Code使用料金が閾値を超過しました' " +
+      "'2025-07の使用状況\n現在のコスト: $45.50\n設定閾値: $40.00\n閾値に対する割合: ▓▓▓▓▓▓▓▓▓▓ 113.8%'"
+    ]);
+    expect(mockLogger.hasLog("info", "デスクトップ通知送信完了")).toBe(true);
+  });
+
+  test("重要度から緊急度への対応", () => {
+    expect(service.urgency({ ...message, severity: "info" })).toBe("low");
+    expect(service.urgency({ ...message, severity: "warning" })).toBe("normal");
+    expect(service.urgency(message)).toBe("critical");
+    expect(service.urgency("テキスト通知")).toBe("normal");
+  });
+
+  test("テキスト通知は1行目を見出しにし、引用符をエスケープする", () => {
+    expect(service.command("📈 *Claude Code 日次ダイジェスト* 📈\n• It's $12.00")).toBe(
+      "'notify-send' '--app-name=ccwatch' '--urgency=normal' '--category=ccwatch.alert' '--' " +
+      "'Claude Code 日次ダイジェスト' '• It'\\''s $12.00'"
+    );
+  });
+
+  test("レポートを開くアクションはバックグラウンドで待ってxdg-openで開く", () => {
+    const withReport = new DesktopNotificationService(mockLogger, executor, "https://console.anthropic.com/usage");
+
+    const command = withReport.command("⚠️ *テスト*\n本文");
+
+    expect(command).toBe(
+      `(if [ "$('notify-send' '--app-name=ccwatch' '--urgency=normal' '--category=ccwatch.alert' '--wait' '--action=open=レポートを開く' '--' 'テスト' '本文')" = 'open' ]; ` +
+      `then xdg-open 'https://console.anthropic.com/usage'; fi) >/dev/null 2>&1 &`
+    );
+  });
+
+  test("notify-sendが失敗した場合はエラー", async () => {
+    await expect(service.send(message, "desktop")).rejects.toThrow("No mock response set for command");
+    expect(mockLogger.hasLog("error", "デスクトップ通知送信エラー")).toBe(true);
+  });
+});
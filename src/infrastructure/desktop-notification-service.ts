@@ -0,0 +1,112 @@
+import type { NotificationService, NotificationType, NotificationMessage, AlertSeverity, Logger } from "../core/interfaces.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+import type { CommandExecutor } from "./command-executor.ts";
+
+export type DesktopUrgency = "low" | "normal" | "critical";
+
+const SEVERITY_URGENCIES: Record<AlertSeverity, DesktopUrgency> = {
+  info: "low",
+  warning: "normal",
+  critical: "critical"
+};
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  info: "dialog-information",
+  warning: "dialog-warning",
+  critical: "dialog-error"
+};
+
+const APP_NAME = "ccwatch";
+const REPORT_ACTION = "open";
+const REPORT_ACTION_LABEL = "レポートを開く";
+const NOTIFY_TIMEOUT_MS = 10_000;
+
+// notify-send（freedesktopの通知仕様、D-Bus経由）でデスクトップ通知を表示する
+export class DesktopNotificationService implements NotificationService {
+  private formatter = new NotificationMessageFormatter();
+
+  // reportTargetを指定すると、通知に「レポートを開く」アクションを付けてxdg-openで開く
+  constructor(
+    private logger: Logger,
+    private commandExecutor: CommandExecutor,
+    private reportTarget?: string
+  ) {}
+
+  async send(message: string | NotificationMessage, _destination: string, type?: NotificationType): Promise<void> {
+    const summary = this.summary(message);
+    const urgency = this.urgency(message);
+    this.logger.debug("デスクトップ通知送信開始", {
+      component: 'desktop-notification-service',
+      urgency,
+      type
+    });
+
+    if (this.formatter.toText(message).trim().length === 0) {
+      throw new Error("Message cannot be empty");
+    }
+
+    try {
+      await this.commandExecutor.execute(this.command(message), { timeout: NOTIFY_TIMEOUT_MS });
+      this.logger.info("デスクトップ通知送信完了", {
+        component: 'desktop-notification-service',
+        summary
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error("デスクトップ通知送信エラー", {
+        component: 'desktop-notification-service',
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  // アクション付きの場合、notify-send --waitはクリックされるか閉じられるまで終了しないため、
+  // チェックを止めないようにバックグラウンドで待ち、選択されたアクションを受け取ってからレポートを開く
+  command(message: string | NotificationMessage): string {
+    const severity = typeof message === "string" ? undefined : message.severity;
+    const args = [
+      `--app-name=${APP_NAME}`,
+      `--urgency=${this.urgency(message)}`,
+      ...(severity ? [`--icon=${SEVERITY_ICONS[severity]}`] : []),
+      "--category=ccwatch.alert"
+    ];
+
+    if (!this.reportTarget) {
+      return ["notify-send", ...args, "--", this.summary(message), this.body(message)].map(quote).join(" ");
+    }
+
+    const notify = ["notify-send", ...args, "--wait", `--action=${REPORT_ACTION}=${REPORT_ACTION_LABEL}`, "--", this.summary(message), this.body(message)]
+      .map(quote).join(" ");
+    return `(if [ "$(${notify})" = ${quote(REPORT_ACTION)} ]; then xdg-open ${quote(this.reportTarget)}; fi) >/dev/null 2>&1 &`;
+  }
+
+  urgency(message: string | NotificationMessage): DesktopUrgency {
+    return typeof message !== "string" && message.severity ? SEVERITY_URGENCIES[message.severity] : "normal";
+  }
+
+  private summary(message: string | NotificationMessage): string {
+    return typeof message === "string" ? this.formatter.title(message) : `${message.icon} ${message.title}`;
+  }
+
+  // 通知の本文はタイトル以外の行（装飾なし）。通知センターで読める長さとしてセクションは含めない
+  private body(message: string | NotificationMessage): string {
+    if (typeof message === "string") {
+      return message.split("\n").slice(1).join("\n").replace(/\*/g, "").trim();
+    }
+
+    const lines = message.fields.map(field => `${field.label}: ${field.value}`);
+    if (message.progress) {
+      lines.push(`${message.progress.label}: ${this.formatter.progressBar(message.progress)}`);
+    }
+    if (message.heading) {
+      lines.unshift(message.heading);
+    }
+    return lines.join("\n");
+  }
+}
+
+// シェルの単一引用符で囲む
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,130 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { DiscordNotificationService } from "./discord-notification-service.ts";
+import { MockLogger } from "./logger.ts";
+import type { NotificationMessage } from "../core/interfaces.ts";
+
+describe("DiscordNotificationService", () => {
+  let service: DiscordNotificationService;
+  let mockLogger: MockLogger;
+  let waits: number[];
+  let originalFetch: any;
+
+  const webhookUrl = "https://discord.com/api/webhooks/123/token";
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    heading: "2025-07の使用状況",
+    fields: [
+      { label: "現在のコスト", value: "$45.50" },
+      { label: "設定閾値", value: "$40.00" },
+      { label: "使用モデル", value: "claude-sonnet-4-20250514" }
+    ],
+    progress: { label: "閾値に対する割合", current: 45.5, limit: 40 },
+    sections: [{ title: "🤖 モデル別内訳", lines: ["• claude-sonnet-4-20250514: $45.50 (100%)"] }],
+    footer: "適切な使用量管理をお願いします。"
+  };
+
+  beforeEach(() => {
+    mockLogger = new MockLogger();
+    waits = [];
+    service = new DiscordNotificationService(mockLogger, async ms => { waits.push(ms); });
+    originalFetch = global.fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("構造化メッセージは重要度で色分けしたembedで送信する", async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 })) as any;
+
+    await service.send(message, webhookUrl, "threshold");
+
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body).toEqual({
+      embeds: [{
+        title: "🚨 Claude Code使用料金が閾値を超過しました",
+        description: "📊 **2025-07の使用状況**",
+        color: 0xed4245,
+        fields: [
+          { name: "現在のコスト", value: "$45.50", inline: true },
+          { name: "設定閾値", value: "$40.00", inline: true },
+          { name: "使用モデル", value: "claude-sonnet-4-20250514", inline: true },
+          { name: "閾値に対する割合", value: "`▓▓▓▓▓▓▓▓▓▓ 113.8%`", inline: false },
+          { name: "🤖 モデル別内訳", value: "• claude-sonnet-4-20250514: $45.50 (100%)", inline: false }
+        ],
+        footer: { text: "適切な使用量管理をお願いします。" }
+      }]
+    });
+    expect(mockLogger.hasLog("info", "Discord通知送信完了")).toBe(true);
+  });
+
+  test("重要度ごとの色", () => {
+    expect(service.payload({ ...message, severity: "warning" }).embeds![0]!.color).toBe(0xfee75c);
+    expect(service.payload({ ...message, severity: "info" }).embeds![0]!.color).toBe(0x5865f2);
+  });
+
+  test("テキストはcontentで送信する", async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 })) as any;
+
+    await service.send("テストメッセージ", webhookUrl);
+
+    expect((global.fetch as any).mock.calls[0][1].body).toBe(JSON.stringify({ content: "テストメッセージ" }));
+  });
+
+  test("429のretry_afterだけ待って再送する", async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ message: "You are being rate limited.", retry_after: 1.5, global: false }), { status: 429 }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 })) as any;
+
+    await service.send("テストメッセージ", webhookUrl);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(waits).toEqual([1500]);
+    expect(mockLogger.hasLog("warn", "Discordのレート制限のため1.5秒後に再送します")).toBe(true);
+  });
+
+  test("ボディにretry_afterが無い場合はRetry-Afterヘッダーを使う", async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(new Response("rate limited", { status: 429, headers: { "Retry-After": "2" } }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 })) as any;
+
+    await service.send("テストメッセージ", webhookUrl);
+
+    expect(waits).toEqual([2000]);
+  });
+
+  test("再送の上限を超えた場合はエラー", async () => {
+    global.fetch = vi.fn().mockImplementation(async () =>
+      new Response(JSON.stringify({ retry_after: 0.5 }), { status: 429 })
+    ) as any;
+
+    await expect(service.send("テストメッセージ", webhookUrl)).rejects.toThrow("Discord API error: 429");
+
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+    expect(waits).toEqual([500, 500, 500]);
+    expect(mockLogger.hasLog("error", "Discord通知送信エラー")).toBe(true);
+  });
+
+  test("待機時間が長すぎる場合は再送しない", async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ retry_after: 600 }), { status: 429 })) as any;
+
+    await expect(service.send("テストメッセージ", webhookUrl)).rejects.toThrow("Discord API error: 429");
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(waits).toEqual([]);
+  });
+
+  test("APIエラー", async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 404 })) as any;
+
+    await expect(service.send("テストメッセージ", webhookUrl)).rejects.toThrow("Discord API error: 404");
+  });
+
+  test("空メッセージと無効なURL", async () => {
+    await expect(service.send("  ", webhookUrl)).rejects.toThrow("Message cannot be empty");
+    await expect(service.send("テスト", "invalid-url")).rejects.toThrow("Invalid webhook URL");
+  });
+});
@@ -0,0 +1,153 @@
+import type { NotificationService, NotificationType, NotificationMessage, AlertSeverity, Logger } from "../core/interfaces.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+
+export interface DiscordEmbed {
+  title: string;
+  description?: string;
+  color?: number;
+  fields: Array<{ name: string; value: string; inline: boolean }>;
+  footer?: { text: string };
+}
+
+export interface DiscordPayload {
+  content?: string;
+  embeds?: DiscordEmbed[];
+}
+
+const SEVERITY_COLORS: Record<AlertSeverity, number> = {
+  info: 0x5865f2,
+  warning: 0xfee75c,
+  critical: 0xed4245
+};
+
+// Discordの制限（https://discord.com/developers/docs/resources/message#embed-object-embed-limits）
+const CONTENT_MAX_LENGTH = 2000;
+const EMBED_TITLE_MAX_LENGTH = 256;
+const EMBED_MAX_FIELDS = 25;
+const FIELD_NAME_MAX_LENGTH = 256;
+const FIELD_VALUE_MAX_LENGTH = 1024;
+const FOOTER_MAX_LENGTH = 2048;
+
+// 429のretry_afterに従って再送する回数と、待機する上限
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_AFTER_MS = 60_000;
+
+export class DiscordNotificationService implements NotificationService {
+  private formatter = new NotificationMessageFormatter();
+
+  constructor(
+    private logger: Logger,
+    private wait: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {}
+
+  async send(message: string | NotificationMessage, webhookUrl: string, type?: NotificationType): Promise<void> {
+    const text = this.formatter.toText(message);
+    this.logger.debug("Discord通知送信開始", {
+      component: 'discord-notification-service',
+      messageLength: text.length,
+      type
+    });
+
+    if (text.trim().length === 0) {
+      throw new Error("Message cannot be empty");
+    }
+
+    try {
+      new URL(webhookUrl);
+    } catch {
+      throw new Error(`Invalid webhook URL: ${webhookUrl}`);
+    }
+
+    const body = JSON.stringify(this.payload(message));
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const response = await fetch(webhookUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body
+        });
+
+        if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+          const retryAfterMs = await this.retryAfterMs(response);
+          if (retryAfterMs <= MAX_RETRY_AFTER_MS) {
+            this.logger.warn(`Discordのレート制限のため${(retryAfterMs / 1000).toFixed(1)}秒後に再送します`, {
+              component: 'discord-notification-service',
+              attempt: attempt + 1,
+              retryAfterMs
+            });
+            await this.wait(retryAfterMs);
+            continue;
+          }
+        }
+
+        if (!response.ok) {
+          throw new Error(`Discord API error: ${response.status}`);
+        }
+
+        this.logger.info("Discord通知送信完了", {
+          component: 'discord-notification-service',
+          status: response.status
+        });
+        return;
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error("Discord通知送信エラー", {
+        component: 'discord-notification-service',
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  // 構造化メッセージは重要度で色分けしたembedで送信する
+  payload(message: string | NotificationMessage): DiscordPayload {
+    if (typeof message === "string") {
+      return { content: this.truncate(message, CONTENT_MAX_LENGTH) };
+    }
+
+    const fields = message.fields.map(field => this.field(field.label, field.value, true));
+    if (message.progress) {
+      fields.push(this.field(message.progress.label, `\`${this.formatter.progressBar(message.progress)}\``, false));
+    }
+    for (const section of message.sections ?? []) {
+      fields.push(this.field(section.title, section.lines.join("\n"), false));
+    }
+
+    return {
+      embeds: [{
+        title: this.truncate(`${message.icon} ${message.title}`, EMBED_TITLE_MAX_LENGTH),
+        ...(message.heading && { description: `📊 **${message.heading}**` }),
+        ...(message.severity && { color: SEVERITY_COLORS[message.severity] }),
+        fields: fields.slice(0, EMBED_MAX_FIELDS),
+        ...(message.footer && { footer: { text: this.truncate(message.footer, FOOTER_MAX_LENGTH) } })
+      }]
+    };
+  }
+
+  // 429のボディのretry_after（秒）を優先し、無い場合はRetry-Afterヘッダーを使う
+  private async retryAfterMs(response: Response): Promise<number> {
+    try {
+      const body = await response.json() as { retry_after?: number };
+      if (typeof body.retry_after === "number") {
+        return Math.ceil(body.retry_after * 1000);
+      }
+    } catch {
+      // ボディがJSONでない場合はヘッダーを使う
+    }
+    const header = Number(response.headers?.get("retry-after"));
+    return isFinite(header) && header > 0 ? Math.ceil(header * 1000) : 1000;
+  }
+
+  private field(name: string, value: string, inline: boolean): { name: string; value: string; inline: boolean } {
+    return {
+      name: this.truncate(name, FIELD_NAME_MAX_LENGTH),
+      value: this.truncate(value, FIELD_VALUE_MAX_LENGTH),
+      inline
+    };
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+  }
+}
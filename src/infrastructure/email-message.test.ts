@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { EmailMessageRenderer } from "./email-message.ts";
+import type { NotificationMessage } from "../core/interfaces.ts";
+
+describe("EmailMessageRenderer", () => {
+  let renderer: EmailMessageRenderer;
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    heading: "2025-07の使用状況",
+    fields: [
+      { label: "現在のコスト", value: "$45.50" },
+      { label: "設定閾値", value: "$40.00" },
+      { label: "超過額", value: "$5.50" }
+    ],
+    progress: { label: "閾値に対する割合", current: 45.5, limit: 40 },
+    sections: [{
+      title: "🤖 モデル別内訳",
+      lines: ["• claude-opus-4-20250514: $30.00 (66%)", "• claude-sonnet-4-20250514: $15.50 (34%)"]
+    }],
+    footer: "適切な使用量管理をお願いします。",
+    usage: {
+      cost: 45.5,
+      threshold: 40,
+      month: "2025-07",
+      models: [{ model: "claude-opus-4-20250514", cost: 30 }, { model: "claude-sonnet-4-20250514", cost: 15.5 }]
+    }
+  };
+
+  beforeEach(() => {
+    renderer = new EmailMessageRenderer();
+  });
+
+  test("テキスト本文はフィールドとモデル別の表", () => {
+    const content = renderer.render(message);
+
+    expect(content.subject).toBe("[ccwatch] Claude Code使用料金が閾値を超過しました");
+    expect(content.text).toBe(`🚨 Claude Code使用料金が閾値を超過しました
+
+■ 2025-07の使用状況
+現在のコスト: $45.50
+設定閾値: $40.00
+超過額: $5.50
+閾値に対する割合: ▓▓▓▓▓▓▓▓▓▓ 113.8%
+
+■ モデル別内訳
+モデル                        コスト  割合
+claude-opus-4-20250514        $30.00   66%
+claude-sonnet-4-20250514      $15.50   34%
+
+適切な使用量管理をお願いします。`);
+  });
+
+  test("HTML本文は重要度の色のタイトルとモデル別の表", () => {
+    const { html } = renderer.render(message);
+
+    expect(html).toContain(`<h2 style="color: #b91c1c; margin: 0 0 16px;">🚨 Claude Code使用料金が閾値を超過しました</h2>`);
+    expect(html).toContain(`<th style="padding: 4px 12px 4px 0; text-align: left; white-space: nowrap;">超過額</th><td style="padding: 4px 0;">$5.50</td>`);
+    expect(html).toContain("<code>▓▓▓▓▓▓▓▓▓▓ 113.8%</code>");
+    expect(html).toMatch(/<td[^>]*>claude-opus-4-20250514<\/td><td[^>]*>\$30\.00<\/td><td[^>]*>66%<\/td>/);
+    // 内訳はセクションではなく表として表示する
+    expect(html).not.toContain("• claude-opus-4-20250514");
+  });
+
+  test("使用量の無い構造化メッセージはセクションをそのまま表示する", () => {
+    const { usage: _usage, ...withoutUsage } = message;
+    const content = renderer.render(withoutUsage);
+
+    expect(content.text).toContain("■ 🤖 モデル別内訳\n• claude-opus-4-20250514: $30.00 (66%)");
+    expect(content.html).toContain("<h3 style=\"margin: 0 0 8px;\">🤖 モデル別内訳</h3>");
+  });
+
+  test("テキスト通知は太字をHTMLに変換しエスケープする", () => {
+    const content = renderer.render("📈 *Claude Code 日次ダイジェスト* 📈\n• <script> & $12.00");
+
+    expect(content.subject).toBe("[ccwatch] Claude Code 日次ダイジェスト");
+    expect(content.text).toBe("📈 Claude Code 日次ダイジェスト 📈\n• <script> & $12.00");
+    expect(content.html).toContain("<p>📈 <strong>Claude Code 日次ダイジェスト</strong> 📈<br>\n• &lt;script&gt; &amp; $12.00</p>");
+  });
+
+  test("multipart/alternativeのMIMEメッセージ", () => {
+    const content = renderer.render(message);
+    const mime = renderer.mime(
+      content,
+      { from: "ccwatch <alerts@example.com>", to: ["finance@example.com", "cfo@example.com"], cc: ["dev@example.com"] },
+      new Date("2025-07-15T09:00:00Z"),
+      "boundary123"
+    );
+
+    const [headers = "", ...body] = mime.split("\r\n\r\n");
+    expect(headers.split("\r\n").slice(0, 3)).toEqual([
+      "From: ccwatch <alerts@example.com>",
+      "To: finance@example.com, cfo@example.com",
+      "Cc: dev@example.com"
+    ]);
+    expect(headers).toContain("Date: Tue, 15 Jul 2025 09:00:00 GMT");
+    expect(headers).toContain(`Content-Type: multipart/alternative; boundary="boundary123"`);
+
+    // 件名はUTF-8のencoded-wordで、デコードすると元の件名になる
+    const subject = headers.match(/Subject: ([\s\S]*?)\r\nDate:/)![1]!;
+    const decoded = subject.split("\r\n ").map(word => {
+      expect(word.length).toBeLessThanOrEqual(75);
+      return Buffer.from(word.replace(/^=\?UTF-8\?B\?|\?=$/g, ""), "base64").toString("utf8");
+    }).join("");
+    expect(decoded).toBe(content.subject);
+
+    const parts = body.join("\r\n\r\n").split("--boundary123");
+    const decodePart = (part: string) => Buffer.from(part.split("\r\n\r\n")[1]!.replace(/\r\n/g, ""), "base64").toString("utf8");
+    expect(parts[1]).toContain("Content-Type: text/plain; charset=UTF-8");
+    expect(decodePart(parts[1]!)).toBe(content.text);
+    expect(parts[2]).toContain("Content-Type: text/html; charset=UTF-8");
+    expect(decodePart(parts[2]!)).toBe(content.html);
+    expect(mime.endsWith("--boundary123--\r\n")).toBe(true);
+  });
+});
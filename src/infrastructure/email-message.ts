@@ -0,0 +1,206 @@
+import type { NotificationMessage, AlertSeverity } from "../core/interfaces.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailAddresses {
+  from: string;
+  to: readonly string[];
+  cc?: readonly string[];
+}
+
+const SUBJECT_PREFIX = "[ccwatch]";
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: "#1d4ed8",
+  warning: "#b45309",
+  critical: "#b91c1c"
+};
+// RFC 2047のencoded-word（75文字以内）に収まる文字数（UTF-8で最大4バイト）
+const SUBJECT_CHUNK_LENGTH = 11;
+const BASE64_LINE_LENGTH = 76;
+
+export class EmailMessageRenderer {
+  private formatter = new NotificationMessageFormatter();
+
+  render(message: string | NotificationMessage): EmailContent {
+    const subject = `${SUBJECT_PREFIX} ${this.formatter.title(message)}`;
+    if (typeof message === "string") {
+      return {
+        subject,
+        text: message.replace(/\*([^*\n]+)\*/g, "$1"),
+        html: this.document(`<p>${this.inline(message).replace(/\n/g, "<br>\n")}</p>`)
+      };
+    }
+    return { subject, text: this.text(message), html: this.html(message) };
+  }
+
+  // text/plainとtext/htmlのmultipart/alternative（本文はUTF-8のbase64）
+  mime(content: EmailContent, addresses: EmailAddresses, date: Date, boundary: string): string {
+    const headers = [
+      `From: ${addresses.from}`,
+      `To: ${addresses.to.join(", ")}`,
+      ...(addresses.cc && addresses.cc.length > 0 ? [`Cc: ${addresses.cc.join(", ")}`] : []),
+      `Subject: ${this.encodeHeader(content.subject)}`,
+      `Date: ${date.toUTCString()}`,
+      `Message-ID: <${date.getTime()}.${boundary}@ccwatch>`,
+      "MIME-Version: 1.0",
+      `Content-Type: multipart/alternative; boundary="${boundary}"`
+    ];
+    const part = (type: string, body: string) => [
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=UTF-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      this.base64Lines(body)
+    ].join("\r\n");
+
+    return [
+      headers.join("\r\n"),
+      "",
+      part("text/plain", content.text),
+      part("text/html", content.html),
+      `--${boundary}--`,
+      ""
+    ].join("\r\n");
+  }
+
+  private text(message: NotificationMessage): string {
+    const blocks = [`${message.icon} ${message.title}`];
+
+    const lines = message.fields.map(field => `${field.label}: ${field.value}`);
+    if (message.progress) {
+      lines.push(`${message.progress.label}: ${this.formatter.progressBar(message.progress)}`);
+    }
+    if (message.heading) {
+      lines.unshift(`■ ${message.heading}`);
+    }
+    if (lines.length > 0) {
+      blocks.push(lines.join("\n"));
+    }
+
+    const models = this.modelRows(message);
+    if (models.length > 0) {
+      const width = Math.max(...models.map(row => this.displayWidth(row.model)), this.displayWidth("モデル"));
+      blocks.push([
+        "■ モデル別内訳",
+        ...[{ model: "モデル", cost: "コスト", share: "割合" }, ...models].map(row =>
+          `${this.pad(row.model, width, "end")}  ${this.pad(row.cost, 10, "start")}  ${this.pad(row.share, 4, "start")}`
+        )
+      ].join("\n"));
+    } else {
+      for (const section of message.sections ?? []) {
+        blocks.push(`■ ${section.title}\n${section.lines.join("\n")}`);
+      }
+    }
+
+    if (message.footer) {
+      blocks.push(message.footer);
+    }
+    return blocks.join("\n\n");
+  }
+
+  private html(message: NotificationMessage): string {
+    const color = message.severity ? SEVERITY_COLORS[message.severity] : "#111827";
+    const parts = [`<h2 style="color: ${color}; margin: 0 0 16px;">${this.escape(`${message.icon} ${message.title}`)}</h2>`];
+
+    if (message.heading) {
+      parts.push(`<h3 style="margin: 0 0 8px;">📊 ${this.escape(message.heading)}</h3>`);
+    }
+    const rows = message.fields.map(field => this.factRow(field.label, this.escape(field.value)));
+    if (message.progress) {
+      rows.push(this.factRow(message.progress.label, `<code>${this.escape(this.formatter.progressBar(message.progress))}</code>`));
+    }
+    if (rows.length > 0) {
+      parts.push(`<table style="border-collapse: collapse; margin-bottom: 16px;">\n${rows.join("\n")}\n</table>`);
+    }
+
+    // 閾値超過通知の内訳セクションは、セクションの代わりにモデル別の表として表示する
+    const models = this.modelRows(message);
+    if (models.length > 0) {
+      const cell = "padding: 4px 12px; border-bottom: 1px solid #e5e7eb;";
+      parts.push([
+        `<h3 style="margin: 0 0 8px;">🤖 モデル別内訳</h3>`,
+        `<table style="border-collapse: collapse; margin-bottom: 16px;">`,
+        `<tr><th style="${cell} text-align: left;">モデル</th><th style="${cell} text-align: right;">コスト</th><th style="${cell} text-align: right;">割合</th></tr>`,
+        ...models.map(row =>
+          `<tr><td style="${cell}">${this.escape(row.model)}</td><td style="${cell} text-align: right;">${row.cost}</td><td style="${cell} text-align: right;">${row.share}</td></tr>`
+        ),
+        "</table>"
+      ].join("\n"));
+    } else {
+      for (const section of message.sections ?? []) {
+        parts.push(`<h3 style="margin: 0 0 8px;">${this.escape(section.title)}</h3>\n<p>${section.lines.map(line => this.inline(line)).join("<br>\n")}</p>`);
+      }
+    }
+
+    if (message.footer) {
+      parts.push(`<p style="color: #6b7280;">${this.escape(message.footer)}</p>`);
+    }
+    return this.document(parts.join("\n"));
+  }
+
+  private modelRows(message: NotificationMessage): Array<{ model: string; cost: string; share: string }> {
+    const usage = message.usage;
+    if (!usage) {
+      return [];
+    }
+    return usage.models.map(model => ({
+      model: model.model,
+      cost: `$${model.cost.toFixed(2)}`,
+      share: usage.cost > 0 ? `${Math.round((model.cost / usage.cost) * 100)}%` : "-"
+    }));
+  }
+
+  // 等幅フォントで全角文字を2文字分として揃える
+  private pad(text: string, width: number, side: "start" | "end"): string {
+    const padding = " ".repeat(Math.max(0, width - this.displayWidth(text)));
+    return side === "start" ? padding + text : text + padding;
+  }
+
+  private displayWidth(text: string): number {
+    return [...text].reduce((width, char) => width + (/[\u1100-\uffdc]/.test(char) && !/[\uff61-\uff9f]/.test(char) ? 2 : 1), 0);
+  }
+
+  private factRow(label: string, valueHtml: string): string {
+    return `<tr><th style="padding: 4px 12px 4px 0; text-align: left; white-space: nowrap;">${this.escape(label)}</th><td style="padding: 4px 0;">${valueHtml}</td></tr>`;
+  }
+
+  private document(body: string): string {
+    return `<!DOCTYPE html>\n<html>\n<body style="font-family: sans-serif; color: #111827;">\n${body}\n</body>\n</html>`;
+  }
+
+  // テキスト通知のSlack記法（*太字*）を<strong>にする
+  private inline(text: string): string {
+    return this.escape(text).replace(/\*([^*\n]+)\*/g, "<strong>$1</strong>");
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+
+  private encodeHeader(value: string): string {
+    if (/^[\x20-\x7e]*$/.test(value)) {
+      return value;
+    }
+    const characters = [...value];
+    const words: string[] = [];
+    for (let i = 0; i < characters.length; i += SUBJECT_CHUNK_LENGTH) {
+      const chunk = characters.slice(i, i + SUBJECT_CHUNK_LENGTH).join("");
+      words.push(`=?UTF-8?B?${Buffer.from(chunk, "utf8").toString("base64")}?=`);
+    }
+    return words.join("\r\n ");
+  }
+
+  private base64Lines(body: string): string {
+    const encoded = Buffer.from(body, "utf8").toString("base64");
+    return encoded.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, "g"))?.join("\r\n") ?? "";
+  }
+}
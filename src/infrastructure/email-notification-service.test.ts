@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { EmailNotificationService } from "./email-notification-service.ts";
+import { MockLogger } from "./logger.ts";
+import type { SmtpConnectionOptions, SmtpEnvelope } from "./smtp-client.ts";
+import type { EmailSettings } from "../core/interfaces.ts";
+
+describe("EmailNotificationService", () => {
+  let mockLogger: MockLogger;
+  let connections: SmtpConnectionOptions[];
+  let envelopes: SmtpEnvelope[];
+  let failure: Error | undefined;
+
+  const settings: EmailSettings = {
+    host: "smtp.example.com",
+    port: 587,
+    starttls: true,
+    username: "ccwatch",
+    password: "secret",
+    from: "ccwatch <alerts@example.com>",
+    to: ["finance@example.com"],
+    cc: ["dev@example.com"]
+  };
+
+  const createService = (overrides: Partial<EmailSettings> = {}) =>
+    new EmailNotificationService(mockLogger, { ...settings, ...overrides }, options => {
+      connections.push(options);
+      return {
+        send: async (envelope: SmtpEnvelope) => {
+          if (failure) throw failure;
+          envelopes.push(envelope);
+        }
+      };
+    });
+
+  beforeEach(() => {
+    mockLogger = new MockLogger();
+    connections = [];
+    envelopes = [];
+    failure = undefined;
+  });
+
+  test("宛先とCcにSMTPで送信する", async () => {
+    await createService().send("🚨 *テスト通知*", "finance@example.com, cfo@example.com", "threshold");
+
+    expect(connections).toEqual([{
+      host: "smtp.example.com",
+      port: 587,
+      secure: undefined,
+      starttls: true,
+      username: "ccwatch",
+      password: "secret"
+    }]);
+    expect(envelopes).toHaveLength(1);
+    expect(envelopes[0]!.from).toBe("ccwatch <alerts@example.com>");
+    expect(envelopes[0]!.recipients).toEqual(["finance@example.com", "cfo@example.com", "dev@example.com"]);
+    expect(envelopes[0]!.data).toContain("To: finance@example.com, cfo@example.com\r\nCc: dev@example.com\r\n");
+    expect(envelopes[0]!.data).toMatch(/Content-Type: multipart\/alternative; boundary="ccwatch-[0-9a-f]+"/);
+    expect(mockLogger.hasLog("info", "メール通知送信完了")).toBe(true);
+  });
+
+  test("SMTPエラー", async () => {
+    failure = new Error("SMTP error: 535 Authentication failed");
+
+    await expect(createService().send("テスト", "finance@example.com")).rejects.toThrow("SMTP error: 535");
+    expect(mockLogger.hasLog("error", "メール通知送信エラー")).toBe(true);
+  });
+
+  test("空メッセージと宛先なし", async () => {
+    await expect(createService().send("  ", "finance@example.com")).rejects.toThrow("Message cannot be empty");
+    await expect(createService().send("テスト", " ")).rejects.toThrow("Email recipients cannot be empty");
+    expect(envelopes).toHaveLength(0);
+  });
+});
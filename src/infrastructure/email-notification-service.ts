@@ -0,0 +1,56 @@
+import { randomBytes } from "node:crypto";
+import type { NotificationService, NotificationType, NotificationMessage, EmailSettings, Logger } from "../core/interfaces.ts";
+import { EmailMessageRenderer } from "./email-message.ts";
+import { SmtpClient, type SmtpConnectionOptions, type SmtpEnvelope } from "./smtp-client.ts";
+
+export class EmailNotificationService implements NotificationService {
+  private renderer = new EmailMessageRenderer();
+
+  constructor(
+    private logger: Logger,
+    private settings: EmailSettings,
+    private createClient: (options: SmtpConnectionOptions) => { send(envelope: SmtpEnvelope): Promise<void> } =
+      options => new SmtpClient(options)
+  ) {}
+
+  // destinationはカンマ区切りの宛先（To）。Ccは設定から追加する
+  async send(message: string | NotificationMessage, destination: string, type?: NotificationType): Promise<void> {
+    const content = this.renderer.render(message);
+    const to = destination.split(",").map(address => address.trim()).filter(address => address.length > 0);
+    const cc = this.settings.cc ?? [];
+    this.logger.debug("メール通知送信開始", {
+      component: 'email-notification-service',
+      host: this.settings.host,
+      recipients: to.length + cc.length,
+      type
+    });
+
+    if (content.text.trim().length === 0) {
+      throw new Error("Message cannot be empty");
+    }
+    if (to.length === 0) {
+      throw new Error("Email recipients cannot be empty");
+    }
+
+    try {
+      const { host, port, secure, starttls, username, password } = this.settings;
+      await this.createClient({ host, port, secure, starttls, username, password }).send({
+        from: this.settings.from,
+        recipients: [...to, ...cc],
+        data: this.renderer.mime(content, { from: this.settings.from, to, cc }, new Date(), `ccwatch-${randomBytes(12).toString("hex")}`)
+      });
+
+      this.logger.info("メール通知送信完了", {
+        component: 'email-notification-service',
+        subject: content.subject
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error("メール通知送信エラー", {
+        component: 'email-notification-service',
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+}
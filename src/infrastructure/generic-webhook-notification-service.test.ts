@@ -0,0 +1,83 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { GenericWebhookNotificationService } from "./generic-webhook-notification-service.ts";
+import { MockLogger } from "./logger.ts";
+import type { NotificationMessage } from "../core/interfaces.ts";
+
+describe("GenericWebhookNotificationService", () => {
+  let mockLogger: MockLogger;
+  let originalFetch: any;
+
+  const webhookUrl = "https://gateway.internal.example.com/alerts";
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    fields: [{ label: "現在のコスト", value: "$45.50" }],
+    usage: { cost: 45.5, threshold: 40, month: "2025-07", models: [{ model: "claude-sonnet-4-20250514", cost: 45.5 }] }
+  };
+
+  beforeEach(() => {
+    mockLogger = new MockLogger();
+    originalFetch = global.fetch;
+    global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 200 })) as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("設定したメソッド・ヘッダー・ボディで送信する", async () => {
+    const service = new GenericWebhookNotificationService(mockLogger, {
+      method: "PUT",
+      headers: { "Authorization": "Bearer secret", "X-Source": "ccwatch" },
+      body: { event: "ccwatch.{{type}}", data: { usd: "{{cost}}", limit: "{{threshold}}", month: "{{month}}" } }
+    });
+
+    await service.send(message, webhookUrl, "threshold");
+
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe(webhookUrl);
+    expect(init.method).toBe("PUT");
+    expect(init.headers).toEqual({ "Content-Type": "application/json", "Authorization": "Bearer secret", "X-Source": "ccwatch" });
+    expect(JSON.parse(init.body)).toEqual({
+      event: "ccwatch.threshold",
+      data: { usd: 45.5, limit: 40, month: "2025-07" }
+    });
+    expect(mockLogger.hasLog("info", "Webhook通知送信完了")).toBe(true);
+  });
+
+  test("ボディ未指定時は全項目をPOSTする", async () => {
+    const service = new GenericWebhookNotificationService(mockLogger);
+
+    await service.send(message, webhookUrl, "threshold");
+
+    const init = (global.fetch as any).mock.calls[0][1];
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body)).toMatchObject({
+      title: "Claude Code使用料金が閾値を超過しました",
+      type: "threshold",
+      severity: "critical",
+      cost: 45.5,
+      threshold: 40,
+      excess: 5.5,
+      month: "2025-07",
+      models: [{ model: "claude-sonnet-4-20250514", cost: 45.5 }]
+    });
+  });
+
+  test("エラーレスポンス", async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response("unauthorized", { status: 401 })) as any;
+    const service = new GenericWebhookNotificationService(mockLogger);
+
+    await expect(service.send(message, webhookUrl)).rejects.toThrow("Webhook error: 401");
+    expect(mockLogger.hasLog("error", "Webhook通知送信エラー")).toBe(true);
+  });
+
+  test("空メッセージと無効なURL", async () => {
+    const service = new GenericWebhookNotificationService(mockLogger);
+
+    await expect(service.send("  ", webhookUrl)).rejects.toThrow("Message cannot be empty");
+    await expect(service.send("テスト", "invalid-url")).rejects.toThrow("Invalid webhook URL");
+  });
+});
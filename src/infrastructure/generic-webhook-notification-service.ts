@@ -0,0 +1,66 @@
+import type { NotificationService, NotificationType, NotificationMessage, WebhookTemplate, Logger } from "../core/interfaces.ts";
+import { WebhookTemplateRenderer } from "../core/webhook-template.ts";
+
+// bodyを指定しない場合に送信する内容（全プレースホルダー）
+export const DEFAULT_WEBHOOK_BODY = {
+  text: "{{text}}",
+  title: "{{title}}",
+  type: "{{type}}",
+  severity: "{{severity}}",
+  cost: "{{cost}}",
+  threshold: "{{threshold}}",
+  excess: "{{excess}}",
+  month: "{{month}}",
+  models: "{{models}}"
+};
+
+export class GenericWebhookNotificationService implements NotificationService {
+  private renderer = new WebhookTemplateRenderer();
+
+  constructor(private logger: Logger, private template: WebhookTemplate = {}) {}
+
+  async send(message: string | NotificationMessage, webhookUrl: string, type?: NotificationType): Promise<void> {
+    const values = this.renderer.values(message, type);
+    const method = this.template.method ?? "POST";
+    this.logger.debug("Webhook通知送信開始", {
+      component: 'generic-webhook-notification-service',
+      messageLength: String(values.text).length,
+      method,
+      type
+    });
+
+    if (String(values.text).trim().length === 0) {
+      throw new Error("Message cannot be empty");
+    }
+
+    try {
+      new URL(webhookUrl);
+    } catch {
+      throw new Error(`Invalid webhook URL: ${webhookUrl}`);
+    }
+
+    try {
+      const response = await fetch(webhookUrl, {
+        method,
+        headers: { "Content-Type": "application/json", ...this.template.headers },
+        body: JSON.stringify(this.renderer.render(this.template.body ?? DEFAULT_WEBHOOK_BODY, values))
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook error: ${response.status}`);
+      }
+
+      this.logger.info("Webhook通知送信完了", {
+        component: 'generic-webhook-notification-service',
+        status: response.status
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error("Webhook通知送信エラー", {
+        component: 'generic-webhook-notification-service',
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+}
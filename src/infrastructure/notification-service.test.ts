@@ -151,6 +151,21 @@ describe("SlackNotificationService", () => {
       })
     );
   });
+
+  test("構造化メッセージはBlock Kitとテキストで送信", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 }) as any;
+
+    await service.send({
+      icon: "🚨",
+      title: "閾値超過",
+      fields: [{ label: "現在のコスト", value: "$45.50" }]
+    }, "https://hooks.slack.com/services/test/webhook", "threshold");
+
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body.text).toBe("🚨 *閾値超過* 🚨\n\n• 現在のコスト: $45.50");
+    expect(body.blocks[0]).toEqual({ type: "header", text: { type: "plain_text", text: "🚨 閾値超過" } });
+    expect(body.blocks[1]).toEqual({ type: "section", fields: [{ type: "mrkdwn", text: "*現在のコスト*\n$45.50" }] });
+  });
 });
 
 describe("MockNotificationService", () => {
@@ -173,6 +188,45 @@ describe("MockNotificationService", () => {
     expect(mockService.getLastMessage()).toEqual({ message: message2, webhookUrl: webhook2 });
   });
 
+  test("通知の種類の記録", async () => {
+    const { MockNotificationService } = await import("./notification-service.ts");
+    const mockService = new MockNotificationService();
+
+    await mockService.send("異常検知", "https://hooks.slack.com/test", "anomaly");
+
+    expect(mockService.getLastMessage()).toEqual({
+      message: "異常検知",
+      webhookUrl: "https://hooks.slack.com/test",
+      type: "anomaly"
+    });
+  });
+
+  test("構造化メッセージはテキストと内容を記録", async () => {
+    const { MockNotificationService } = await import("./notification-service.ts");
+    const mockService = new MockNotificationService();
+    const content = { icon: "🚨", title: "閾値超過", fields: [] };
+
+    await mockService.send(content, "https://hooks.slack.com/test", "threshold");
+
+    expect(mockService.getLastMessage()).toEqual({
+      message: "🚨 *閾値超過* 🚨",
+      webhookUrl: "https://hooks.slack.com/test",
+      type: "threshold",
+      content
+    });
+  });
+
+  test("指定した種類の送信失敗", async () => {
+    const { MockNotificationService } = await import("./notification-service.ts");
+    const mockService = new MockNotificationService();
+    mockService.failOn("model", new Error("Slack API error: 500"));
+
+    await expect(mockService.send("モデル別閾値", "https://hooks.slack.com/test", "model")).rejects.toThrow("Slack API error: 500");
+    await mockService.send("閾値超過", "https://hooks.slack.com/test", "threshold");
+
+    expect(mockService.sentMessages.map(sent => sent.type)).toEqual(["threshold"]);
+  });
+
   test("クリア機能", async () => {
     const { MockNotificationService } = await import("./notification-service.ts");
     const mockService = new MockNotificationService();
@@ -1,15 +1,22 @@
-import type { NotificationService, Logger } from "../core/interfaces.ts";
+import type { NotificationService, NotificationType, NotificationMessage, Logger } from "../core/interfaces.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+import { SlackBlockKitRenderer } from "./slack-block-kit.ts";
 
 export class SlackNotificationService implements NotificationService {
+  private formatter = new NotificationMessageFormatter();
+  private blockKitRenderer = new SlackBlockKitRenderer();
+
   constructor(private logger: Logger) {}
 
-  async send(message: string, webhookUrl: string): Promise<void> {
+  async send(message: string | NotificationMessage, webhookUrl: string, type?: NotificationType): Promise<void> {
+    const text = this.formatter.toText(message);
     this.logger.debug("Slack通知送信開始", { 
       component: 'notification-service',
-      messageLength: message.length 
+      messageLength: text.length,
+      type
     });
 
-    if (!message || message.trim().length === 0) {
+    if (!text || text.trim().length === 0) {
       throw new Error("Message cannot be empty");
     }
 
@@ -25,7 +32,8 @@ export class SlackNotificationService implements NotificationService {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ text: message }),
+        // 構造化メッセージはBlock Kitで送信する（textは通知・非対応クライアント向けのフォールバック）
+        body: JSON.stringify(typeof message === "string" ? { text: message } : this.blockKitRenderer.render(message)),
       });
 
       if (!response.ok) {
@@ -47,19 +55,44 @@ export class SlackNotificationService implements NotificationService {
   }
 }
 
+export interface SentNotification {
+  message: string;
+  webhookUrl: string;
+  type?: NotificationType;
+  // 構造化メッセージで送信された場合の内容（messageはテキストに変換したもの）
+  content?: NotificationMessage;
+}
+
 // テスト用のモック実装
 export class MockNotificationService implements NotificationService {
-  public sentMessages: Array<{ message: string; webhookUrl: string }> = [];
+  public sentMessages: SentNotification[] = [];
+  private formatter = new NotificationMessageFormatter();
+  private failures = new Map<NotificationType | undefined, Error>();
 
-  async send(message: string, webhookUrl: string): Promise<void> {
-    this.sentMessages.push({ message, webhookUrl });
+  // 指定した種類の通知の送信をエラーにする（送信失敗のテスト用）
+  failOn(type: NotificationType | undefined, error: Error = new Error("Mock send failure")): void {
+    this.failures.set(type, error);
+  }
+
+  async send(message: string | NotificationMessage, webhookUrl: string, type?: NotificationType): Promise<void> {
+    const failure = this.failures.get(type);
+    if (failure) {
+      throw failure;
+    }
+    this.sentMessages.push({
+      message: this.formatter.toText(message),
+      webhookUrl,
+      ...(type && { type }),
+      ...(typeof message !== "string" && { content: message })
+    });
   }
 
   clear(): void {
     this.sentMessages = [];
+    this.failures.clear();
   }
 
-  getLastMessage(): { message: string; webhookUrl: string } | undefined {
+  getLastMessage(): SentNotification | undefined {
     return this.sentMessages[this.sentMessages.length - 1];
   }
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { PushNotificationService } from "./push-notification-service.ts";
+import { MockLogger } from "./logger.ts";
+import type { NotificationMessage } from "../core/interfaces.ts";
+
+interface ReceivedRequest {
+  path: string;
+  authorization?: string;
+  gotifyKey?: string;
+  body: any;
+}
+
+// ntfy（POST / にJSONで公開）とGotify（POST /message）を受け付けるローカルのプッシュ通知サーバー
+function startFakePushServer(requests: ReceivedRequest[]): Promise<{ server: Server; url: string }> {
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => { raw += chunk; });
+    req.on("end", () => {
+      const gotifyKey = req.headers["x-gotify-key"] as string | undefined;
+      requests.push({ path: req.url ?? "", authorization: req.headers.authorization, gotifyKey, body: JSON.parse(raw) });
+
+      if (req.url === "/message" && gotifyKey !== "app-token") {
+        res.writeHead(401, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Unauthorized", errorCode: 401 }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ id: "msg1" }));
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}` });
+    });
+  });
+}
+
+describe("PushNotificationService", () => {
+  let server: Server;
+  let serverUrl: string;
+  let requests: ReceivedRequest[];
+  let mockLogger: MockLogger;
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    heading: "2025-07の使用状況",
+    fields: [
+      { label: "現在のコスト", value: "$45.50" },
+      { label: "設定閾値", value: "$40.00" }
+    ],
+    progress: { label: "閾値に対する割合", current: 45.5, limit: 40 },
+    sections: [{ title: "🤖 モデル別内訳", lines: ["• claude-sonnet-4-20250514: $45.50 (100%)"] }],
+    footer: "適切な使用量管理をお願いします。"
+  };
+
+  beforeAll(async () => {
+    requests = [];
+    ({ server, url: serverUrl } = await startFakePushServer(requests));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    mockLogger = new MockLogger();
+  });
+
+  describe("ntfy", () => {
+    test("トピックにタイトル・優先度・タグ・クリック時のURLを付けて公開する", async () => {
+      const service = new PushNotificationService(mockLogger, "ntfy", {
+        token: "tk_test",
+        click: "https://console.anthropic.com/usage",
+        tags: ["money"]
+      });
+
+      await service.send(message, `${serverUrl}/ccwatch-alerts`, "threshold");
+
+      expect(requests).toEqual([{
+        path: "/",
+        authorization: "Bearer tk_test",
+        gotifyKey: undefined,
+        body: {
+          topic: "ccwatch-alerts",
+          title: "Claude Code使用料金が閾値を超過しました",
+          message: "2025-07の使用状況\n現在のコスト: $45.50\n設定閾値: $40.00\n閾値に対する割合: ▓▓▓▓▓▓▓▓▓▓ 113.8%\n\n" +
+            "🤖 モデル別内訳\n• claude-sonnet-4-20250514: $45.50 (100%)\n\n適切な使用量管理をお願いします。",
+          priority: 5,
+          tags: ["rotating_light", "money"],
+          click: "https://console.anthropic.com/usage"
+        }
+      }]);
+      expect(mockLogger.hasLog("info", "プッシュ通知送信完了")).toBe(true);
+    });
+
+    test("トークン無しのテキスト通知", async () => {
+      const service = new PushNotificationService(mockLogger, "ntfy");
+
+      await service.send("📈 *Claude Code 日次ダイジェスト* 📈", `${serverUrl}/ccwatch-alerts`);
+
+      expect(requests[0]!.authorization).toBeUndefined();
+      expect(requests[0]!.body).toEqual({
+        topic: "ccwatch-alerts",
+        title: "Claude Code 日次ダイジェスト",
+        message: "Claude Code 日次ダイジェスト",
+        priority: 3
+      });
+    });
+
+    test("パス配下に置いたサーバーはそのパスに公開する", () => {
+      const service = new PushNotificationService(mockLogger, "ntfy");
+
+      const request = service.request(message, "https://example.com/ntfy/ccwatch?auth=x");
+
+      expect(request.url).toBe("https://example.com/ntfy/");
+      expect(request.body.topic).toBe("ccwatch");
+    });
+  });
+
+  describe("Gotify", () => {
+    test("アプリトークンでメッセージを作成する", async () => {
+      const service = new PushNotificationService(mockLogger, "gotify", {
+        token: "app-token",
+        click: "https://console.anthropic.com/usage"
+      });
+
+      await service.send({ ...message, severity: "warning", icon: "⚠️" }, `${serverUrl}/`);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]!.path).toBe("/message");
+      expect(requests[0]!.gotifyKey).toBe("app-token");
+      expect(requests[0]!.body).toMatchObject({
+        title: "⚠️ Claude Code使用料金が閾値を超過しました",
+        priority: 5,
+        extras: {
+          "client::display": { contentType: "text/plain" },
+          "client::notification": { click: { url: "https://console.anthropic.com/usage" } }
+        }
+      });
+      expect(requests[0]!.body.message).toContain("現在のコスト: $45.50");
+    });
+
+    test("重要度から優先度への対応", () => {
+      const gotify = new PushNotificationService(mockLogger, "gotify", { token: "app-token" });
+      const ntfy = new PushNotificationService(mockLogger, "ntfy");
+
+      expect([gotify.priority({ ...message, severity: "info" }), gotify.priority({ ...message, severity: "warning" }), gotify.priority(message)]).toEqual([2, 5, 8]);
+      expect([ntfy.priority({ ...message, severity: "info" }), ntfy.priority({ ...message, severity: "warning" }), ntfy.priority(message)]).toEqual([3, 4, 5]);
+      expect([gotify.priority("テキスト通知"), ntfy.priority("テキスト通知")]).toEqual([5, 3]);
+    });
+
+    test("トークンが誤っている場合はエラー", async () => {
+      const service = new PushNotificationService(mockLogger, "gotify", { token: "wrong-token" });
+
+      await expect(service.send(message, serverUrl)).rejects.toThrow("Gotify error: 401");
+      expect(mockLogger.hasLog("error", "プッシュ通知送信エラー")).toBe(true);
+    });
+  });
+
+  test("空メッセージと不正なURL", async () => {
+    const service = new PushNotificationService(mockLogger, "ntfy");
+
+    await expect(service.send("  ", `${serverUrl}/ccwatch-alerts`)).rejects.toThrow("Message cannot be empty");
+    await expect(service.send("テスト", "not-a-url")).rejects.toThrow("Invalid push server URL: not-a-url");
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,182 @@
+import type { NotificationService, NotificationType, NotificationMessage, AlertSeverity, PushSettings, Logger } from "../core/interfaces.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+
+// ntfy: トピックへの公開、Gotify: アプリトークンでのメッセージ作成
+export type PushStyle = "ntfy" | "gotify";
+
+export interface PushRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+// ntfyの優先度（1: min 〜 5: urgent、3がdefault）
+const NTFY_PRIORITIES: Record<AlertSeverity, number> = {
+  info: 3,
+  warning: 4,
+  critical: 5
+};
+const NTFY_DEFAULT_PRIORITY = 3;
+
+// ntfyのタグは絵文字のショートコードならタイトルの前に絵文字として表示される
+const NTFY_SEVERITY_TAGS: Record<AlertSeverity, string> = {
+  info: "information_source",
+  warning: "warning",
+  critical: "rotating_light"
+};
+
+// Gotifyの優先度（Androidアプリでは1〜3は音なし、4〜7は音あり、8以上はポップアップで表示される）
+const GOTIFY_PRIORITIES: Record<AlertSeverity, number> = {
+  info: 2,
+  warning: 5,
+  critical: 8
+};
+const GOTIFY_DEFAULT_PRIORITY = 5;
+
+const STYLE_NAMES: Record<PushStyle, string> = {
+  ntfy: "ntfy",
+  gotify: "Gotify"
+};
+
+// セルフホストのプッシュ通知サーバー（ntfy / Gotify）にスマートフォン向けの通知を送信する
+export class PushNotificationService implements NotificationService {
+  private formatter = new NotificationMessageFormatter();
+
+  constructor(
+    private logger: Logger,
+    private style: PushStyle,
+    private settings: PushSettings = {}
+  ) {}
+
+  // serverUrlはntfyではトピックのURL（https://ntfy.example.com/topic）、GotifyではサーバーのURL
+  async send(message: string | NotificationMessage, serverUrl: string, type?: NotificationType): Promise<void> {
+    const text = this.formatter.toText(message);
+    this.logger.debug("プッシュ通知送信開始", {
+      component: 'push-notification-service',
+      style: this.style,
+      messageLength: text.length,
+      type
+    });
+
+    if (text.trim().length === 0) {
+      throw new Error("Message cannot be empty");
+    }
+
+    try {
+      new URL(serverUrl);
+    } catch {
+      throw new Error(`Invalid push server URL: ${serverUrl}`);
+    }
+
+    try {
+      const request = this.request(message, serverUrl);
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: request.headers,
+        body: JSON.stringify(request.body)
+      });
+
+      if (!response.ok) {
+        throw new Error(`${STYLE_NAMES[this.style]} error: ${response.status}`);
+      }
+
+      this.logger.info("プッシュ通知送信完了", {
+        component: 'push-notification-service',
+        style: this.style,
+        status: response.status
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error("プッシュ通知送信エラー", {
+        component: 'push-notification-service',
+        style: this.style,
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  request(message: string | NotificationMessage, serverUrl: string): PushRequest {
+    return this.style === "ntfy" ? this.ntfyRequest(message, serverUrl) : this.gotifyRequest(message, serverUrl);
+  }
+
+  priority(message: string | NotificationMessage): number {
+    const severity = typeof message === "string" ? undefined : message.severity;
+    if (this.style === "ntfy") {
+      return severity ? NTFY_PRIORITIES[severity] : NTFY_DEFAULT_PRIORITY;
+    }
+    return severity ? GOTIFY_PRIORITIES[severity] : GOTIFY_DEFAULT_PRIORITY;
+  }
+
+  // JSONでの公開（https://docs.ntfy.sh/publish/#publish-as-json）はトピックをbodyで指定し、サーバーのルートに送信する。
+  // ヘッダーでの指定と違い、日本語のタイトルをそのまま送れる
+  private ntfyRequest(message: string | NotificationMessage, topicUrl: string): PushRequest {
+    const url = new URL(topicUrl);
+    const segments = url.pathname.split("/").filter(segment => segment.length > 0);
+    const topic = decodeURIComponent(segments.pop() ?? "");
+    url.pathname = segments.length > 0 ? `/${segments.join("/")}/` : "/";
+    url.search = "";
+
+    const severity = typeof message === "string" ? undefined : message.severity;
+    const tags = [...(severity ? [NTFY_SEVERITY_TAGS[severity]] : []), ...(this.settings.tags ?? [])];
+    const title = this.formatter.title(message);
+    const body: Record<string, unknown> = {
+      topic,
+      title,
+      message: this.body(message) || title,
+      priority: this.priority(message)
+    };
+    if (tags.length > 0) body.tags = tags;
+    if (this.settings.click) body.click = this.settings.click;
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.settings.token) {
+      headers.Authorization = `Bearer ${this.settings.token}`;
+    }
+    return { url: url.toString(), headers, body };
+  }
+
+  // POST /message（https://gotify.net/api-docs）。クリック時のURLはextrasで指定する
+  private gotifyRequest(message: string | NotificationMessage, serverUrl: string): PushRequest {
+    const url = new URL(serverUrl);
+    url.pathname = `${url.pathname.replace(/\/+$/, "")}/message`;
+    url.search = "";
+
+    const extras: Record<string, unknown> = { "client::display": { contentType: "text/plain" } };
+    if (this.settings.click) {
+      extras["client::notification"] = { click: { url: this.settings.click } };
+    }
+    const title = typeof message === "string" ? this.formatter.title(message) : `${message.icon} ${message.title}`;
+
+    return {
+      url: url.toString(),
+      headers: { "Content-Type": "application/json", "X-Gotify-Key": this.settings.token ?? "" },
+      body: { title, message: this.body(message) || title, priority: this.priority(message), extras }
+    };
+  }
+
+  // 通知の本文はタイトル以外（装飾なし）。スマートフォンでは展開して読めるためセクションも含める。
+  // 1行だけのテキスト通知は本文が空になるため、呼び出し側でタイトルを本文にする
+  private body(message: string | NotificationMessage): string {
+    if (typeof message === "string") {
+      return message.split("\n").slice(1).join("\n").replace(/\*/g, "").trim();
+    }
+
+    const lines = message.fields.map(field => `${field.label}: ${field.value}`);
+    if (message.progress) {
+      lines.push(`${message.progress.label}: ${this.formatter.progressBar(message.progress)}`);
+    }
+    if (message.heading) {
+      lines.unshift(message.heading);
+    }
+
+    const blocks = lines.length > 0 ? [lines.join("\n")] : [];
+    for (const section of message.sections ?? []) {
+      blocks.push(`${section.title}\n${section.lines.join("\n")}`);
+    }
+    if (message.footer) {
+      blocks.push(message.footer);
+    }
+    return blocks.join("\n\n");
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { ScriptNotificationService } from "./script-notification-service.ts";
+import { MockCommandExecutor, SpawnCommandExecutor, CommandExitError } from "./command-executor.ts";
+import { MockLogger } from "./logger.ts";
+import type { NotificationMessage } from "../core/interfaces.ts";
+
+describe("ScriptNotificationService", () => {
+  let executor: MockCommandExecutor;
+  let mockLogger: MockLogger;
+  let service: ScriptNotificationService;
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    fields: [{ label: "現在のコスト", value: "$45.50" }],
+    usage: {
+      cost: 45.5,
+      threshold: 40,
+      month: "2025-07",
+      models: [{ model: "claude-opus-4-20250514", cost: 30 }, { model: "claude-sonnet-4-20250514", cost: 15.5 }]
+    }
+  };
+
+  beforeEach(() => {
+    executor = new MockCommandExecutor();
+    mockLogger = new MockLogger();
+    service = new ScriptNotificationService(mockLogger, executor, 30);
+  });
+
+  test("通知を標準入力のJSONと環境変数で渡す", async () => {
+    executor.setMockResponse("./pause-ci.sh", "paused 3 agents\n");
+
+    await service.send(message, "./pause-ci.sh", "threshold");
+
+    const [options] = executor.getExecutedOptions();
+    expect(options?.timeout).toBe(30_000);
+    expect(JSON.parse(options!.input!)).toMatchObject({
+      title: "Claude Code使用料金が閾値を超過しました",
+      type: "threshold",
+      severity: "critical",
+      cost: 45.5,
+      threshold: 40,
+      excess: 5.5,
+      month: "2025-07",
+      models: [{ model: "claude-opus-4-20250514", cost: 30 }, { model: "claude-sonnet-4-20250514", cost: 15.5 }]
+    });
+    expect(options?.env).toMatchObject({
+      CCWATCH_TITLE: "Claude Code使用料金が閾値を超過しました",
+      CCWATCH_TYPE: "threshold",
+      CCWATCH_SEVERITY: "critical",
+      CCWATCH_COST: "45.5",
+      CCWATCH_THRESHOLD: "40",
+      CCWATCH_EXCESS: "5.5",
+      CCWATCH_MONTH: "2025-07",
+      CCWATCH_MODELS: "claude-opus-4-20250514 ($30.00), claude-sonnet-4-20250514 ($15.50)"
+    });
+    expect(mockLogger.logs.some(log =>
+      log.message === "スクリプト通知実行完了" && log.context?.exitCode === 0 && log.context?.output === "paused 3 agents"
+    )).toBe(true);
+  });
+
+  test("テキスト通知では使用量の変数は空になる", async () => {
+    executor.setMockResponse("./notify.sh", "");
+
+    await service.send("📈 *Claude Code 日次ダイジェスト* 📈", "./notify.sh");
+
+    const [options] = executor.getExecutedOptions();
+    expect(options?.env).toMatchObject({ CCWATCH_TITLE: "Claude Code 日次ダイジェスト", CCWATCH_COST: "", CCWATCH_TYPE: "" });
+    expect(JSON.parse(options!.input!)).toMatchObject({ cost: null, models: null });
+  });
+
+  test("0以外の終了コードは送信失敗として終了コードを記録する", async () => {
+    executor.setMockError("./pause-ci.sh", new CommandExitError("Command failed: ./pause-ci.sh", 2, null, false));
+
+    await expect(service.send(message, "./pause-ci.sh")).rejects.toThrow("Script exited with code 2: ./pause-ci.sh");
+    expect(mockLogger.logs.some(log =>
+      log.level === "error" && log.message === "スクリプト通知実行エラー" && log.context?.exitCode === 2
+    )).toBe(true);
+  });
+
+  test("タイムアウト", async () => {
+    executor.setMockError("./slow.sh", new CommandExitError("spawnSync /bin/sh ETIMEDOUT", null, "SIGTERM", true));
+
+    await expect(service.send(message, "./slow.sh")).rejects.toThrow("Script timed out after 30s: ./slow.sh");
+  });
+
+  test("空メッセージと空のコマンド", async () => {
+    await expect(service.send("  ", "./notify.sh")).rejects.toThrow("Message cannot be empty");
+    await expect(service.send("テスト", " ")).rejects.toThrow("Script command cannot be empty");
+    expect(executor.getExecutedCommands()).toHaveLength(0);
+  });
+
+  test("実際のシェルで標準入力と環境変数を受け取り、終了コードで失敗を判定する", async () => {
+    const shell = new ScriptNotificationService(mockLogger, new SpawnCommandExecutor(), 5);
+
+    await shell.send(message, `test "$CCWATCH_SEVERITY" = critical && grep -q '"cost":45.5'`);
+    await expect(shell.send(message, `test "$CCWATCH_SEVERITY" = warning`)).rejects.toThrow("Script exited with code 1");
+  });
+
+  test("実際のシェルでタイムアウトしたスクリプトを停止する", async () => {
+    const shell = new ScriptNotificationService(mockLogger, new SpawnCommandExecutor(), 1);
+
+    await expect(shell.send(message, "sleep 5; echo late")).rejects.toThrow("Script timed out after 1s: sleep 5; echo late");
+  });
+});
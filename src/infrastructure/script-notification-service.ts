@@ -0,0 +1,64 @@
+import type { NotificationService, NotificationType, NotificationMessage, Logger } from "../core/interfaces.ts";
+import { WebhookTemplateRenderer, WEBHOOK_PLACEHOLDERS } from "../core/webhook-template.ts";
+import { DEFAULT_WEBHOOK_BODY } from "./generic-webhook-notification-service.ts";
+import { CommandExitError, type CommandExecutor } from "./command-executor.ts";
+
+// 設定したコマンドを実行して通知を渡す（CIエージェントの停止、社内ボットへの投稿などの自動化用）。
+// 通知は標準入力にJSON（汎用Webhookの既定のボディと同じ内容）で、環境変数にCCWATCH_COSTなどで渡す
+export class ScriptNotificationService implements NotificationService {
+  private renderer = new WebhookTemplateRenderer();
+
+  constructor(
+    private logger: Logger,
+    private commandExecutor: CommandExecutor,
+    private timeoutSeconds: number
+  ) {}
+
+  async send(message: string | NotificationMessage, command: string, type?: NotificationType): Promise<void> {
+    const values = this.renderer.values(message, type);
+    this.logger.debug("スクリプト通知実行開始", {
+      component: 'script-notification-service',
+      command,
+      type
+    });
+
+    if (String(values.text).trim().length === 0) {
+      throw new Error("Message cannot be empty");
+    }
+    if (command.trim().length === 0) {
+      throw new Error("Script command cannot be empty");
+    }
+
+    const input = JSON.stringify(this.renderer.render(DEFAULT_WEBHOOK_BODY, values));
+    const env = Object.fromEntries(
+      WEBHOOK_PLACEHOLDERS.map(name => [`CCWATCH_${name.toUpperCase()}`, this.renderer.embed(values[name])])
+    );
+
+    try {
+      const output = await this.commandExecutor.execute(command, {
+        input,
+        env,
+        timeout: this.timeoutSeconds * 1000
+      });
+      this.logger.info("スクリプト通知実行完了", {
+        component: 'script-notification-service',
+        exitCode: 0,
+        output: output.trim()
+      });
+    } catch (error) {
+      const exit = error instanceof CommandExitError ? error : undefined;
+      const failure = exit?.timedOut
+        ? new Error(`Script timed out after ${this.timeoutSeconds}s: ${command}`)
+        : exit?.exitCode
+          ? new Error(`Script exited with code ${exit.exitCode}: ${command}`)
+          : error;
+      this.logger.error("スクリプト通知実行エラー", {
+        component: 'script-notification-service',
+        exitCode: exit?.exitCode,
+        signal: exit?.signal,
+        error: failure instanceof Error ? failure.message : String(failure)
+      });
+      throw failure;
+    }
+  }
+}
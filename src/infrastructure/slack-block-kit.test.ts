@@ -0,0 +1,78 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SlackBlockKitRenderer } from "./slack-block-kit.ts";
+import type { NotificationMessage } from "../core/interfaces.ts";
+
+describe("SlackBlockKitRenderer", () => {
+  let renderer: SlackBlockKitRenderer;
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    heading: "2025-07の使用状況",
+    fields: [
+      { label: "現在のコスト", value: "$45.50" },
+      { label: "設定閾値", value: "$40.00" },
+      { label: "超過額", value: "$5.50" }
+    ],
+    progress: { label: "閾値に対する割合", current: 45.5, limit: 40 },
+    sections: [{ title: "🤖 モデル別内訳", lines: ["• claude-opus-4-20250514: $30.00 (66%)", "• claude-sonnet-4-20250514: $15.50 (34%)"] }],
+    footer: "適切な使用量管理をお願いします。"
+  };
+
+  beforeEach(() => {
+    renderer = new SlackBlockKitRenderer();
+  });
+
+  test("ヘッダー・フィールド・プログレスバー・内訳・フッター", () => {
+    const payload = renderer.render(message);
+
+    expect(payload.blocks).toEqual([
+      { type: "header", text: { type: "plain_text", text: "🚨 Claude Code使用料金が閾値を超過しました" } },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: "📊 *2025-07の使用状況*" },
+        fields: [
+          { type: "mrkdwn", text: "*現在のコスト*\n$45.50" },
+          { type: "mrkdwn", text: "*設定閾値*\n$40.00" },
+          { type: "mrkdwn", text: "*超過額*\n$5.50" }
+        ]
+      },
+      { type: "section", text: { type: "mrkdwn", text: "*閾値に対する割合*\n`▓▓▓▓▓▓▓▓▓▓ 113.8%`" } },
+      { type: "divider" },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: "*🤖 モデル別内訳*\n• claude-opus-4-20250514: $30.00 (66%)\n• claude-sonnet-4-20250514: $15.50 (34%)" }
+      },
+      { type: "context", elements: [{ type: "mrkdwn", text: "適切な使用量管理をお願いします。" }] }
+    ]);
+  });
+
+  test("ブロック非対応クライアント向けのテキストを含む", () => {
+    const payload = renderer.render(message);
+
+    expect(payload.text).toContain("🚨 *Claude Code使用料金が閾値を超過しました* 🚨");
+    expect(payload.text).toContain("• 超過額: $5.50");
+    expect(payload.text).not.toContain("**");
+  });
+
+  test("1セクションに収まらないフィールドは分割する", () => {
+    const fields = Array.from({ length: 12 }, (_, i) => ({ label: `項目${i + 1}`, value: `${i + 1}` }));
+
+    const payload = renderer.render({ icon: "ℹ️", title: "テスト", fields });
+
+    const sections = payload.blocks.filter(block => block.type === "section");
+    expect(sections).toHaveLength(2);
+    expect(sections[0]).toMatchObject({ fields: expect.arrayContaining([{ type: "mrkdwn", text: "*項目10*\n10" }]) });
+    expect((sections[0] as any).fields).toHaveLength(10);
+    expect((sections[1] as any).fields).toHaveLength(2);
+  });
+
+  test("長すぎるヘッダーは切り詰める", () => {
+    const payload = renderer.render({ icon: "🚨", title: "あ".repeat(200), fields: [] });
+
+    const header = payload.blocks[0] as any;
+    expect(header.text.text).toHaveLength(150);
+    expect(header.text.text.endsWith("…")).toBe(true);
+    expect(payload.blocks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,74 @@
+import type { NotificationMessage } from "../core/interfaces.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+
+export interface SlackText {
+  type: "plain_text" | "mrkdwn";
+  text: string;
+}
+
+export type SlackBlock =
+  | { type: "header"; text: SlackText }
+  | { type: "section"; text?: SlackText; fields?: SlackText[] }
+  | { type: "divider" }
+  | { type: "context"; elements: SlackText[] };
+
+// chat.postMessage / Incoming Webhookに送信するペイロード。textは通知やブロック非対応クライアント向け
+export interface SlackPayload {
+  text: string;
+  blocks: SlackBlock[];
+}
+
+// Block Kitの制限（https://api.slack.com/reference/block-kit/blocks）
+const HEADER_MAX_LENGTH = 150;
+const SECTION_MAX_FIELDS = 10;
+const SECTION_TEXT_MAX_LENGTH = 3000;
+
+export class SlackBlockKitRenderer {
+  private formatter = new NotificationMessageFormatter();
+
+  render(message: NotificationMessage): SlackPayload {
+    const blocks: SlackBlock[] = [
+      { type: "header", text: { type: "plain_text", text: this.truncate(`${message.icon} ${message.title}`, HEADER_MAX_LENGTH) } }
+    ];
+
+    // 1つのセクションに入るフィールド数を超える分は続くセクションに分ける
+    const fields = message.fields.map(field => this.mrkdwn(`*${field.label}*\n${field.value}`));
+    if (message.heading || fields.length > 0) {
+      const first = fields.slice(0, SECTION_MAX_FIELDS);
+      blocks.push({
+        type: "section",
+        ...(message.heading && { text: this.mrkdwn(`📊 *${message.heading}*`) }),
+        ...(first.length > 0 && { fields: first })
+      });
+    }
+    for (let i = SECTION_MAX_FIELDS; i < fields.length; i += SECTION_MAX_FIELDS) {
+      blocks.push({ type: "section", fields: fields.slice(i, i + SECTION_MAX_FIELDS) });
+    }
+
+    if (message.progress) {
+      blocks.push({
+        type: "section",
+        text: this.mrkdwn(`*${message.progress.label}*\n\`${this.formatter.progressBar(message.progress)}\``)
+      });
+    }
+
+    for (const section of message.sections ?? []) {
+      blocks.push({ type: "divider" });
+      blocks.push({ type: "section", text: this.mrkdwn(`*${section.title}*\n${section.lines.join("\n")}`) });
+    }
+
+    if (message.footer) {
+      blocks.push({ type: "context", elements: [this.mrkdwn(message.footer)] });
+    }
+
+    return { text: this.formatter.toText(message), blocks };
+  }
+
+  private mrkdwn(text: string): SlackText {
+    return { type: "mrkdwn", text: this.truncate(text, SECTION_TEXT_MAX_LENGTH) };
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+  }
+}
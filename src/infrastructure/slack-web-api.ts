@@ -0,0 +1,121 @@
+import type { ThreadedNotificationService, NotificationMessage, NotificationType, Logger } from "../core/interfaces.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+import { SlackBlockKitRenderer } from "./slack-block-kit.ts";
+
+export const SLACK_API_URL = "https://slack.com/api";
+
+interface SlackApiResponse {
+  ok: boolean;
+  ts?: string;
+  error?: string;
+}
+
+// ボットトークンでSlack Web APIに送信する通知サービス。
+// Incoming Webhookと異なり、スレッドへの返信と送信済みメッセージの更新ができる
+export class SlackWebApiNotificationService implements ThreadedNotificationService {
+  private formatter = new NotificationMessageFormatter();
+  private blockKitRenderer = new SlackBlockKitRenderer();
+
+  constructor(
+    private token: string,
+    private logger: Logger,
+    private apiUrl: string = SLACK_API_URL
+  ) {}
+
+  async send(message: string | NotificationMessage, channel: string, type?: NotificationType): Promise<void> {
+    await this.post(message, channel);
+    this.logger.debug("Slackチャンネルに投稿しました", { component: 'slack-web-api', channel, type });
+  }
+
+  async post(message: string | NotificationMessage, channel: string, threadId?: string): Promise<string> {
+    const response = await this.call("chat.postMessage", {
+      channel,
+      ...this.payload(message),
+      ...(threadId && { thread_ts: threadId })
+    });
+    if (!response.ts) {
+      throw new Error("Slack API error: chat.postMessage did not return ts");
+    }
+    return response.ts;
+  }
+
+  async update(message: string | NotificationMessage, channel: string, messageId: string): Promise<void> {
+    await this.call("chat.update", { channel, ts: messageId, ...this.payload(message) });
+  }
+
+  async pin(channel: string, messageId: string): Promise<void> {
+    await this.call("pins.add", { channel, timestamp: messageId });
+  }
+
+  private payload(message: string | NotificationMessage): { text: string; blocks?: unknown[] } {
+    const text = this.formatter.toText(message);
+    if (text.trim().length === 0) {
+      throw new Error("Message cannot be empty");
+    }
+    return typeof message === "string" ? { text } : this.blockKitRenderer.render(message);
+  }
+
+  // Web APIはエラー時もHTTP 200で { ok: false, error } を返す
+  private async call(method: string, body: Record<string, unknown>): Promise<SlackApiResponse> {
+    try {
+      const response = await fetch(`${this.apiUrl}/${method}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          "Authorization": `Bearer ${this.token}`
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Slack API error: ${method} ${response.status}`);
+      }
+
+      const result = await response.json() as SlackApiResponse;
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${method} ${result.error ?? "unknown_error"}`);
+      }
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error("Slack API呼び出しエラー", {
+        component: 'slack-web-api',
+        method,
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+}
+
+// テスト用のモック実装（tsは投稿順の連番）
+export class MockThreadedNotificationService implements ThreadedNotificationService {
+  public posts: Array<{ message: string; channel: string; threadId?: string; ts: string; content?: NotificationMessage }> = [];
+  public updates: Array<{ message: string; channel: string; messageId: string }> = [];
+  public pins: Array<{ channel: string; messageId: string }> = [];
+  private formatter = new NotificationMessageFormatter();
+
+  async send(message: string | NotificationMessage, channel: string): Promise<void> {
+    await this.post(message, channel);
+  }
+
+  async post(message: string | NotificationMessage, channel: string, threadId?: string): Promise<string> {
+    const ts = `1700000000.${String(this.posts.length + 1).padStart(6, '0')}`;
+    this.posts.push({
+      message: this.formatter.toText(message),
+      channel,
+      ts,
+      ...(threadId && { threadId }),
+      ...(typeof message !== "string" && { content: message })
+    });
+    return ts;
+  }
+
+  async update(message: string | NotificationMessage, channel: string, messageId: string): Promise<void> {
+    this.updates.push({ message: this.formatter.toText(message), channel, messageId });
+  }
+
+  async pin(channel: string, messageId: string): Promise<void> {
+    this.pins.push({ channel, messageId });
+  }
+}
@@ -0,0 +1,234 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+
+export interface SmtpConnectionOptions {
+  readonly host: string;
+  readonly port: number;
+  readonly secure?: boolean;
+  readonly starttls?: boolean;
+  readonly username?: string;
+  readonly password?: string;
+  readonly timeoutMs?: number;
+}
+
+// SMTPで送信する1通分のエンベロープと、ヘッダーを含むメッセージ本文
+export interface SmtpEnvelope {
+  readonly from: string;
+  readonly recipients: readonly string[];
+  readonly data: string;
+}
+
+interface SmtpResponse {
+  readonly code: number;
+  readonly lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const CLIENT_NAME = "ccwatch";
+
+// 通知の送信に必要な範囲（EHLO / STARTTLS / AUTH PLAIN・LOGIN / MAIL / RCPT / DATA）のSMTPクライアント
+export class SmtpClient {
+  constructor(private options: SmtpConnectionOptions) {}
+
+  async send(envelope: SmtpEnvelope): Promise<void> {
+    const session = await SmtpSession.open(this.options);
+    try {
+      await session.expect(220);
+      let extensions = await this.hello(session);
+
+      if (!this.options.secure && this.options.starttls !== false) {
+        if (!extensions.has("STARTTLS")) {
+          throw new Error("SMTP server does not support STARTTLS (set starttls to false to send without encryption)");
+        }
+        await session.command("STARTTLS", 220);
+        await session.upgrade(this.options.host);
+        extensions = await this.hello(session);
+      }
+
+      if (this.options.username !== undefined) {
+        await this.authenticate(session, extensions.get("AUTH") ?? "");
+      }
+
+      await session.command(`MAIL FROM:<${SmtpClient.address(envelope.from)}>`, 250);
+      for (const recipient of envelope.recipients) {
+        await session.command(`RCPT TO:<${SmtpClient.address(recipient)}>`, 250, 251);
+      }
+      await session.command("DATA", 354);
+      await session.command(`${SmtpClient.dotStuff(envelope.data)}\r\n.`, 250);
+      await session.command("QUIT", 221).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+
+  // "ccwatch <alerts@example.com>" 形式からエンベロープ用のアドレスを取り出す
+  static address(mailbox: string): string {
+    return mailbox.match(/<([^>]+)>/)?.[1]?.trim() ?? mailbox.trim();
+  }
+
+  // 行頭の"."は本文の終端と区別するため".."に二重化する
+  private static dotStuff(data: string): string {
+    return data.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  }
+
+  // EHLOの応答から拡張（"AUTH" → "PLAIN LOGIN" など）を取り出す
+  private async hello(session: SmtpSession): Promise<Map<string, string>> {
+    const response = await session.command(`EHLO ${CLIENT_NAME}`, 250);
+    const extensions = new Map<string, string>();
+    for (const line of response.lines.slice(1)) {
+      const [keyword = "", ...params] = line.trim().split(/\s+/);
+      extensions.set(keyword.toUpperCase(), params.join(" ").toUpperCase());
+    }
+    return extensions;
+  }
+
+  private async authenticate(session: SmtpSession, mechanisms: string): Promise<void> {
+    const username = this.options.username ?? "";
+    const password = this.options.password ?? "";
+    const encode = (value: string) => Buffer.from(value, "utf8").toString("base64");
+
+    if (mechanisms.split(" ").includes("PLAIN")) {
+      await session.command(`AUTH PLAIN ${encode(`\0${username}\0${password}`)}`, 235);
+    } else if (mechanisms.split(" ").includes("LOGIN")) {
+      await session.command("AUTH LOGIN", 334);
+      await session.command(encode(username), 334);
+      await session.command(encode(password), 235);
+    } else {
+      throw new Error("SMTP server does not support AUTH PLAIN or LOGIN");
+    }
+  }
+}
+
+// 1つの接続。応答は複数行（"250-..." 〜 "250 ..."）をまとめて1つとして読む
+class SmtpSession {
+  private buffer = "";
+  private responses: SmtpResponse[] = [];
+  private pendingLines: string[] = [];
+  private waiting?: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  private constructor(private socket: Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  static open(options: SmtpConnectionOptions): Promise<SmtpSession> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? connectTls({ host: options.host, port: options.port, servername: options.host })
+        : connectTcp({ host: options.host, port: options.port });
+      const onError = (error: Error) => reject(error);
+      socket.once("error", onError);
+      socket.once(options.secure ? "secureConnect" : "connect", () => {
+        socket.off("error", onError);
+        resolve(new SmtpSession(socket, timeoutMs));
+      });
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP connection timed out after ${timeoutMs}ms`)));
+    });
+  }
+
+  async command(line: string, ...expected: number[]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...expected);
+  }
+
+  async expect(...expected: number[]): Promise<SmtpResponse> {
+    const response = await this.read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP error: ${response.code} ${response.lines.join(" ")}`.trim());
+    }
+    return response;
+  }
+
+  // STARTTLSの応答後に同じ接続をTLSに切り替える
+  upgrade(servername: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("error");
+    plain.removeAllListeners("close");
+    plain.removeAllListeners("timeout");
+    plain.setTimeout(0);
+    // STARTTLSの応答の後に平文で届いたデータをTLS切り替え後の応答として読まないよう破棄する
+    this.buffer = "";
+    this.responses = [];
+    this.pendingLines = [];
+
+    return new Promise((resolve, reject) => {
+      const secure = connectTls({ socket: plain, servername });
+      const timer = setTimeout(
+        () => secure.destroy(new Error(`SMTP TLS handshake timed out after ${this.timeoutMs}ms`)),
+        this.timeoutMs
+      );
+      secure.once("error", error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      secure.once("secureConnect", () => {
+        clearTimeout(timer);
+        secure.removeAllListeners("error");
+        this.socket = secure;
+        this.attach(secure);
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: Socket): void {
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error(`SMTP connection timed out after ${this.timeoutMs}ms`)));
+    socket.on("data", (chunk: Buffer) => this.receive(chunk.toString("utf8")));
+    socket.on("error", error => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.substring(0, index);
+      this.buffer = this.buffer.substring(index + 2);
+      this.pendingLines.push(line.substring(4));
+      // 4文字目が"-"の行は応答の途中
+      if (line.charAt(3) !== "-") {
+        this.deliver({ code: Number(line.substring(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+    }
+  }
+
+  private deliver(response: SmtpResponse): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = undefined;
+      resolve(response);
+    } else {
+      this.responses.push(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(error);
+    }
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const response = this.responses.shift();
+    if (response) {
+      return Promise.resolve(response);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+}
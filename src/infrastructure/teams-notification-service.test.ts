@@ -0,0 +1,101 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { TeamsNotificationService } from "./teams-notification-service.ts";
+import { MockLogger } from "./logger.ts";
+import type { NotificationMessage } from "../core/interfaces.ts";
+
+describe("TeamsNotificationService", () => {
+  let service: TeamsNotificationService;
+  let mockLogger: MockLogger;
+  let originalFetch: any;
+
+  const webhookUrl = "https://contoso.webhook.office.com/webhookb2/abc/IncomingWebhook/def/ghi";
+
+  const message: NotificationMessage = {
+    icon: "🚨",
+    title: "Claude Code使用料金が閾値を超過しました",
+    severity: "critical",
+    heading: "2025-07の使用状況",
+    fields: [
+      { label: "現在のコスト", value: "$45.50" },
+      { label: "設定閾値", value: "$40.00" },
+      { label: "超過額", value: "$5.50" }
+    ],
+    progress: { label: "閾値に対する割合", current: 45.5, limit: 40 },
+    sections: [{
+      title: "🤖 モデル別内訳",
+      lines: ["• claude-opus-4-20250514: $30.00 (66%)", "• claude-sonnet-4-20250514: $15.50 (34%)"]
+    }],
+    footer: "適切な使用量管理をお願いします。"
+  };
+
+  beforeEach(() => {
+    mockLogger = new MockLogger();
+    service = new TeamsNotificationService(mockLogger);
+    originalFetch = global.fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("構造化メッセージはAdaptive Cardで送信する", async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 202 })) as any;
+
+    await service.send(message, webhookUrl, "threshold");
+
+    const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+    expect(body.type).toBe("message");
+    expect(body.attachments[0].contentType).toBe("application/vnd.microsoft.card.adaptive");
+
+    const card = body.attachments[0].content;
+    expect(card.type).toBe("AdaptiveCard");
+    expect(card.version).toBe("1.4");
+    expect(card.body).toEqual([
+      { type: "TextBlock", text: "🚨 Claude Code使用料金が閾値を超過しました", wrap: true, size: "Large", weight: "Bolder", color: "Attention" },
+      { type: "TextBlock", text: "📊 2025-07の使用状況", wrap: true, weight: "Bolder" },
+      {
+        type: "FactSet",
+        facts: [
+          { title: "現在のコスト", value: "$45.50" },
+          { title: "設定閾値", value: "$40.00" },
+          { title: "超過額", value: "$5.50" }
+        ]
+      },
+      { type: "TextBlock", text: "閾値に対する割合: ▓▓▓▓▓▓▓▓▓▓ 113.8%", wrap: true, fontType: "Monospace" },
+      { type: "TextBlock", text: "🤖 モデル別内訳", wrap: true, weight: "Bolder", spacing: "Medium", separator: true },
+      { type: "TextBlock", text: "• claude-opus-4-20250514: $30.00 (66%)\n\n• claude-sonnet-4-20250514: $15.50 (34%)", wrap: true },
+      { type: "TextBlock", text: "適切な使用量管理をお願いします。", wrap: true, isSubtle: true, spacing: "Medium" }
+    ]);
+    expect(mockLogger.hasLog("info", "Teams通知送信完了")).toBe(true);
+  });
+
+  test("重要度ごとのタイトルの色", () => {
+    const color = (severity: "info" | "warning") =>
+      (service.payload({ ...message, severity }).attachments[0]!.content.body[0] as { color?: string }).color;
+
+    expect(color("warning")).toBe("Warning");
+    expect(color("info")).toBe("Accent");
+  });
+
+  test("テキストはMarkdownに変換して1つのTextBlockで送信する", () => {
+    const payload = service.payload("📈 *Claude Code 日次ダイジェスト*\n• 合計: $12.00\n\n*モデル別*");
+
+    expect(payload.attachments[0]!.content.body).toEqual([{
+      type: "TextBlock",
+      text: "📈 **Claude Code 日次ダイジェスト**\n\n• 合計: $12.00\n\n**モデル別**",
+      wrap: true
+    }]);
+  });
+
+  test("APIエラー", async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response("Bad payload", { status: 400 })) as any;
+
+    await expect(service.send(message, webhookUrl)).rejects.toThrow("Teams API error: 400");
+    expect(mockLogger.hasLog("error", "Teams通知送信エラー")).toBe(true);
+  });
+
+  test("空メッセージと無効なURL", async () => {
+    await expect(service.send("  ", webhookUrl)).rejects.toThrow("Message cannot be empty");
+    await expect(service.send("テスト", "invalid-url")).rejects.toThrow("Invalid webhook URL");
+  });
+});
@@ -0,0 +1,160 @@
+import type { NotificationService, NotificationType, NotificationMessage, AlertSeverity, Logger } from "../core/interfaces.ts";
+import { NotificationMessageFormatter } from "../core/notification-message.ts";
+
+export type AdaptiveCardElement =
+  | {
+      type: "TextBlock";
+      text: string;
+      wrap: true;
+      size?: "Medium" | "Large";
+      weight?: "Bolder";
+      color?: "Accent" | "Warning" | "Attention";
+      fontType?: "Monospace";
+      isSubtle?: boolean;
+      spacing?: "Medium";
+      separator?: boolean;
+    }
+  | { type: "FactSet"; facts: Array<{ title: string; value: string }> };
+
+export interface TeamsPayload {
+  type: "message";
+  attachments: Array<{
+    contentType: "application/vnd.microsoft.card.adaptive";
+    contentUrl: null;
+    content: {
+      $schema: string;
+      type: "AdaptiveCard";
+      version: string;
+      msteams: { width: "Full" };
+      body: AdaptiveCardElement[];
+    };
+  }>;
+}
+
+const SEVERITY_COLORS: Record<AlertSeverity, "Accent" | "Warning" | "Attention"> = {
+  info: "Accent",
+  warning: "Warning",
+  critical: "Attention"
+};
+
+// Teamsの受信Webhook・Workflowsが対応するAdaptive Cardのバージョン
+const ADAPTIVE_CARD_SCHEMA = "http://adaptivecards.io/schemas/adaptive-card.json";
+const ADAPTIVE_CARD_VERSION = "1.4";
+
+export class TeamsNotificationService implements NotificationService {
+  private formatter = new NotificationMessageFormatter();
+
+  constructor(private logger: Logger) {}
+
+  async send(message: string | NotificationMessage, webhookUrl: string, type?: NotificationType): Promise<void> {
+    const text = this.formatter.toText(message);
+    this.logger.debug("Teams通知送信開始", {
+      component: 'teams-notification-service',
+      messageLength: text.length,
+      type
+    });
+
+    if (text.trim().length === 0) {
+      throw new Error("Message cannot be empty");
+    }
+
+    try {
+      new URL(webhookUrl);
+    } catch {
+      throw new Error(`Invalid webhook URL: ${webhookUrl}`);
+    }
+
+    try {
+      const response = await fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(this.payload(message))
+      });
+
+      // Workflowsは202、受信Webhookは200を返す
+      if (!response.ok) {
+        throw new Error(`Teams API error: ${response.status}`);
+      }
+
+      this.logger.info("Teams通知送信完了", {
+        component: 'teams-notification-service',
+        status: response.status
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error("Teams通知送信エラー", {
+        component: 'teams-notification-service',
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  // 構造化メッセージはタイトル・FactSet・内訳のAdaptive Cardに、テキストは1つのTextBlockにする
+  payload(message: string | NotificationMessage): TeamsPayload {
+    const body: AdaptiveCardElement[] = typeof message === "string"
+      ? [{ type: "TextBlock", text: this.toMarkdown(message), wrap: true }]
+      : this.cardBody(message);
+
+    return {
+      type: "message",
+      attachments: [{
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: ADAPTIVE_CARD_SCHEMA,
+          type: "AdaptiveCard",
+          version: ADAPTIVE_CARD_VERSION,
+          msteams: { width: "Full" },
+          body
+        }
+      }]
+    };
+  }
+
+  private cardBody(message: NotificationMessage): AdaptiveCardElement[] {
+    const body: AdaptiveCardElement[] = [{
+      type: "TextBlock",
+      text: `${message.icon} ${message.title}`,
+      wrap: true,
+      size: "Large",
+      weight: "Bolder",
+      ...(message.severity && { color: SEVERITY_COLORS[message.severity] })
+    }];
+
+    if (message.heading) {
+      body.push({ type: "TextBlock", text: `📊 ${message.heading}`, wrap: true, weight: "Bolder" });
+    }
+    if (message.fields.length > 0) {
+      body.push({
+        type: "FactSet",
+        facts: message.fields.map(field => ({ title: field.label, value: field.value }))
+      });
+    }
+    if (message.progress) {
+      body.push({
+        type: "TextBlock",
+        text: `${message.progress.label}: ${this.formatter.progressBar(message.progress)}`,
+        wrap: true,
+        fontType: "Monospace"
+      });
+    }
+    for (const section of message.sections ?? []) {
+      body.push({ type: "TextBlock", text: section.title, wrap: true, weight: "Bolder", spacing: "Medium", separator: true });
+      // Adaptive CardのMarkdownでは1つの改行が無視されるため段落で区切る
+      body.push({ type: "TextBlock", text: section.lines.join("\n\n"), wrap: true });
+    }
+    if (message.footer) {
+      body.push({ type: "TextBlock", text: message.footer, wrap: true, isSubtle: true, spacing: "Medium" });
+    }
+    return body;
+  }
+
+  // Slackのmrkdwn（*太字*・改行）をAdaptive CardのMarkdownに変換する
+  private toMarkdown(text: string): string {
+    return text
+      .replace(/(^|[^*])\*([^*\n]+)\*(?!\*)/g, "$1**$2**")
+      .replace(/\n/g, "\n\n")
+      .replace(/\n{3,}/g, "\n\n");
+  }
+}
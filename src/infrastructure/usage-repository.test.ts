@@ -160,6 +160,119 @@ describe("CCUsageRepository", () => {
       expect(mockLogger.hasLog("debug", "使用量データ取得完了")).toBe(true);
     });
   });
+  describe("タイムゾーン", () => {
+    test("設定したタイムゾーンをTZとしてccusageに渡す", async () => {
+      mockCommandExecutor.setMockResponse("ccusage --format json", JSON.stringify({ monthly: [], totals: { totalCost: 0 } }));
+      mockCommandExecutor.setMockResponse("ccusage daily --json --since 20250701", "[]");
+      mockCommandExecutor.setMockResponse("ccusage blocks --json --active", "[]");
+      repository = new CCUsageRepository(mockLogger, mockSemaphore, mockCommandExecutor, "Asia/Tokyo");
+
+      await repository.fetchUsageData();
+      await repository.fetchDailyUsageData("2025-07-01");
+      await repository.fetchBlocksData(true);
+
+      const options = mockCommandExecutor.getExecutedOptions();
+      expect(options).toHaveLength(3);
+      expect(options.every(option => option?.env?.TZ === "Asia/Tokyo")).toBe(true);
+    });
+
+    test("タイムゾーン未設定なら実行環境のTZを使う", async () => {
+      mockCommandExecutor.setMockResponse("ccusage --format json", JSON.stringify({ monthly: [], totals: { totalCost: 0 } }));
+      repository = new CCUsageRepository(mockLogger, mockSemaphore, mockCommandExecutor);
+
+      await repository.fetchUsageData();
+
+      expect(mockCommandExecutor.getExecutedOptions()[0]?.env).toBeUndefined();
+    });
+  });
+
+  describe("日次使用量データ取得", () => {
+    test("開始日を指定した日次データ取得", async () => {
+      mockCommandExecutor.setMockResponse("ccusage daily --json --since 20250701", JSON.stringify({
+        daily: [{ date: "2025-07-01", totalCost: 3.5, modelsUsed: [], modelBreakdowns: [] }],
+        totals: { totalCost: 3.5 }
+      }));
+      repository = new CCUsageRepository(mockLogger, mockSemaphore, mockCommandExecutor);
+
+      const result = await repository.fetchDailyUsageData("2025-07-01");
+
+      expect(result.daily).toHaveLength(1);
+      expect(result.daily[0]?.totalCost).toBe(3.5);
+      expect(mockSemaphore.getReleaseCount()).toBe(1);
+      expect(mockLogger.hasLog("debug", "日次使用量データ取得完了")).toBe(true);
+    });
+
+    test("ccusageのmodelNameをmodelに正規化", async () => {
+      mockCommandExecutor.setMockResponse("ccusage daily --json", JSON.stringify({
+        daily: [{
+          date: "2025-07-01",
+          totalCost: 3.5,
+          modelsUsed: ["claude-opus-4-20250514"],
+          modelBreakdowns: [{ modelName: "claude-opus-4-20250514", inputTokens: 10, outputTokens: 5, cost: 3.5 }]
+        }],
+        totals: { totalCost: 3.5 }
+      }));
+      repository = new CCUsageRepository(mockLogger, mockSemaphore, mockCommandExecutor);
+
+      const result = await repository.fetchDailyUsageData();
+
+      expect(result.daily[0]?.modelBreakdowns).toEqual([
+        { model: "claude-opus-4-20250514", inputTokens: 10, outputTokens: 5, cost: 3.5 }
+      ]);
+    });
+
+    test("データが無い場合の空配列出力", async () => {
+      mockCommandExecutor.setMockResponse("ccusage daily --json", "[]");
+      repository = new CCUsageRepository(mockLogger, mockSemaphore, mockCommandExecutor);
+
+      const result = await repository.fetchDailyUsageData();
+
+      expect(result).toEqual({ daily: [], totals: { totalCost: 0 } });
+    });
+
+    test("日次データ取得エラー", async () => {
+      repository = new CCUsageRepository(mockLogger, mockSemaphore, mockCommandExecutor);
+
+      await expect(repository.fetchDailyUsageData()).rejects.toThrow("CCUsage data fetch failed");
+      expect(mockSemaphore.getReleaseCount()).toBe(1);
+    });
+  });
+});
+
+describe("CCUsageRepository - ブロックデータ", () => {
+  test("アクティブブロックのみ取得", async () => {
+    const logger = new MockLogger();
+    const executor = new MockCommandExecutor();
+    executor.setMockResponse("ccusage blocks --json --active", JSON.stringify({
+      blocks: [{
+        id: "2025-07-15T10:00:00.000Z",
+        startTime: "2025-07-15T10:00:00.000Z",
+        endTime: "2025-07-15T15:00:00.000Z",
+        isActive: true,
+        isGap: false,
+        entries: 3,
+        tokenCounts: { inputTokens: 100, outputTokens: 50, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+        totalTokens: 150,
+        costUSD: 1.5,
+        models: ["claude-sonnet-4-20250514"]
+      }]
+    }));
+    const repository = new CCUsageRepository(logger, new MockSemaphore(), executor);
+
+    const result = await repository.fetchBlocksData(true);
+
+    expect(result.blocks).toHaveLength(1);
+    expect(result.blocks[0]?.costUSD).toBe(1.5);
+    expect(logger.hasLog("debug", "ブロックデータ取得完了")).toBe(true);
+  });
+
+  test("データが無い場合の空配列出力", async () => {
+    const executor = new MockCommandExecutor();
+    executor.setMockResponse("ccusage blocks --json", "[]");
+    const repository = new CCUsageRepository(new MockLogger(), new MockSemaphore(), executor);
+
+    expect(await repository.fetchBlocksData()).toEqual({ blocks: [] });
+  });
 });
 
 describe("MockUsageRepository", () => {
@@ -280,4 +393,21 @@ describe("MockUsageRepository", () => {
     expect(result).toEqual(complexData);
     expect(result.monthly[0]?.modelBreakdowns).toHaveLength(2);
   });
-});
\ No newline at end of file
+});
+
+describe("MockUsageRepository - 日次データ", () => {
+  test("開始日以降の日次データのみ返却", async () => {
+    const repository = new MockUsageRepository({ monthly: [], totals: { totalCost: 0 } });
+    repository.setMockDailyData({
+      daily: [
+        { date: "2025-06-30", totalCost: 1, modelsUsed: [], modelBreakdowns: [] },
+        { date: "2025-07-01", totalCost: 2, modelsUsed: [], modelBreakdowns: [] }
+      ],
+      totals: { totalCost: 3 }
+    });
+
+    const result = await repository.fetchDailyUsageData("2025-07-01");
+
+    expect(result.daily.map(day => day.date)).toEqual(["2025-07-01"]);
+  });
+});
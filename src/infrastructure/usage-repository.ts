@@ -1,4 +1,11 @@
-import type { UsageDataRepository, CCUsageData, Logger } from "../core/interfaces.ts";
+import type {
+  UsageDataRepository,
+  CCUsageData,
+  CCDailyUsageData,
+  CCBlocksData,
+  ModelBreakdown,
+  Logger
+} from "../core/interfaces.ts";
 import { BinarySemaphore, type Semaphore } from "./semaphore.ts";
 import { NodeCommandExecutor, type CommandExecutor } from "./command-executor.ts";
 
@@ -11,15 +18,90 @@ export class CCUsageRepository implements UsageDataRepository {
   constructor(
     private logger: Logger,
     semaphore?: Semaphore,
-    commandExecutor?: CommandExecutor
+    commandExecutor?: CommandExecutor,
+    private timeZone?: string
   ) {
     this.executionSemaphore = semaphore || new BinarySemaphore('ccusage-execution');
     this.commandExecutor = commandExecutor || new NodeCommandExecutor();
   }
 
   async fetchUsageData(): Promise<CCUsageData> {
+    return this.runCCUsage("ccusage --format json", (result) => {
+      const parsed = JSON.parse(result) as CCUsageData;
+      const parsedData: CCUsageData = {
+        ...parsed,
+        monthly: parsed.monthly.map(month => ({
+          ...month,
+          modelBreakdowns: this.normalizeBreakdowns(month.modelBreakdowns)
+        }))
+      };
+      
+      this.logger.debug("使用量データ取得完了", { 
+        component: 'usage-repository',
+        monthCount: parsedData.monthly.length,
+        dataSize: result.length
+      });
+      
+      return parsedData;
+    });
+  }
+
+  async fetchDailyUsageData(since?: string): Promise<CCDailyUsageData> {
+    // ccusageの--sinceはYYYYMMDD形式
+    const sinceOption = since ? ` --since ${since.replace(/-/g, '')}` : '';
+
+    return this.runCCUsage(`ccusage daily --json${sinceOption}`, (result) => {
+      const parsed = JSON.parse(result) as CCDailyUsageData | [];
+      // データが無い場合ccusageは空配列を出力する
+      const parsedData: CCDailyUsageData = Array.isArray(parsed)
+        ? { daily: [], totals: { totalCost: 0 } }
+        : {
+            ...parsed,
+            daily: parsed.daily.map(day => ({
+              ...day,
+              modelBreakdowns: this.normalizeBreakdowns(day.modelBreakdowns)
+            }))
+          };
+
+      this.logger.debug("日次使用量データ取得完了", {
+        component: 'usage-repository',
+        dayCount: parsedData.daily.length,
+        dataSize: result.length
+      });
+
+      return parsedData;
+    });
+  }
+
+  async fetchBlocksData(activeOnly = false): Promise<CCBlocksData> {
+    const activeOption = activeOnly ? ' --active' : '';
+
+    return this.runCCUsage(`ccusage blocks --json${activeOption}`, (result) => {
+      const parsed = JSON.parse(result) as CCBlocksData | [];
+      const parsedData: CCBlocksData = Array.isArray(parsed) ? { blocks: [] } : { blocks: parsed.blocks ?? [] };
+
+      this.logger.debug("ブロックデータ取得完了", {
+        component: 'usage-repository',
+        blockCount: parsedData.blocks.length,
+        dataSize: result.length
+      });
+
+      return parsedData;
+    });
+  }
+
+  // ccusageはモデル名を`modelName`で出力するため`model`に揃える
+  private normalizeBreakdowns(breakdowns: ModelBreakdown[] | undefined): ModelBreakdown[] {
+    return (breakdowns ?? []).map(breakdown => {
+      const { modelName, ...rest } = breakdown as ModelBreakdown & { modelName?: string };
+      return { ...rest, model: breakdown.model ?? modelName ?? "unknown" };
+    });
+  }
+
+  private async runCCUsage<T>(command: string, parse: (result: string) => T): Promise<T> {
     this.logger.debug("使用量データ取得開始", { 
       component: 'usage-repository',
+      command,
       semaphoreAvailable: this.executionSemaphore.getAvailablePermits()
     });
 
@@ -39,8 +121,10 @@ export class CCUsageRepository implements UsageDataRepository {
         component: 'usage-repository'
       });
 
-      const result = await this.commandExecutor.execute("ccusage --format json", {
-        maxBuffer: this.MAX_DATA_SIZE
+      // ccusageは実行環境のタイムゾーンで日付・月を集計するため、設定のタイムゾーンに揃える
+      const result = await this.commandExecutor.execute(command, {
+        maxBuffer: this.MAX_DATA_SIZE,
+        env: this.timeZone ? { TZ: this.timeZone } : undefined
       });
       
       // データサイズチェックでメモリ使用量制限
@@ -48,15 +132,7 @@ export class CCUsageRepository implements UsageDataRepository {
         throw new Error(`Usage data too large: ${result.length} bytes (max: ${this.MAX_DATA_SIZE})`);
       }
       
-      const parsedData = JSON.parse(result) as CCUsageData;
-      
-      this.logger.debug("使用量データ取得完了", { 
-        component: 'usage-repository',
-        monthCount: parsedData.monthly.length,
-        dataSize: result.length
-      });
-      
-      return parsedData;
+      return parse(result);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error("使用量データ取得エラー", {
@@ -72,25 +148,53 @@ export class CCUsageRepository implements UsageDataRepository {
       });
     }
   }
-
 }
 
 // テスト用のモック実装
 export class MockUsageRepository implements UsageDataRepository {
+  private mockDailyData: CCDailyUsageData = { daily: [], totals: { totalCost: 0 } };
+  private mockBlocksData: CCBlocksData = { blocks: [] };
+
   constructor(private mockData: CCUsageData) {}
 
   async fetchUsageData(): Promise<CCUsageData> {
+    return this.clone(this.mockData);
+  }
+
+  async fetchDailyUsageData(since?: string): Promise<CCDailyUsageData> {
+    const daily = since
+      ? this.mockDailyData.daily.filter(day => day.date >= since)
+      : this.mockDailyData.daily;
+    return this.clone({ ...this.mockDailyData, daily });
+  }
+
+  async fetchBlocksData(activeOnly = false): Promise<CCBlocksData> {
+    const blocks = activeOnly
+      ? this.mockBlocksData.blocks.filter(block => block.isActive)
+      : this.mockBlocksData.blocks;
+    return this.clone({ blocks });
+  }
+
+  setMockData(data: CCUsageData): void {
+    this.mockData = data;
+  }
+
+  setMockDailyData(data: CCDailyUsageData): void {
+    this.mockDailyData = data;
+  }
+
+  setMockBlocksData(data: CCBlocksData): void {
+    this.mockBlocksData = data;
+  }
+
+  private clone<T>(data: T): T {
     // 構造化クローニングでより効率的なディープコピー
     // JSON.parse/stringifyより高速でメモリ効率が良い
     try {
-      return structuredClone(this.mockData);
+      return structuredClone(data);
     } catch {
       // structuredCloneが利用できない環境ではフォールバック
-      return JSON.parse(JSON.stringify(this.mockData));
+      return JSON.parse(JSON.stringify(data));
     }
   }
-
-  setMockData(data: CCUsageData): void {
-    this.mockData = data;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+import { describe, test, expect } from "vitest";
+import { CalendarDate } from "./calendar-date.ts";
+
+describe("CalendarDate", () => {
+  test("日付の加算は月・年をまたぐ", () => {
+    expect(CalendarDate.addDays("2025-07-31", 1)).toBe("2025-08-01");
+    expect(CalendarDate.addDays("2025-01-01", -1)).toBe("2024-12-31");
+    expect(CalendarDate.addDays("2024-02-28", 1)).toBe("2024-02-29");
+  });
+
+  test("日数差", () => {
+    expect(CalendarDate.diffDays("2025-07-01", "2025-07-15")).toBe(14);
+    expect(CalendarDate.diffDays("2025-07-15", "2025-07-15")).toBe(0);
+    expect(CalendarDate.diffDays("2025-07-15", "2025-07-01")).toBe(-14);
+  });
+
+  test("月の日数", () => {
+    expect(CalendarDate.daysInMonth(2025, 2)).toBe(28);
+    expect(CalendarDate.daysInMonth(2024, 2)).toBe(29);
+    expect(CalendarDate.daysInMonth(2025, 7)).toBe(31);
+  });
+
+  test("曜日", () => {
+    expect(CalendarDate.dayOfWeek("2025-07-19")).toBe(6);
+    expect(CalendarDate.dayOfWeek("2025-07-20")).toBe(0);
+  });
+});
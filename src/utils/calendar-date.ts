@@ -0,0 +1,33 @@
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// "YYYY-MM-DD" 形式の日付文字列を扱うユーティリティ（時刻・タイムゾーンを持たない暦日として計算する）
+export class CalendarDate {
+  static toUTCDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year!, month! - 1, day!));
+  }
+
+  static fromUTCDate(date: Date): string {
+    return date.toISOString().split('T')[0]!;
+  }
+
+  static addDays(date: string, days: number): string {
+    const result = CalendarDate.toUTCDate(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return CalendarDate.fromUTCDate(result);
+  }
+
+  // fromからtoまでの日数差（同日は0）
+  static diffDays(from: string, to: string): number {
+    return Math.round((CalendarDate.toUTCDate(to).getTime() - CalendarDate.toUTCDate(from).getTime()) / MS_PER_DAY);
+  }
+
+  static daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+  }
+
+  // 0: 日曜 〜 6: 土曜
+  static dayOfWeek(date: string): number {
+    return CalendarDate.toUTCDate(date).getUTCDay();
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, test, expect } from "vitest";
+import { TimeZone } from "./time-zone.ts";
+
+describe("TimeZone", () => {
+  test("IANAタイムゾーンの検証", () => {
+    expect(TimeZone.isValid("Asia/Tokyo")).toBe(true);
+    expect(TimeZone.isValid("UTC")).toBe(true);
+    expect(TimeZone.isValid("Mars/Olympus_Mons")).toBe(false);
+    expect(TimeZone.isValid("")).toBe(false);
+  });
+
+  test("システムのタイムゾーン", () => {
+    expect(TimeZone.isValid(TimeZone.systemDefault())).toBe(true);
+  });
+
+  test("タイムゾーンでの日付", () => {
+    const date = new Date("2025-07-31T15:30:00Z");
+
+    expect(TimeZone.formatDate(date, "UTC")).toBe("2025-07-31");
+    expect(TimeZone.formatDate(date, "Asia/Tokyo")).toBe("2025-08-01");
+    expect(TimeZone.formatDate(date, "America/New_York")).toBe("2025-07-31");
+  });
+
+  test("UTCからのオフセット", () => {
+    expect(TimeZone.offsetMinutes(new Date("2025-07-01T00:00:00Z"), "Asia/Tokyo")).toBe(540);
+    expect(TimeZone.offsetMinutes(new Date("2025-07-01T00:00:00Z"), "America/New_York")).toBe(-240);
+    expect(TimeZone.offsetMinutes(new Date("2025-01-01T00:00:00Z"), "America/New_York")).toBe(-300);
+  });
+
+  test("タイムゾーンでの日付の開始時刻", () => {
+    expect(TimeZone.startOfDay("2025-07-21", "Asia/Tokyo").toISOString()).toBe("2025-07-20T15:00:00.000Z");
+    expect(TimeZone.startOfDay("2025-07-21", "UTC").toISOString()).toBe("2025-07-21T00:00:00.000Z");
+    // 夏時間の開始日・終了日
+    expect(TimeZone.startOfDay("2025-03-09", "America/New_York").toISOString()).toBe("2025-03-09T05:00:00.000Z");
+    expect(TimeZone.startOfDay("2025-03-10", "America/New_York").toISOString()).toBe("2025-03-10T04:00:00.000Z");
+    expect(TimeZone.startOfDay("2025-11-02", "America/New_York").toISOString()).toBe("2025-11-02T04:00:00.000Z");
+  });
+});
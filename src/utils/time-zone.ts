@@ -0,0 +1,65 @@
+import { CalendarDate } from "./calendar-date.ts";
+
+// IANAタイムゾーン（"Asia/Tokyo" など）での暦日計算
+export class TimeZone {
+  static systemDefault(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  }
+
+  static isValid(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // 指定タイムゾーンでの日付を "YYYY-MM-DD" 形式で返す
+  static formatDate(date: Date, timeZone: string): string {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).formatToParts(date);
+
+    const get = (type: string) => parts.find(part => part.type === type)!.value;
+    return `${get('year').padStart(4, '0')}-${get('month')}-${get('day')}`;
+  }
+
+  // 指定タイムゾーンでの時刻を "HH:mm" 形式で返す
+  static formatTime(date: Date, timeZone: string): string {
+    return new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).format(date);
+  }
+
+  // 指定タイムゾーンでの "YYYY-MM-DD" 00:00 の時点（夏時間の切り替えを考慮して2回補正する）
+  static startOfDay(date: string, timeZone: string): Date {
+    const localMidnight = CalendarDate.toUTCDate(date).getTime();
+    const guess = localMidnight - TimeZone.offsetMinutes(new Date(localMidnight), timeZone) * 60000;
+    return new Date(localMidnight - TimeZone.offsetMinutes(new Date(guess), timeZone) * 60000);
+  }
+
+  // 指定時点におけるUTCからのオフセット（分）
+  static offsetMinutes(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }).formatToParts(date);
+
+    const get = (type: string) => Number(parts.find(part => part.type === type)!.value);
+    const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  }
+}
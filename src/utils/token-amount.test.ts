@@ -0,0 +1,40 @@
+import { describe, test, expect } from "vitest";
+import { TokenAmount } from "./token-amount.ts";
+
+describe("TokenAmount", () => {
+  describe("parse", () => {
+    test("単位付きの表記", () => {
+      expect(TokenAmount.parse("2M tokens")).toBe(2_000_000);
+      expect(TokenAmount.parse("500k")).toBe(500_000);
+      expect(TokenAmount.parse("1.5M")).toBe(1_500_000);
+      expect(TokenAmount.parse("1B tokens")).toBe(1_000_000_000);
+      expect(TokenAmount.parse("750K token")).toBe(750_000);
+    });
+
+    test("単位なし・カンマ区切りの表記", () => {
+      expect(TokenAmount.parse("1500000")).toBe(1_500_000);
+      expect(TokenAmount.parse("1,500,000 tokens")).toBe(1_500_000);
+    });
+
+    test("数値はそのまま返す", () => {
+      expect(TokenAmount.parse(2_000_000)).toBe(2_000_000);
+      expect(TokenAmount.parse(Infinity)).toBeUndefined();
+    });
+
+    test("不正な表記", () => {
+      expect(TokenAmount.parse("")).toBeUndefined();
+      expect(TokenAmount.parse("abc")).toBeUndefined();
+      expect(TokenAmount.parse("2X")).toBeUndefined();
+      expect(TokenAmount.parse("-5M")).toBeUndefined();
+    });
+  });
+
+  describe("format", () => {
+    test("単位付きで表示", () => {
+      expect(TokenAmount.format(2_500_000)).toBe("2.50M");
+      expect(TokenAmount.format(1_200_000_000)).toBe("1.20B");
+      expect(TokenAmount.format(45_300)).toBe("45.3K");
+      expect(TokenAmount.format(999)).toBe("999");
+    });
+  });
+});
@@ -0,0 +1,33 @@
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  "": 1,
+  k: 1_000,
+  m: 1_000_000,
+  b: 1_000_000_000
+};
+
+export class TokenAmount {
+  // "2M tokens", "500k", "1,500,000" などのトークン数表記を数値に変換する
+  static parse(value: string | number): number | undefined {
+    if (typeof value === 'number') {
+      return isFinite(value) ? value : undefined;
+    }
+
+    const match = value
+      .trim()
+      .replace(/,/g, '')
+      .match(/^(\d+(?:\.\d+)?)\s*([kmb]?)\s*(?:tokens?)?$/i);
+    if (!match) {
+      return undefined;
+    }
+
+    const multiplier = UNIT_MULTIPLIERS[match[2]!.toLowerCase()]!;
+    return Math.round(parseFloat(match[1]!) * multiplier);
+  }
+
+  static format(tokens: number): string {
+    if (tokens >= 1_000_000_000) return `${(tokens / 1_000_000_000).toFixed(2)}B`;
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+    return String(tokens);
+  }
+}